@@ -1,4 +1,6 @@
 import { z } from "zod";
+import * as os from "os";
+import * as path from "path";
 
 const ConfigSchema = z.object({
   qualtrics: z.object({
@@ -10,13 +12,30 @@ const ConfigSchema = z.object({
     rateLimiting: z.object({
       enabled: z.boolean().default(true),
       requestsPerMinute: z.number().default(50),
+      maxConcurrent: z.number().int().min(1).default(4),
+      buckets: z.object({
+        responseExports: z.number().optional(),
+        distributions: z.number().optional(),
+        surveyDefinitions: z.number().optional(),
+      }).default({}),
+    }),
+    retry: z.object({
+      maxAttempts: z.number().int().min(1).default(3),
+      baseDelayMs: z.number().min(0).default(1000),
+      maxDelayMs: z.number().min(0).default(30000),
+      jitter: z.number().min(0).max(1).default(0.2),
     }),
     timeout: z.number().default(30000),
+    dataDir: z.string().min(1),
   }),
 });
 
 export type QualtricsConfig = z.infer<typeof ConfigSchema>;
 
+function optionalInt(value: string | undefined): number | undefined {
+  return value ? parseInt(value) : undefined;
+}
+
 export async function loadConfig(): Promise<QualtricsConfig> {
   const config = {
     qualtrics: {
@@ -28,8 +47,21 @@ export async function loadConfig(): Promise<QualtricsConfig> {
       rateLimiting: {
         enabled: process.env.RATE_LIMITING_ENABLED !== "false",
         requestsPerMinute: parseInt(process.env.RATE_LIMIT_RPM || "50"),
+        maxConcurrent: parseInt(process.env.RATE_LIMIT_MAX_CONCURRENT || "4"),
+        buckets: {
+          responseExports: optionalInt(process.env.RATE_LIMIT_EXPORT_RPM),
+          distributions: optionalInt(process.env.RATE_LIMIT_DISTRIBUTION_RPM),
+          surveyDefinitions: optionalInt(process.env.RATE_LIMIT_DEFINITION_RPM),
+        },
+      },
+      retry: {
+        maxAttempts: parseInt(process.env.RETRY_MAX_ATTEMPTS || "3"),
+        baseDelayMs: parseInt(process.env.RETRY_BASE_DELAY_MS || "1000"),
+        maxDelayMs: parseInt(process.env.RETRY_MAX_DELAY_MS || "30000"),
+        jitter: parseFloat(process.env.RETRY_JITTER || "0.2"),
       },
       timeout: parseInt(process.env.REQUEST_TIMEOUT || "30000"),
+      dataDir: process.env.QUALTRICS_MCP_DATA_DIR || path.join(os.homedir(), ".qualtrics-mcp"),
     },
   };
 
@@ -39,4 +71,4 @@ export async function loadConfig(): Promise<QualtricsConfig> {
     console.error("Configuration validation failed:", error);
     throw new Error("Invalid configuration. Please check your environment variables.");
   }
-}
\ No newline at end of file
+}
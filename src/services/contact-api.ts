@@ -1,4 +1,4 @@
-import { QualtricsClient } from "./qualtrics-client.js";
+import { FetchAllResult, QualtricsClient } from "./qualtrics-client.js";
 
 export class ContactApi {
   constructor(private client: QualtricsClient) {}
@@ -7,6 +7,10 @@ export class ContactApi {
     return this.client.makeRequest("/mailinglists");
   }
 
+  async listAllMailingLists(maxItems?: number): Promise<FetchAllResult<any>> {
+    return this.client.fetchAll("/mailinglists", maxItems);
+  }
+
   async createMailingList(data: Record<string, any>): Promise<any> {
     return this.client.makeRequest("/mailinglists", {
       method: "POST",
@@ -32,6 +36,10 @@ export class ContactApi {
     return this.client.makeRequest(`/mailinglists/${mailingListId}/contacts${qs ? `?${qs}` : ""}`);
   }
 
+  async listAllContacts(mailingListId: string, maxItems?: number): Promise<FetchAllResult<any>> {
+    return this.client.fetchAll(`/mailinglists/${mailingListId}/contacts`, maxItems);
+  }
+
   async createContact(mailingListId: string, data: Record<string, any>): Promise<any> {
     return this.client.makeRequest(`/mailinglists/${mailingListId}/contacts`, {
       method: "POST",
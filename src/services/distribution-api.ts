@@ -1,4 +1,4 @@
-import { QualtricsClient } from "./qualtrics-client.js";
+import { FetchAllResult, QualtricsClient } from "./qualtrics-client.js";
 
 export class DistributionApi {
   constructor(private client: QualtricsClient) {}
@@ -7,6 +7,10 @@ export class DistributionApi {
     return this.client.makeRequest(`/distributions?surveyId=${surveyId}`);
   }
 
+  async listAllDistributions(surveyId: string, maxItems?: number): Promise<FetchAllResult<any>> {
+    return this.client.fetchAll(`/distributions?surveyId=${surveyId}`, maxItems);
+  }
+
   async getDistribution(distributionId: string, surveyId: string): Promise<any> {
     return this.client.makeRequest(`/distributions/${distributionId}?surveyId=${surveyId}`);
   }
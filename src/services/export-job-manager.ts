@@ -0,0 +1,182 @@
+import { QualtricsClient } from "./qualtrics-client.js";
+import { QualtricsExportFailedError } from "./qualtrics-errors.js";
+import { qualtricsExportFormat, streamExportToFile, StreamedExport } from "../utils/file-save.js";
+import { exportTagResolver, parseResponseFilter } from "../utils/response-filter.js";
+
+export type ExportJobStatus = "inProgress" | "complete" | "failed" | "cancelled";
+
+export interface ExportJob {
+  progressId: string;
+  surveyId: string;
+  format: string;
+  filters?: Record<string, any>;
+  /** Row filter expression applied locally when the file is downloaded */
+  where?: string;
+  status: ExportJobStatus;
+  percentComplete: number;
+  fileId?: string;
+  /** Returned when the export was started with allowContinuation; resumes from this export next time */
+  continuationToken?: string;
+  startedAt: string;
+  updatedAt: string;
+  savedFile?: StreamedExport;
+}
+
+export interface WaitOptions {
+  timeoutMs?: number;
+  initialIntervalMs?: number;
+  maxIntervalMs?: number;
+}
+
+const DEFAULT_WAIT: Required<WaitOptions> = {
+  timeoutMs: 5 * 60 * 1000,
+  initialIntervalMs: 1000,
+  maxIntervalMs: 10000,
+};
+
+const managers = new WeakMap<QualtricsClient, ExportJobManager>();
+
+/**
+ * Starts, polls and downloads response export jobs. Job state is kept in memory
+ * for the lifetime of the server so later tool calls can pick up a job by its
+ * progress ID.
+ */
+export class ExportJobManager {
+  private jobs = new Map<string, ExportJob>();
+
+  constructor(private client: QualtricsClient) {}
+
+  /** Returns the manager shared by every tool registered against this client. */
+  static forClient(client: QualtricsClient): ExportJobManager {
+    let manager = managers.get(client);
+    if (!manager) {
+      manager = new ExportJobManager(client);
+      managers.set(client, manager);
+    }
+    return manager;
+  }
+
+  async start(surveyId: string, format: string, filters?: Record<string, any>, where?: string): Promise<ExportJob> {
+    const result = await this.client.startResponseExport(surveyId, qualtricsExportFormat(format), filters);
+    const now = new Date().toISOString();
+    const job: ExportJob = {
+      progressId: result.result.progressId,
+      surveyId,
+      format,
+      filters,
+      ...(where ? { where } : {}),
+      status: "inProgress",
+      percentComplete: result.result.percentComplete ?? 0,
+      startedAt: now,
+      updatedAt: now,
+    };
+    this.jobs.set(job.progressId, job);
+    return job;
+  }
+
+  get(progressId: string): ExportJob | undefined {
+    return this.jobs.get(progressId);
+  }
+
+  list(): ExportJob[] {
+    return Array.from(this.jobs.values());
+  }
+
+  /**
+   * Fetches the latest progress for a job. Jobs not started by this manager
+   * (e.g. before a server restart) are adopted using the given survey and format.
+   */
+  async poll(progressId: string, surveyId?: string, format = "json"): Promise<ExportJob> {
+    let job = this.jobs.get(progressId);
+    if (!job) {
+      if (!surveyId) throw new Error(`Unknown export job ${progressId}; a surveyId is required to look it up`);
+      const now = new Date().toISOString();
+      job = { progressId, surveyId, format, status: "inProgress", percentComplete: 0, startedAt: now, updatedAt: now };
+      this.jobs.set(progressId, job);
+    }
+    if (job.status !== "inProgress") return job;
+
+    const progress = await this.client.getResponseExportProgress(job.surveyId, progressId);
+    job.percentComplete = progress.result.percentComplete ?? job.percentComplete;
+    job.fileId = progress.result.fileId ?? job.fileId;
+    job.continuationToken = progress.result.continuationToken ?? job.continuationToken;
+    job.updatedAt = new Date().toISOString();
+
+    // Qualtrics reports inProgress, complete or failed
+    if (progress.result.status === "failed") {
+      job.status = "failed";
+    } else if (progress.result.status === "complete" || (job.percentComplete === 100 && job.fileId)) {
+      job.status = "complete";
+    }
+    return job;
+  }
+
+  /**
+   * Polls until the job completes, fails, is cancelled or the timeout elapses.
+   * The interval starts short and backs off, so small exports return quickly
+   * without hammering the progress endpoint for large ones.
+   */
+  async waitForCompletion(progressId: string, options: WaitOptions = {}): Promise<ExportJob> {
+    const { timeoutMs, initialIntervalMs, maxIntervalMs } = { ...DEFAULT_WAIT, ...options };
+    const deadline = Date.now() + timeoutMs;
+    let interval = initialIntervalMs;
+
+    while (true) {
+      const job = await this.poll(progressId);
+      if (job.status === "failed") {
+        throw new QualtricsExportFailedError(`Export job ${progressId} failed on the Qualtrics side`, {
+          hint: "Retry the export, or reduce its size with export_responses_filtered.",
+        });
+      }
+      if (job.status !== "inProgress" || Date.now() + interval > deadline) return job;
+
+      await new Promise(resolve => setTimeout(resolve, interval));
+      interval = Math.min(Math.round(interval * 1.5), maxIntervalMs);
+    }
+  }
+
+  /**
+   * Stops tracking a job. Qualtrics has no cancel endpoint, so the export may still
+   * finish server-side, but no waiting call will download it.
+   */
+  cancel(progressId: string): ExportJob | undefined {
+    const job = this.jobs.get(progressId);
+    if (job && job.status === "inProgress") {
+      job.status = "cancelled";
+      job.updatedAt = new Date().toISOString();
+    }
+    return job;
+  }
+
+  /**
+   * Streams a completed job's file to disk, applying the job's row filter if it
+   * has one, and records where it was saved.
+   */
+  async download(progressId: string, options: { saveToFile?: string; suffix?: string } = {}): Promise<StreamedExport> {
+    const job = this.jobs.get(progressId);
+    if (!job || job.status !== "complete" || !job.fileId) {
+      throw new Error(`Export job ${progressId} is not complete (status: ${job?.status ?? "unknown"})`);
+    }
+
+    const fileId = job.fileId;
+    const rowFilter = job.where ? parseResponseFilter(job.where) : undefined;
+    // JSON answers are keyed by QID; CSV/TSV headers already carry the export tags
+    const resolveTag = rowFilter && (job.format === "json" || job.format === "ndjson")
+      ? exportTagResolver((await this.client.getSurveyDefinition(job.surveyId)).result)
+      : undefined;
+    const { body, totalBytes } = await this.client.openResponseExportStream(job.surveyId, fileId);
+    const saved = await streamExportToFile(body, job.surveyId, job.format, {
+      saveToFile: options.saveToFile,
+      suffix: options.suffix,
+      totalBytes,
+      rowFilter,
+      resolveTag,
+      onProgress: (p) => {
+        const mb = (p.bytesDownloaded / (1024 * 1024)).toFixed(1);
+        console.error(`Downloading export ${fileId}: ${mb}MB${p.percent !== null ? ` (${p.percent}%)` : ""}`);
+      },
+    });
+    job.savedFile = saved;
+    return saved;
+  }
+}
@@ -1,14 +1,38 @@
 import { QualtricsConfig } from "../config/settings.js";
+import type { ReadableStream as WebReadableStream } from "stream/web";
 import { RateLimiter } from "./rate-limiter.js";
-import type { Survey, SurveyListResponse, ResponseExportJob } from "../types/index.js";
+import { createApiError, QualtricsTimeoutError } from "./qualtrics-errors.js";
+import type {
+  Survey,
+  SurveyListResponse,
+  ResponseExportJob,
+  QualtricsApiResponse,
+  PaginatedResult,
+} from "../types/index.js";
 
 export type { Survey, SurveyListResponse, ResponseExportJob };
 
+export interface RequestOptions extends RequestInit {
+  /** Allow retries for a non-idempotent method (e.g. a POST that is safe to repeat). */
+  retrySafe?: boolean;
+}
+
+export interface FetchAllResult<T> {
+  elements: T[];
+  truncated: boolean;
+}
+
+export const DEFAULT_MAX_ITEMS = 5000;
+
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
 export class QualtricsClient {
   private baseUrl: string;
   private apiToken: string;
   private rateLimiter: RateLimiter;
   private timeout: number;
+  private retry: QualtricsConfig["server"]["retry"];
 
   constructor(config: QualtricsConfig) {
     this.baseUrl = config.qualtrics.baseUrl ||
@@ -16,49 +40,153 @@ export class QualtricsClient {
     this.apiToken = config.qualtrics.apiToken;
     this.rateLimiter = new RateLimiter(config.server.rateLimiting);
     this.timeout = config.server.timeout;
+    this.retry = config.server.retry;
   }
 
   public async makeRequest<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestOptions = {}
   ): Promise<T> {
-    await this.rateLimiter.checkLimit();
-
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
-
-    try {
-      const response = await fetch(`${this.baseUrl}${endpoint}`, {
-        ...options,
-        headers: {
-          "X-API-TOKEN": this.apiToken,
-          "Content-Type": "application/json",
-          ...options.headers,
-        },
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Qualtrics API error: ${response.status} ${response.statusText} - ${errorText}`);
+    return this.requestUrl<T>(`${this.baseUrl}${endpoint}`, options);
+  }
+
+  /**
+   * Iterates over every element of a paginated list endpoint, following the
+   * `nextPage` URLs (which carry the offset or skipToken) that Qualtrics returns.
+   */
+  async *paginate<T>(endpoint: string): AsyncGenerator<T> {
+    let url: string | undefined = `${this.baseUrl}${endpoint}`;
+    while (url) {
+      const page: QualtricsApiResponse<PaginatedResult<T>> = await this.requestUrl(url);
+      for (const element of page.result.elements || []) {
+        yield element;
       }
+      url = page.result.nextPage ? this.checkPageUrl(page.result.nextPage) : undefined;
+    }
+  }
 
-      return response.json();
-    } catch (error) {
-      clearTimeout(timeoutId);
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new Error('Request timeout');
+  /** Collects a paginated list into memory, stopping once maxItems elements are gathered. */
+  async fetchAll<T>(endpoint: string, maxItems = DEFAULT_MAX_ITEMS): Promise<FetchAllResult<T>> {
+    const elements: T[] = [];
+    for await (const element of this.paginate<T>(endpoint)) {
+      if (elements.length >= maxItems) {
+        return { elements, truncated: true };
       }
-      throw error;
+      elements.push(element);
     }
+    return { elements, truncated: false };
+  }
+
+  private checkPageUrl(nextPage: string): string {
+    // nextPage is an absolute URL; never send the API token to a non-Qualtrics host
+    const next = new URL(nextPage, this.baseUrl);
+    const base = new URL(this.baseUrl);
+    if (next.origin !== base.origin && !next.hostname.endsWith(".qualtrics.com")) {
+      throw new Error(`Refusing to follow pagination link to unexpected host: ${next.hostname}`);
+    }
+    return next.toString();
+  }
+
+  private async requestUrl<T>(url: string, options: RequestOptions = {}): Promise<T> {
+    const { retrySafe, ...init } = options;
+    const response = await this.fetchWithRetry(url, {
+      ...init,
+      headers: {
+        "X-API-TOKEN": this.apiToken,
+        "Content-Type": "application/json",
+        ...init.headers,
+      },
+    }, retrySafe);
+
+    if (!response.ok) {
+      throw await this.toApiError(response);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Performs a rate-limited fetch with a per-attempt timeout on receiving the
+   * response headers; reading the body is not timed. Idempotent requests (and
+   * those marked retrySafe) are retried on 429/5xx responses, timeouts and
+   * network failures, using exponential backoff or the server's Retry-After. A
+   * Retry-After longer than the maximum delay ends the retries instead.
+   */
+  private async fetchWithRetry(url: string, init: RequestInit, retrySafe?: boolean): Promise<Response> {
+    const method = (init.method || "GET").toUpperCase();
+    const canRetry = retrySafe || IDEMPOTENT_METHODS.has(method);
+    const maxAttempts = canRetry ? this.retry.maxAttempts : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      // The concurrency slot is held until response headers arrive
+      const release = await this.rateLimiter.acquire(url);
+
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
+      let response: Response;
+      try {
+        response = await fetch(url, { ...init, signal: controller.signal });
+      } catch (error) {
+        const failure = error instanceof Error && error.name === 'AbortError'
+          ? new QualtricsTimeoutError('Request timeout', {
+              hint: "Increase REQUEST_TIMEOUT or narrow the request (e.g. use export_responses_filtered for large exports).",
+            })
+          : error;
+        if (attempt >= maxAttempts) throw failure;
+        await this.backoff(attempt, this.retryDelay(attempt, null)!, `${method} ${url} failed (${failure instanceof Error ? failure.message : String(failure)})`);
+        continue;
+      } finally {
+        clearTimeout(timeoutId);
+        release();
+      }
+
+      if (response.ok || !RETRYABLE_STATUSES.has(response.status) || attempt >= maxAttempts) {
+        return response;
+      }
+      const delay = this.retryDelay(attempt, response.headers.get("Retry-After"));
+      if (delay === null) return response;
+
+      // Drain the body so the connection can be reused
+      await response.text().catch(() => undefined);
+      await this.backoff(attempt, delay, `${method} ${url} returned ${response.status}`);
+    }
+  }
+
+  private async toApiError(response: Response) {
+    const body = await response.text();
+    return createApiError(response.status, response.statusText, body, {
+      baseUrl: this.baseUrl,
+      retryAfterMs: parseRetryAfter(response.headers.get("Retry-After")) ?? undefined,
+    });
+  }
+
+  /**
+   * The wait before the next attempt: the server's Retry-After, or exponential
+   * backoff with jitter capped at maxDelayMs. Null when the server asks for a
+   * longer wait than maxDelayMs, since retrying sooner would only draw another 429.
+   */
+  private retryDelay(attempt: number, retryAfter: string | null): number | null {
+    const requested = parseRetryAfter(retryAfter);
+    if (requested !== null) return requested > this.retry.maxDelayMs ? null : requested;
+    const exponential = this.retry.baseDelayMs * 2 ** (attempt - 1);
+    const jitter = exponential * this.retry.jitter * (Math.random() * 2 - 1);
+    return Math.max(0, Math.min(exponential + jitter, this.retry.maxDelayMs));
+  }
+
+  private async backoff(attempt: number, delay: number, reason: string): Promise<void> {
+    console.error(`${reason}. Retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${this.retry.maxAttempts})...`);
+    await new Promise(resolve => setTimeout(resolve, delay));
   }
 
   async getSurveys(offset = 0, limit = 100): Promise<SurveyListResponse> {
     return this.makeRequest(`/surveys?offset=${offset}&limit=${limit}`);
   }
 
+  async getAllSurveys(maxItems?: number): Promise<FetchAllResult<Survey>> {
+    return this.fetchAll("/surveys", maxItems);
+  }
+
   async getSurvey(surveyId: string): Promise<any> {
     return this.makeRequest(`/surveys/${surveyId}`);
   }
@@ -77,7 +205,7 @@ export class QualtricsClient {
   async startResponseExport(surveyId: string, format: string = "json", filters?: any): Promise<ResponseExportJob> {
     const requestBody: any = {
       format: format,
-      compress: false,
+      compress: true,
     };
 
     // Add filters if provided
@@ -85,9 +213,11 @@ export class QualtricsClient {
       Object.assign(requestBody, filters);
     }
 
+    // Starting a duplicate export job is harmless, so this POST may be retried
     return this.makeRequest(`/surveys/${surveyId}/export-responses`, {
       method: "POST",
       body: JSON.stringify(requestBody),
+      retrySafe: true,
     });
   }
 
@@ -95,17 +225,38 @@ export class QualtricsClient {
     return this.makeRequest(`/surveys/${surveyId}/export-responses/${exportProgressId}`);
   }
 
-  async downloadResponseExportFile(surveyId: string, fileId: string): Promise<string> {
-    const response = await fetch(`${this.baseUrl}/surveys/${surveyId}/export-responses/${fileId}/file`, {
+  /**
+   * Opens the export file download as a stream. With `compress: true` the body is
+   * a zip archive; use streamExportToFile to unzip it on the way to disk.
+   */
+  async openResponseExportStream(
+    surveyId: string,
+    fileId: string
+  ): Promise<{ body: WebReadableStream<Uint8Array>; totalBytes: number | null }> {
+    const response = await this.fetchWithRetry(`${this.baseUrl}/surveys/${surveyId}/export-responses/${fileId}/file`, {
       headers: {
         "X-API-TOKEN": this.apiToken,
       },
     });
 
-    if (!response.ok) {
-      throw new Error(`Failed to download export file: ${response.status} ${response.statusText}`);
+    if (!response.ok || !response.body) {
+      throw await this.toApiError(response);
     }
 
-    return response.text();
+    const contentLength = response.headers.get("Content-Length");
+    return {
+      body: response.body as WebReadableStream<Uint8Array>,
+      totalBytes: contentLength ? parseInt(contentLength) : null,
+    };
   }
 }
+
+/** Parses a Retry-After header (delta-seconds or HTTP-date) into milliseconds. */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  return null;
+}
@@ -0,0 +1,113 @@
+export interface QualtricsErrorDetails {
+  status?: number;
+  errorCode?: string;
+  requestId?: string;
+  hint?: string;
+}
+
+/** Base class for every error raised while talking to the Qualtrics API. */
+export class QualtricsApiError extends Error {
+  readonly status?: number;
+  readonly errorCode?: string;
+  readonly requestId?: string;
+  readonly hint?: string;
+
+  constructor(message: string, details: QualtricsErrorDetails = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.status = details.status;
+    this.errorCode = details.errorCode;
+    this.requestId = details.requestId;
+    this.hint = details.hint;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      type: this.name,
+      message: this.message,
+      status: this.status ?? null,
+      errorCode: this.errorCode ?? null,
+      requestId: this.requestId ?? null,
+      hint: this.hint ?? null,
+    };
+  }
+}
+
+export class QualtricsAuthError extends QualtricsApiError {}
+export class QualtricsNotFoundError extends QualtricsApiError {}
+export class QualtricsValidationError extends QualtricsApiError {}
+export class QualtricsServerError extends QualtricsApiError {}
+export class QualtricsTimeoutError extends QualtricsApiError {}
+export class QualtricsExportFailedError extends QualtricsApiError {}
+
+export class QualtricsRateLimitError extends QualtricsApiError {
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, details: QualtricsErrorDetails & { retryAfterMs?: number } = {}) {
+    super(message, details);
+    this.retryAfterMs = details.retryAfterMs;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { ...super.toJSON(), retryAfterMs: this.retryAfterMs ?? null };
+  }
+}
+
+/**
+ * Builds the appropriate QualtricsApiError subclass from a failed response,
+ * pulling errorCode/errorMessage/requestId out of the Qualtrics `meta` envelope.
+ */
+export function createApiError(
+  status: number,
+  statusText: string,
+  body: string,
+  context: { baseUrl: string; retryAfterMs?: number }
+): QualtricsApiError {
+  let errorCode: string | undefined;
+  let errorMessage: string | undefined;
+  let requestId: string | undefined;
+  try {
+    const parsed = JSON.parse(body);
+    errorCode = parsed?.meta?.error?.errorCode;
+    errorMessage = parsed?.meta?.error?.errorMessage;
+    requestId = parsed?.meta?.requestId;
+  } catch {
+    // Non-JSON body (e.g. an HTML error page) — fall back to the raw text
+  }
+
+  const message = `Qualtrics API error: ${status} ${statusText} - ${errorMessage ?? body}`;
+  const details = { status, errorCode, requestId };
+
+  if (status === 401 || status === 403) {
+    return new QualtricsAuthError(message, {
+      ...details,
+      hint: `Check that QUALTRICS_API_TOKEN is valid and that QUALTRICS_DATA_CENTER matches your account's datacenter (requests are going to ${context.baseUrl}).`,
+    });
+  }
+  if (status === 404) {
+    return new QualtricsNotFoundError(message, {
+      ...details,
+      hint: "Verify the ID is correct and belongs to this account (survey IDs start with SV_, questions with QID, blocks with BL_).",
+    });
+  }
+  if (status === 429) {
+    return new QualtricsRateLimitError(message, {
+      ...details,
+      retryAfterMs: context.retryAfterMs,
+      hint: "Qualtrics rate limit exceeded. Wait before retrying or lower RATE_LIMIT_RPM.",
+    });
+  }
+  if (status >= 500) {
+    return new QualtricsServerError(message, {
+      ...details,
+      hint: "Qualtrics returned a server error. Retry later; include the requestId if contacting Qualtrics support.",
+    });
+  }
+  if (status === 400 || status === 409 || status === 413 || status === 422) {
+    return new QualtricsValidationError(message, {
+      ...details,
+      hint: "The request was rejected as invalid. Check the parameters and payload structure against the current survey definition.",
+    });
+  }
+  return new QualtricsApiError(message, details);
+}
@@ -1,34 +1,160 @@
+export type RateLimitBucket = "default" | "responseExports" | "distributions" | "surveyDefinitions";
+
 export interface RateLimitConfig {
   enabled: boolean;
   requestsPerMinute: number;
+  maxConcurrent: number;
+  buckets: Partial<Record<Exclude<RateLimitBucket, "default">, number>>;
+}
+
+interface Waiter {
+  bucket: RateLimitBucket;
+  resolve: (release: () => void) => void;
+  logged: boolean;
+}
+
+/**
+ * Token bucket refilled continuously at `requestsPerMinute`, allowing bursts of
+ * up to one minute's worth of requests.
+ */
+class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private readonly capacity: number;
+  private readonly refillPerMs: number;
+
+  constructor(requestsPerMinute: number) {
+    this.capacity = Math.max(1, requestsPerMinute);
+    this.refillPerMs = this.capacity / 60000;
+    this.tokens = this.capacity;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = now;
+  }
+
+  tryTake(): boolean {
+    this.refill();
+    if (this.tokens < 1) return false;
+    this.tokens -= 1;
+    return true;
+  }
+
+  msUntilToken(): number {
+    this.refill();
+    return this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) / this.refillPerMs);
+  }
+}
+
+/** Maps a request URL to the Qualtrics endpoint family whose limit it counts against. */
+export function bucketForUrl(url: string): RateLimitBucket {
+  if (url.includes("/export-responses")) return "responseExports";
+  if (url.includes("/distributions")) return "distributions";
+  if (url.includes("/survey-definitions")) return "surveyDefinitions";
+  return "default";
 }
 
+/**
+ * A global token bucket that every request draws from, per-endpoint-family
+ * buckets that export, distribution and definition requests also draw from, and
+ * a cap on in-flight requests. Waiters are served in arrival order; a waiter
+ * blocked on an exhausted family bucket never holds up requests for other
+ * families, but always goes ahead of later waiters on its own.
+ */
 export class RateLimiter {
-  private requests: number[] = [];
-  private maxRequests: number;
-  private windowMs: number;
   private enabled: boolean;
+  private maxConcurrent: number;
+  private inFlight = 0;
+  /** Account-wide limit shared by all requests, including the default family */
+  private global: TokenBucket;
+  private buckets = new Map<Exclude<RateLimitBucket, "default">, TokenBucket>();
+  private queue: Waiter[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private timerDueAt = 0;
 
   constructor(config: RateLimitConfig) {
     this.enabled = config.enabled;
-    this.maxRequests = config.requestsPerMinute;
-    this.windowMs = 60000; // 1 minute
+    this.maxConcurrent = Math.max(1, config.maxConcurrent);
+    this.global = new TokenBucket(config.requestsPerMinute);
+    for (const name of ["responseExports", "distributions", "surveyDefinitions"] as const) {
+      this.buckets.set(name, new TokenBucket(config.buckets[name] ?? config.requestsPerMinute));
+    }
   }
 
-  async checkLimit(): Promise<void> {
-    if (!this.enabled) return;
+  /**
+   * Waits for a token and a concurrency slot for the given URL. The returned
+   * function must be called exactly once when the request has completed.
+   */
+  acquire(url: string): Promise<() => void> {
+    if (!this.enabled) return Promise.resolve(() => {});
 
-    const now = Date.now();
-    this.requests = this.requests.filter(time => now - time < this.windowMs);
-
-    if (this.requests.length >= this.maxRequests) {
-      const oldestRequest = Math.min(...this.requests);
-      const waitTime = this.windowMs - (now - oldestRequest) + 100; // Add small buffer
-      
-      console.log(`Rate limit reached. Waiting ${waitTime}ms...`);
-      await new Promise(resolve => setTimeout(resolve, waitTime));
+    return new Promise(resolve => {
+      this.queue.push({ bucket: bucketForUrl(url), resolve, logged: false });
+      this.drain();
+    });
+  }
+
+  private release(): void {
+    this.inFlight--;
+    this.drain();
+  }
+
+  private drain(): void {
+    const blocked = new Set<RateLimitBucket>();
+    let nextWakeMs = Infinity;
+
+    for (let i = 0; i < this.queue.length && this.inFlight < this.maxConcurrent; ) {
+      const waiter = this.queue[i];
+      const family = waiter.bucket === "default" ? undefined : this.buckets.get(waiter.bucket);
+
+      if (!blocked.has(waiter.bucket)) {
+        const globalWaitMs = this.global.msUntilToken();
+        const waitMs = Math.max(globalWaitMs, family?.msUntilToken() ?? 0);
+        if (waitMs === 0) {
+          this.global.tryTake();
+          family?.tryTake();
+          this.start(i, waiter);
+          continue;
+        }
+        nextWakeMs = Math.min(nextWakeMs, waitMs);
+        if (!waiter.logged) {
+          const limit = globalWaitMs > 0 ? "all" : waiter.bucket;
+          console.error(`Rate limit reached for ${limit} requests. Waiting ~${waitMs}ms...`);
+          waiter.logged = true;
+        }
+      }
+      blocked.add(waiter.bucket);
+      i++;
     }
 
-    this.requests.push(now);
+    // Requests waiting only on a concurrency slot are woken by release(); those
+    // waiting on tokens need a timer, moved earlier if a new waiter can go sooner.
+    if (nextWakeMs !== Infinity) this.wakeIn(Math.max(nextWakeMs, 10));
+  }
+
+  private start(index: number, waiter: Waiter): void {
+    this.queue.splice(index, 1);
+    this.inFlight++;
+    let released = false;
+    waiter.resolve(() => {
+      if (released) return;
+      released = true;
+      this.release();
+    });
   }
-}
\ No newline at end of file
+
+  private wakeIn(delayMs: number): void {
+    const dueAt = Date.now() + delayMs;
+    if (this.timer !== null) {
+      if (this.timerDueAt <= dueAt) return;
+      clearTimeout(this.timer);
+    }
+    this.timerDueAt = dueAt;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.drain();
+    }, delayMs);
+  }
+}
@@ -0,0 +1,144 @@
+import { createReadStream } from "fs";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import * as readline from "readline";
+import { QualtricsClient } from "./qualtrics-client.js";
+import { ExportJobManager } from "./export-job-manager.js";
+import type { SurveyResponse } from "../types/index.js";
+import { DelimitedRecordParser } from "../utils/export-stream.js";
+import { evaluateFilter, exportTagResolver, jsonResponseLookup, parseResponseFilter } from "../utils/response-filter.js";
+
+export interface LoadOptions {
+  surveyId: string;
+  /** Existing export (json, ndjson, csv or tsv); a fresh export is run when omitted */
+  filePath?: string;
+  /** Local row filter expression, see utils/response-filter.ts */
+  where?: string;
+  timeoutSeconds?: number;
+}
+
+export interface LoadedResponses {
+  responses: SurveyResponse[];
+  /** Rows before the `where` filter was applied */
+  totalRows: number;
+  source: string;
+}
+
+/**
+ * Reads a JSON, NDJSON, CSV or TSV export into responses shaped like the JSON
+ * export. NDJSON, CSV and TSV are streamed a record at a time; a JSON export is
+ * parsed whole, so prefer NDJSON for large panels.
+ */
+export async function readResponseFile(filePath: string): Promise<SurveyResponse[]> {
+  const extension = path.extname(filePath).toLowerCase();
+
+  if (extension === ".csv" || extension === ".tsv") {
+    const input = createReadStream(filePath);
+    const records = new DelimitedRecordParser(extension === ".tsv" ? "\t" : ",");
+    input.once("error", error => records.destroy(error));
+    return responsesFromDelimited(input.pipe(records));
+  }
+  if (extension === ".ndjson" || extension === ".jsonl") {
+    const responses: SurveyResponse[] = [];
+    const lines = readline.createInterface({ input: createReadStream(filePath), crlfDelay: Infinity });
+    for await (const line of lines) {
+      if (line.trim()) responses.push(JSON.parse(line));
+    }
+    return responses;
+  }
+  if (extension === ".json") {
+    const parsed = JSON.parse(await fs.readFile(filePath, "utf8"));
+    return Array.isArray(parsed) ? parsed : parsed.responses || [];
+  }
+  throw new Error(`Unsupported export file type '${extension}'. Use a json, ndjson, csv or tsv export.`);
+}
+
+/**
+ * Keys CSV/TSV columns by the ImportId in the third header row (QID3, QID4_1,
+ * finished, duration, ...) so rows line up with JSON export `values`.
+ */
+async function responsesFromDelimited(records: AsyncIterable<string[]>): Promise<SurveyResponse[]> {
+  const header: string[][] = [];
+  let keys: string[] | null = null;
+  const responses: SurveyResponse[] = [];
+
+  for await (const row of records) {
+    if (!keys) {
+      header.push(row);
+      if (header.length === 3) {
+        const [names, , importRow] = header;
+        keys = importRow.map((cell, index) => {
+          try {
+            return JSON.parse(cell).ImportId ?? names[index];
+          } catch {
+            return names[index];
+          }
+        });
+      }
+      continue;
+    }
+
+    const values: Record<string, any> = {};
+    keys.forEach((key, index) => {
+      if (row[index] !== undefined && row[index] !== "") values[key] = row[index];
+    });
+    responses.push({ responseId: values._recordId ?? values.ResponseId ?? "", values });
+  }
+  if (!keys) throw new Error("Export file is missing the three Qualtrics header rows");
+  return responses;
+}
+
+/**
+ * Loads a survey's responses for in-memory analysis, either from a saved export
+ * or by running a fresh NDJSON export into a temporary file.
+ */
+export class ResponseDatasetLoader {
+  private exportJobs: ExportJobManager;
+
+  constructor(private client: QualtricsClient, private tempDir: string) {
+    this.exportJobs = ExportJobManager.forClient(client);
+  }
+
+  async load(options: LoadOptions): Promise<LoadedResponses> {
+    // Parse first so a bad expression fails before a long export
+    const filter = options.where ? parseResponseFilter(options.where) : null;
+
+    let responses: SurveyResponse[];
+    let source: string;
+    if (options.filePath) {
+      // Relative names refer to the Downloads folder, where exports are saved by default
+      source = path.isAbsolute(options.filePath)
+        ? options.filePath
+        : path.join(os.homedir(), "Downloads", options.filePath);
+      responses = await readResponseFile(source);
+    } else {
+      responses = await this.exportFresh(options.surveyId, (options.timeoutSeconds ?? 600) * 1000);
+      source = "export";
+    }
+
+    const totalRows = responses.length;
+    if (filter) {
+      // Responses are keyed by QID, so export tags in the filter are resolved against the definition
+      const resolveTag = exportTagResolver((await this.client.getSurveyDefinition(options.surveyId)).result);
+      responses = responses.filter(response => evaluateFilter(filter, jsonResponseLookup(response, resolveTag)));
+    }
+    return { responses, totalRows, source };
+  }
+
+  private async exportFresh(surveyId: string, timeoutMs: number): Promise<SurveyResponse[]> {
+    const job = await this.exportJobs.start(surveyId, "ndjson");
+    const finished = await this.exportJobs.waitForCompletion(job.progressId, { timeoutMs });
+    if (finished.status !== "complete") {
+      throw new Error(`Export ${job.progressId} did not finish within ${Math.round(timeoutMs / 1000)}s. Retry with a longer timeoutSeconds, or pass filePath once check_export_status has downloaded it.`);
+    }
+
+    const tempFile = path.join(this.tempDir, `analysis_${surveyId}_${Date.now()}.ndjson`);
+    try {
+      await this.exportJobs.download(job.progressId, { saveToFile: tempFile });
+      return await readResponseFile(tempFile);
+    } finally {
+      await fs.rm(tempFile, { force: true });
+    }
+  }
+}
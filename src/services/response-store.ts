@@ -0,0 +1,236 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as readline from "readline";
+
+type SqliteRow = Record<string, unknown>;
+
+interface SqliteStatement {
+  run(...params: unknown[]): unknown;
+  get<Row = SqliteRow>(...params: unknown[]): Row | undefined;
+  all<Row = SqliteRow>(...params: unknown[]): Row[];
+}
+
+interface SqliteDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): SqliteStatement;
+  close(): void;
+}
+
+interface SqliteModule {
+  DatabaseSync: new (filePath: string, options: { readOnly: boolean }) => SqliteDatabase;
+}
+
+interface SyncStateRow {
+  key: string;
+  value: string;
+}
+
+interface CountRow {
+  count: number;
+}
+
+export interface SyncState {
+  lastSyncAt: string | null;
+  /** Latest recordedDate seen, used as startDate when no continuation token is available */
+  watermark: string | null;
+  continuationToken: string | null;
+  responseCount: number;
+}
+
+export interface UpsertResult {
+  inserted: number;
+  updated: number;
+  watermark: string | null;
+}
+
+export interface QueryResult {
+  columns: string[];
+  rows: Record<string, unknown>[];
+  truncated: boolean;
+}
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS responses (
+  response_id TEXT PRIMARY KEY,
+  recorded_date TEXT,
+  start_date TEXT,
+  end_date TEXT,
+  finished INTEGER,
+  progress INTEGER,
+  duration INTEGER,
+  values_json TEXT NOT NULL,
+  labels_json TEXT,
+  displayed_fields_json TEXT,
+  synced_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS responses_recorded_date ON responses (recorded_date);
+CREATE TABLE IF NOT EXISTS sync_state (
+  key TEXT PRIMARY KEY,
+  value TEXT
+);
+`;
+
+/**
+ * Opens a database with the built-in node:sqlite module. It is loaded lazily so
+ * the rest of the server keeps working on Node versions without it.
+ */
+async function openDatabase(filePath: string, readOnly = false): Promise<SqliteDatabase> {
+  let sqlite: SqliteModule;
+  try {
+    sqlite = await import("node:sqlite" as string) as SqliteModule;
+  } catch {
+    throw new Error("Local response storage requires Node.js 22.5 or later (built-in node:sqlite module); on Node.js 22.5 to 22.12 also start the server with --experimental-sqlite.");
+  }
+  return new sqlite.DatabaseSync(filePath, { readOnly });
+}
+
+/**
+ * Per-survey SQLite store of exported responses under `<dataDir>/responses`.
+ * Rows are keyed by responseId; the full `values`/`labels` objects are kept as
+ * JSON so any column can be read with json_extract().
+ */
+export class ResponseStore {
+  constructor(private dataDir: string) {}
+
+  dbPath(surveyId: string): string {
+    return path.join(this.dataDir, "responses", `${surveyId.replace(/[^A-Za-z0-9_-]/g, "_")}.sqlite`);
+  }
+
+  tempDir(): string {
+    return path.join(this.dataDir, "tmp");
+  }
+
+  exists(surveyId: string): boolean {
+    return fs.existsSync(this.dbPath(surveyId));
+  }
+
+  async getSyncState(surveyId: string): Promise<SyncState | null> {
+    if (!this.exists(surveyId)) return null;
+    const db = await openDatabase(this.dbPath(surveyId), true);
+    try {
+      const state: Record<string, string> = {};
+      for (const row of db.prepare("SELECT key, value FROM sync_state").all<SyncStateRow>()) {
+        state[row.key] = row.value;
+      }
+      const count = db.prepare("SELECT COUNT(*) AS count FROM responses").get<CountRow>()?.count ?? 0;
+      return {
+        lastSyncAt: state.lastSyncAt ?? null,
+        watermark: state.watermark ?? null,
+        continuationToken: state.continuationToken ?? null,
+        responseCount: Number(count),
+      };
+    } finally {
+      db.close();
+    }
+  }
+
+  /** Upserts every response in an NDJSON export file inside a single transaction. */
+  async upsertFromNdjson(surveyId: string, ndjsonPath: string): Promise<UpsertResult> {
+    await fs.promises.mkdir(path.dirname(this.dbPath(surveyId)), { recursive: true });
+    const db = await openDatabase(this.dbPath(surveyId));
+    const syncedAt = new Date().toISOString();
+    let inserted = 0;
+    let updated = 0;
+    let watermark: string | null = null;
+
+    try {
+      db.exec(SCHEMA);
+      const existing = db.prepare("SELECT 1 AS found FROM responses WHERE response_id = ?");
+      const upsert = db.prepare(`
+        INSERT INTO responses (response_id, recorded_date, start_date, end_date, finished, progress, duration,
+                               values_json, labels_json, displayed_fields_json, synced_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (response_id) DO UPDATE SET
+          recorded_date = excluded.recorded_date,
+          start_date = excluded.start_date,
+          end_date = excluded.end_date,
+          finished = excluded.finished,
+          progress = excluded.progress,
+          duration = excluded.duration,
+          values_json = excluded.values_json,
+          labels_json = excluded.labels_json,
+          displayed_fields_json = excluded.displayed_fields_json,
+          synced_at = excluded.synced_at
+      `);
+
+      db.exec("BEGIN");
+      const lines = readline.createInterface({ input: fs.createReadStream(ndjsonPath), crlfDelay: Infinity });
+      for await (const line of lines) {
+        if (!line.trim()) continue;
+        const response = JSON.parse(line);
+        const values = response.values || {};
+
+        if (existing.get(response.responseId)) updated++;
+        else inserted++;
+
+        upsert.run(
+          response.responseId,
+          values.recordedDate ?? null,
+          values.startDate ?? null,
+          values.endDate ?? null,
+          values.finished === undefined ? null : Number(values.finished),
+          values.progress ?? null,
+          values.duration ?? null,
+          JSON.stringify(values),
+          response.labels ? JSON.stringify(response.labels) : null,
+          response.displayedFields ? JSON.stringify(response.displayedFields) : null,
+          syncedAt
+        );
+
+        if (values.recordedDate && (!watermark || values.recordedDate > watermark)) {
+          watermark = values.recordedDate;
+        }
+      }
+      db.exec("COMMIT");
+    } catch (error) {
+      try { db.exec("ROLLBACK"); } catch { /* no open transaction */ }
+      throw error;
+    } finally {
+      db.close();
+    }
+
+    return { inserted, updated, watermark };
+  }
+
+  /** Writes sync metadata; `null` clears a key, `undefined` leaves it unchanged. */
+  async saveSyncState(surveyId: string, state: Partial<Omit<SyncState, "responseCount">>): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.dbPath(surveyId)), { recursive: true });
+    const db = await openDatabase(this.dbPath(surveyId));
+    try {
+      db.exec(SCHEMA);
+      const set = db.prepare("INSERT INTO sync_state (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value");
+      const clear = db.prepare("DELETE FROM sync_state WHERE key = ?");
+      for (const [key, value] of Object.entries(state)) {
+        if (value === null) clear.run(key);
+        else if (value !== undefined) set.run(key, value);
+      }
+    } finally {
+      db.close();
+    }
+  }
+
+  /**
+   * Runs a single SQL statement against a read-only connection, so queries can
+   * never modify the synced data. The statement is wrapped in a LIMIT of one
+   * more than maxRows, so a large result is never read into memory.
+   */
+  async query(surveyId: string, sql: string, params: unknown[] = [], maxRows = 100): Promise<QueryResult> {
+    if (!this.exists(surveyId)) {
+      throw new Error(`No local data for survey ${surveyId}. Run sync_responses first.`);
+    }
+    const db = await openDatabase(this.dbPath(surveyId), true);
+    try {
+      const statement = sql.trim().replace(/;+\s*$/, "");
+      const rows = db.prepare(`SELECT * FROM (\n${statement}\n) LIMIT ${maxRows + 1}`).all(...params);
+      const truncated = rows.length > maxRows;
+      const limited = truncated ? rows.slice(0, maxRows) : rows;
+      return {
+        columns: limited.length > 0 ? Object.keys(limited[0]) : [],
+        rows: limited.map(row => ({ ...row })),
+        truncated,
+      };
+    } finally {
+      db.close();
+    }
+  }
+}
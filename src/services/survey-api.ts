@@ -30,6 +30,13 @@ export class SurveyApi {
     });
   }
 
+  async updateOptions(surveyId: string, options: Record<string, any>): Promise<any> {
+    return this.client.makeRequest(`/survey-definitions/${surveyId}/options`, {
+      method: "PUT",
+      body: JSON.stringify(options),
+    });
+  }
+
   async listQuestions(surveyId: string): Promise<any> {
     return this.client.makeRequest(`/survey-definitions/${surveyId}/questions`);
   }
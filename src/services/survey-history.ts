@@ -0,0 +1,295 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { QualtricsClient } from "./qualtrics-client.js";
+import { SurveyApi } from "./survey-api.js";
+import { FlowApi } from "./flow-api.js";
+import type { SurveyBlock, SurveyDefinition } from "../types/index.js";
+import {
+  blockFlowElement,
+  findFlowElement,
+  insertFlowElement,
+  isFlowContainer,
+  parseFlow,
+  serializeFlow,
+} from "../utils/flow-tree.js";
+
+export type SnapshotKind = "question" | "block" | "flow";
+
+export interface Snapshot {
+  id: string;
+  surveyId: string;
+  kind: SnapshotKind;
+  /** QID, block ID, or "flow" */
+  objectId: string;
+  /** Tool whose change the snapshot precedes */
+  tool: string;
+  createdAt: string;
+  /** When the survey was last rolled back to this snapshot */
+  restoredAt?: string;
+  /** Set on snapshots taken by a restore; undo_last_change skips these so repeated undos keep going back */
+  restoreOf?: string;
+  question?: Record<string, any>;
+  /** Where the question sat, so a deleted question can be put back in place */
+  placement?: { blockId: string; index: number } | null;
+  block?: SurveyBlock;
+  /** Full payloads of the block's questions, so a deleted block can be rebuilt */
+  questions?: Record<string, Record<string, any>>;
+  /** Where the block sat in the flow: the parent element's FlowID and the position in it */
+  flowLocation?: { parentFlowId: string; index: number } | null;
+  flow?: any;
+}
+
+export type SnapshotSummary = Pick<Snapshot, "id" | "kind" | "objectId" | "tool" | "createdAt" | "restoredAt" | "restoreOf">;
+
+export interface RestoreResult {
+  snapshot: SnapshotSummary;
+  /** Snapshot of the state the restore replaced, so the restore itself can be rolled back */
+  replacedSnapshotId: string | null;
+  /** New IDs when a deleted question or block had to be recreated */
+  recreated: Record<string, string>;
+  notes: string[];
+}
+
+/** Oldest snapshots beyond this count are pruned per survey. */
+const MAX_SNAPSHOTS_PER_SURVEY = 200;
+
+function summarize(snapshot: Snapshot): SnapshotSummary {
+  const { id, kind, objectId, tool, createdAt, restoredAt, restoreOf } = snapshot;
+  return { id, kind, objectId, tool, createdAt, ...(restoredAt ? { restoredAt } : {}), ...(restoreOf ? { restoreOf } : {}) };
+}
+
+function findBlockInFlow(elements: any[] | undefined, blockId: string, parentFlowId: string): { parentFlowId: string; index: number } | null {
+  for (const [index, element] of (elements || []).entries()) {
+    if ((element.Type === "Block" || element.Type === "Standard") && element.ID === blockId) return { parentFlowId, index };
+    const nested = findBlockInFlow(element.Flow, blockId, element.FlowID);
+    if (nested) return nested;
+  }
+  return null;
+}
+
+// Shared by every SurveyHistory so snapshots taken by different tool modules in
+// the same millisecond still get distinct, ordered IDs
+let lastStamp = "";
+let sequence = 0;
+
+/**
+ * Local history of survey objects under `<dataDir>/history/<surveyId>`, one JSON
+ * file per snapshot. Mutating tools snapshot the question, block or flow they
+ * are about to change, and restore puts a snapshot back.
+ */
+export class SurveyHistory {
+  private surveyApi: SurveyApi;
+  private flowApi: FlowApi;
+
+  constructor(private client: QualtricsClient, private dataDir: string) {
+    this.surveyApi = new SurveyApi(client);
+    this.flowApi = new FlowApi(client);
+  }
+
+  private surveyDir(surveyId: string): string {
+    return path.join(this.dataDir, "history", surveyId.replace(/[^A-Za-z0-9_-]/g, "_"));
+  }
+
+  /** Sortable, unique snapshot ID: timestamp and sequence number, then kind and object. */
+  private nextId(kind: SnapshotKind, objectId: string): string {
+    const stamp = new Date().toISOString().replace(/[-:.]/g, "");
+    sequence = stamp === lastStamp ? sequence + 1 : 0;
+    lastStamp = stamp;
+    return `${stamp}${String(sequence).padStart(2, "0")}-${kind}-${objectId.replace(/[^A-Za-z0-9_-]/g, "_")}`;
+  }
+
+  private async save(snapshot: Omit<Snapshot, "id" | "createdAt">): Promise<Snapshot> {
+    const saved: Snapshot = { id: this.nextId(snapshot.kind, snapshot.objectId), createdAt: new Date().toISOString(), ...snapshot };
+    const dir = this.surveyDir(snapshot.surveyId);
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(path.join(dir, `${saved.id}.json`), JSON.stringify(saved, null, 2), "utf8");
+
+    const files = (await fs.readdir(dir)).filter(name => name.endsWith(".json")).sort();
+    for (const name of files.slice(0, Math.max(0, files.length - MAX_SNAPSHOTS_PER_SURVEY))) {
+      await fs.rm(path.join(dir, name), { force: true });
+    }
+    return saved;
+  }
+
+  private async definition(surveyId: string, definition?: SurveyDefinition): Promise<SurveyDefinition> {
+    return definition ?? (await this.client.getSurveyDefinition(surveyId)).result;
+  }
+
+  /** Saves a question before it is changed; `definition` avoids refetching when the caller has it. */
+  async snapshotQuestion(surveyId: string, questionId: string, tool: string, definition?: SurveyDefinition, restoreOf?: string): Promise<Snapshot> {
+    const current = await this.definition(surveyId, definition);
+    const question = current.Questions?.[questionId];
+    if (!question) throw new Error(`Question ${questionId} not found in survey ${surveyId}`);
+    let placement: Snapshot["placement"] = null;
+    for (const [blockId, block] of Object.entries(current.Blocks || {})) {
+      const index = (block.BlockElements || []).findIndex(element => element.QuestionID === questionId);
+      if (index !== -1 && block.Type !== "Trash") placement = { blockId, index };
+    }
+    return this.save({ surveyId, kind: "question", objectId: questionId, tool, question, placement, ...(restoreOf ? { restoreOf } : {}) });
+  }
+
+  async snapshotBlock(surveyId: string, blockId: string, tool: string, definition?: SurveyDefinition, restoreOf?: string): Promise<Snapshot> {
+    const current = await this.definition(surveyId, definition);
+    const block = current.Blocks?.[blockId];
+    if (!block) throw new Error(`Block ${blockId} not found in survey ${surveyId}`);
+    const questions: Record<string, Record<string, any>> = {};
+    for (const element of block.BlockElements || []) {
+      if (element.QuestionID && current.Questions?.[element.QuestionID]) questions[element.QuestionID] = current.Questions[element.QuestionID];
+    }
+    return this.save({
+      surveyId,
+      kind: "block",
+      objectId: blockId,
+      tool,
+      block: { ...block, ID: block.ID || blockId },
+      questions,
+      flowLocation: findBlockInFlow(current.SurveyFlow?.Flow, blockId, current.SurveyFlow?.FlowID || "FL_1"),
+      ...(restoreOf ? { restoreOf } : {}),
+    });
+  }
+
+  /** Saves the survey flow; pass `flow` when it was just fetched (before modifying it). */
+  async snapshotFlow(surveyId: string, tool: string, flow?: any, restoreOf?: string): Promise<Snapshot> {
+    const current = flow ?? (await this.flowApi.getFlow(surveyId)).result;
+    return this.save({ surveyId, kind: "flow", objectId: "flow", tool, flow: current, ...(restoreOf ? { restoreOf } : {}) });
+  }
+
+  async list(surveyId: string, limit?: number): Promise<SnapshotSummary[]> {
+    let files: string[];
+    try {
+      files = (await fs.readdir(this.surveyDir(surveyId))).filter(name => name.endsWith(".json")).sort().reverse();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+    const snapshots: SnapshotSummary[] = [];
+    for (const name of files.slice(0, limit ?? files.length)) {
+      snapshots.push(summarize(await this.read(surveyId, name.slice(0, -".json".length))));
+    }
+    return snapshots;
+  }
+
+  private async read(surveyId: string, snapshotId: string): Promise<Snapshot> {
+    const filePath = path.join(this.surveyDir(surveyId), `${path.basename(snapshotId)}.json`);
+    try {
+      return JSON.parse(await fs.readFile(filePath, "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new Error(`Snapshot ${snapshotId} not found for survey ${surveyId}; use list_snapshots to see available snapshots`);
+      }
+      throw error;
+    }
+  }
+
+  /** The most recent change not yet undone, ignoring snapshots taken by restores. */
+  async latestUndoable(surveyId: string): Promise<SnapshotSummary | null> {
+    return (await this.list(surveyId)).find(snapshot => !snapshot.restoredAt && !snapshot.restoreOf) ?? null;
+  }
+
+  async restore(surveyId: string, snapshotId: string): Promise<RestoreResult> {
+    const snapshot = await this.read(surveyId, snapshotId);
+    const result: RestoreResult = { snapshot: summarize(snapshot), replacedSnapshotId: null, recreated: {}, notes: [] };
+
+    if (snapshot.kind === "flow") {
+      result.replacedSnapshotId = (await this.snapshotFlow(surveyId, "restore_snapshot", undefined, snapshot.id)).id;
+      await this.flowApi.updateFlow(surveyId, snapshot.flow);
+    } else if (snapshot.kind === "question") {
+      await this.restoreQuestion(snapshot, result);
+    } else {
+      await this.restoreBlock(snapshot, result);
+    }
+
+    snapshot.restoredAt = new Date().toISOString();
+    await fs.writeFile(path.join(this.surveyDir(surveyId), `${snapshot.id}.json`), JSON.stringify(snapshot, null, 2), "utf8");
+    result.snapshot = summarize(snapshot);
+    return result;
+  }
+
+  private async restoreQuestion(snapshot: Snapshot, result: RestoreResult) {
+    const { surveyId, objectId: questionId } = snapshot;
+    const current = await this.definition(surveyId);
+    const { QuestionID, ...payload } = snapshot.question!;
+
+    if (current.Questions?.[questionId]) {
+      result.replacedSnapshotId = (await this.snapshotQuestion(surveyId, questionId, "restore_snapshot", current, snapshot.id)).id;
+      await this.surveyApi.updateQuestion(surveyId, questionId, { ...payload, QuestionID: questionId });
+      return;
+    }
+
+    // Deleted: recreate it where it was
+    const placement = snapshot.placement;
+    const block = placement ? current.Blocks?.[placement.blockId] : undefined;
+    if (!placement || !block) {
+      throw new Error(`Question ${questionId} was deleted and its block ${placement?.blockId ?? "(unknown)"} no longer exists; restore the block first`);
+    }
+    const created = await this.surveyApi.createQuestion(surveyId, placement.blockId, payload);
+    const newId: string = created.result.QuestionID;
+    result.recreated[questionId] = newId;
+
+    const elements = [...(block.BlockElements || [])];
+    elements.splice(Math.min(placement.index, elements.length), 0, { Type: "Question", QuestionID: newId });
+    await this.surveyApi.updateBlock(surveyId, placement.blockId, {
+      Type: block.Type,
+      Description: block.Description,
+      BlockElements: elements,
+      ...(block.Options ? { Options: block.Options } : {}),
+    });
+    result.notes.push(`Question ${questionId} was recreated as ${newId}; display logic, skip logic or piped text elsewhere that referenced ${questionId} must be updated.`);
+  }
+
+  private async restoreBlock(snapshot: Snapshot, result: RestoreResult) {
+    const { surveyId, objectId: blockId } = snapshot;
+    const block = snapshot.block!;
+    const current = await this.definition(surveyId);
+    const blockData = (elements: SurveyBlock["BlockElements"]) => ({
+      Type: block.Type,
+      Description: block.Description,
+      BlockElements: elements,
+      ...(block.Options ? { Options: block.Options } : {}),
+    });
+
+    if (current.Blocks?.[blockId]) {
+      result.replacedSnapshotId = (await this.snapshotBlock(surveyId, blockId, "restore_snapshot", current, snapshot.id)).id;
+      const elements = (block.BlockElements || []).filter(element => element.Type !== "Question" || current.Questions?.[element.QuestionID || ""]);
+      const missing = (block.BlockElements || []).length - elements.length;
+      if (missing > 0) result.notes.push(`${missing} question(s) in the snapshot no longer exist and were left out; restore their question snapshots to bring them back.`);
+      await this.surveyApi.updateBlock(surveyId, blockId, blockData(elements));
+      return;
+    }
+
+    // Deleted: rebuild the block, reusing questions that still exist (e.g. in the trash) and recreating the rest
+    const created = await this.surveyApi.createBlock(surveyId, { Description: block.Description, Type: "Standard" });
+    const newBlockId: string = created.result.BlockID;
+    result.recreated[blockId] = newBlockId;
+    const elements: NonNullable<SurveyBlock["BlockElements"]> = [];
+    for (const element of block.BlockElements || []) {
+      const questionId = element.QuestionID;
+      if (element.Type !== "Question" || !questionId) {
+        elements.push(element);
+      } else if (current.Questions?.[questionId]) {
+        elements.push(element);
+      } else if (snapshot.questions?.[questionId]) {
+        const { QuestionID, ...payload } = snapshot.questions[questionId];
+        const question = await this.surveyApi.createQuestion(surveyId, newBlockId, payload);
+        result.recreated[questionId] = question.result.QuestionID;
+        elements.push({ Type: "Question", QuestionID: question.result.QuestionID });
+      }
+    }
+    await this.surveyApi.updateBlock(surveyId, newBlockId, { ...blockData(elements), Type: "Standard" });
+
+    // Put the block back in the flow where it was, or at the end if that spot is gone
+    const location = snapshot.flowLocation;
+    const flow = parseFlow((await this.flowApi.getFlow(surveyId)).result);
+    if (location && !findBlockInFlow(flow.Flow, newBlockId, flow.FlowID)) {
+      const found = findFlowElement(flow, location.parentFlowId)?.element;
+      const parent = location.parentFlowId === flow.FlowID ? flow : found && isFlowContainer(found) ? found : null;
+      const position = parent ? { parent: location.parentFlowId, index: Math.min(location.index, parent.Flow.length) } : {};
+      insertFlowElement(flow, blockFlowElement(newBlockId), position);
+      await this.flowApi.updateFlow(surveyId, serializeFlow(flow));
+    }
+    result.notes.push(`Block ${blockId} was recreated as ${newBlockId}.`);
+    if (Object.keys(result.recreated).length > 1) {
+      result.notes.push("Deleted questions were recreated with new IDs; display logic, skip logic or piped text that referenced the old IDs must be updated.");
+    }
+  }
+}
@@ -0,0 +1,192 @@
+import { QualtricsClient } from "./qualtrics-client.js";
+import { SurveyApi } from "./survey-api.js";
+import { FlowApi } from "./flow-api.js";
+import { PortableSurvey, remapIds, renumberFlowIds } from "../utils/qsf.js";
+
+export interface ImportResult {
+  surveyId: string;
+  name: string;
+  /** Old ID -> new ID */
+  questionIds: Record<string, string>;
+  blockIds: Record<string, string>;
+  flowIds: Record<string, string>;
+  /** Questions in the trash or not placed in any block */
+  skippedQuestions: string[];
+  /** Steps that failed after the survey was created; the survey is kept so nothing is lost */
+  warnings: string[];
+}
+
+/**
+ * Question settings that may reference questions created later; restored once
+ * every question exists. Per-choice DisplayLogic is held back the same way.
+ */
+const DEFERRED_QUESTION_KEYS = ["DisplayLogic", "SkipLogic", "InPageDisplayLogic", "DynamicChoices", "DynamicAnswers"];
+
+function hasChoiceLogic(question: Record<string, any>): boolean {
+  return Object.values<any>(question.Choices || {}).some(choice => choice?.DisplayLogic !== undefined);
+}
+
+/** The question without its deferred settings, including the display logic of each choice. */
+function firstPassPayload(question: Record<string, any>): Record<string, any> {
+  const payload = { ...question };
+  for (const key of DEFERRED_QUESTION_KEYS) delete payload[key];
+  if (hasChoiceLogic(question)) {
+    payload.Choices = Object.fromEntries(Object.entries<any>(question.Choices).map(([choiceId, choice]) => {
+      if (!choice || typeof choice !== "object") return [choiceId, choice];
+      const { DisplayLogic, ...rest } = choice;
+      return [choiceId, rest];
+    }));
+  }
+  return payload;
+}
+
+function failure(step: string, error: unknown): string {
+  return `${step}: ${error instanceof Error ? error.message : String(error)}`;
+}
+
+function pick(idMap: Map<string, string>, prefix: string): Record<string, string> {
+  return Object.fromEntries([...idMap].filter(([oldId]) => oldId.startsWith(prefix)));
+}
+
+/** Drops Block elements whose block could not be created, which Qualtrics would reject. */
+function pruneFlow(elements: any[] | undefined, blockIds: Set<string>): any[] | undefined {
+  if (!elements) return elements;
+  return elements
+    .filter(element => !((element.Type === "Block" || element.Type === "Standard") && !blockIds.has(element.ID)))
+    .map(element => (element.Flow ? { ...element, Flow: pruneFlow(element.Flow, blockIds) } : element));
+}
+
+/**
+ * Recreates a survey from a portable definition: creates the survey, blocks and
+ * questions, then rewrites every question, block, flow and option payload so
+ * QIDs, block IDs, FlowIDs and piped text point at the new survey's IDs.
+ */
+export class SurveyImporter {
+  private surveyApi: SurveyApi;
+  private flowApi: FlowApi;
+
+  constructor(private client: QualtricsClient) {
+    this.surveyApi = new SurveyApi(client);
+    this.flowApi = new FlowApi(client);
+  }
+
+  async import(survey: PortableSurvey, name?: string): Promise<ImportResult> {
+    const surveyName = name || survey.name;
+    const created = await this.client.createSurvey({
+      SurveyName: surveyName,
+      Language: survey.language,
+      ProjectCategory: "CORE",
+    });
+    const surveyId: string = created.result.SurveyID;
+    const idMap = new Map<string, string>();
+    const warnings: string[] = [];
+
+    // Blocks: the source's default block reuses the one every new survey starts with
+    const target = await this.client.getSurveyDefinition(surveyId);
+    let defaultBlockId = Object.entries<any>(target.result.Blocks || {}).find(([, block]) => block.Type === "Default")?.[0];
+    const blocks = survey.blocks.filter(block => block.Type !== "Trash");
+    for (const block of blocks) {
+      if (block.Type === "Default" && defaultBlockId) {
+        idMap.set(block.ID, defaultBlockId);
+        defaultBlockId = undefined;
+        continue;
+      }
+      try {
+        const result = await this.surveyApi.createBlock(surveyId, { Description: block.Description, Type: "Standard" });
+        idMap.set(block.ID, result.result.BlockID);
+      } catch (error) {
+        warnings.push(failure(`Block ${block.ID} (${block.Description})`, error));
+      }
+    }
+
+    const flowCount = survey.flow ? renumberFlowIds(survey.flow, idMap) : 0;
+
+    // Questions, first without logic that may point at questions not created yet
+    const placed = new Set<string>();
+    for (const block of blocks) {
+      const blockId = idMap.get(block.ID);
+      for (const element of block.BlockElements || []) {
+        const questionId = element.QuestionID;
+        if (element.Type !== "Question" || !questionId || placed.has(questionId)) continue;
+        placed.add(questionId);
+        if (!blockId) continue;
+        const question = survey.questions[questionId];
+        if (!question) {
+          warnings.push(`Question ${questionId} is listed in block ${block.ID} but missing from the file`);
+          continue;
+        }
+
+        const { QuestionID, ...content } = question as Record<string, any>;
+        const payload = firstPassPayload(content);
+        try {
+          const result = await this.surveyApi.createQuestion(surveyId, blockId, payload);
+          idMap.set(questionId, result.result.QuestionID);
+        } catch (error) {
+          warnings.push(failure(`Question ${questionId}`, error));
+        }
+      }
+    }
+    const skippedQuestions = Object.keys(survey.questions).filter(questionId => !placed.has(questionId));
+
+    // Second pass: restore logic and rewrite references now that every new ID is known
+    for (const [oldId, question] of Object.entries(survey.questions)) {
+      const newId = idMap.get(oldId);
+      if (!newId) continue;
+      const { QuestionID, ...content } = question as Record<string, any>;
+      const remapped = remapIds(content, idMap);
+      const hasDeferred = DEFERRED_QUESTION_KEYS.some(key => content[key] !== undefined) || hasChoiceLogic(content);
+      if (!hasDeferred && JSON.stringify(remapped) === JSON.stringify(content)) continue;
+      try {
+        await this.surveyApi.updateQuestion(surveyId, newId, { ...remapped, QuestionID: newId });
+      } catch (error) {
+        warnings.push(failure(`Logic and references of ${oldId} (now ${newId})`, error));
+      }
+    }
+
+    // Block contents: page breaks, question order and block options
+    for (const block of blocks) {
+      const blockId = idMap.get(block.ID);
+      if (!blockId) continue;
+      const elements = (block.BlockElements || []).filter(element => element.Type !== "Question" || idMap.has(element.QuestionID || ""));
+      try {
+        await this.surveyApi.updateBlock(surveyId, blockId, remapIds({
+          Type: block.Type === "Default" && target.result.Blocks?.[blockId] ? "Default" : "Standard",
+          Description: block.Description,
+          BlockElements: elements,
+          ...(block.Options ? { Options: block.Options } : {}),
+        }, idMap));
+      } catch (error) {
+        warnings.push(failure(`Block contents of ${block.ID} (now ${blockId})`, error));
+      }
+    }
+
+    if (survey.flow) {
+      const flow = remapIds(survey.flow, idMap);
+      flow.Flow = pruneFlow(flow.Flow, new Set(blocks.map(block => idMap.get(block.ID)).filter((id): id is string => !!id)));
+      flow.Properties = { ...flow.Properties, Count: flowCount };
+      try {
+        await this.flowApi.updateFlow(surveyId, flow);
+      } catch (error) {
+        warnings.push(failure("Survey flow", error));
+      }
+    }
+
+    if (survey.options) {
+      try {
+        await this.surveyApi.updateOptions(surveyId, remapIds(survey.options, idMap));
+      } catch (error) {
+        warnings.push(failure("Survey options", error));
+      }
+    }
+
+    return {
+      surveyId,
+      name: surveyName,
+      questionIds: pick(idMap, "QID"),
+      blockIds: pick(idMap, "BL_"),
+      flowIds: pick(idMap, "FL_"),
+      skippedQuestions,
+      warnings,
+    };
+  }
+}
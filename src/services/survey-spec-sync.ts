@@ -0,0 +1,298 @@
+import { QualtricsClient } from "./qualtrics-client.js";
+import { SurveyApi } from "./survey-api.js";
+import { FlowApi } from "./flow-api.js";
+import { SurveyHistory } from "./survey-history.js";
+import type { SurveyBlock, SurveyDefinition } from "../types/index.js";
+import {
+  SurveySpec,
+  blockDescription,
+  flowsEqual,
+  questionChanges,
+  questionPayload,
+  specFlow,
+  specWarnings,
+  updatedQuestion,
+} from "../utils/survey-spec.js";
+
+export interface SpecAction {
+  action: "create" | "update" | "delete";
+  target: "survey" | "block" | "question" | "flow";
+  /** Spec ID for blocks and questions the spec defines, otherwise the live ID */
+  id: string;
+  liveId?: string;
+  /** What an update changes (e.g. "text", "choices", "questions") */
+  changes?: string[];
+}
+
+export interface SpecPlan {
+  surveyId: string;
+  actions: SpecAction[];
+  /** Live questions the spec does not define; they stay in place unless allowDeletes is set */
+  unmanagedQuestions: Array<{ questionId: string; exportTag: string; blockId: string }>;
+  warnings: string[];
+}
+
+export interface SpecApplyResult extends SpecPlan {
+  applied: SpecAction[];
+  /** The action that failed; applying the spec again resumes from where it stopped */
+  failed: { action: SpecAction; error: string } | null;
+  /** Spec ID -> live ID */
+  blockIds: Record<string, string>;
+  questionIds: Record<string, string>;
+}
+
+export interface SpecSyncOptions {
+  /** Delete questions and blocks the spec does not define (default: keep them) */
+  allowDeletes?: boolean;
+}
+
+interface Step {
+  action: SpecAction;
+  run: () => Promise<void>;
+}
+
+interface SpecDiff {
+  plan: SpecPlan;
+  steps: Step[];
+  blockIds: Map<string, string>;
+  questionIds: Map<string, string>;
+}
+
+type BlockElement = NonNullable<SurveyBlock["BlockElements"]>[number];
+
+function elementKeys(elements: BlockElement[] | undefined): string {
+  return (elements || []).map(element => (element.Type === "Question" ? `Q:${element.QuestionID}` : element.Type)).join(",");
+}
+
+/**
+ * Compares a survey spec with a live survey and converges the survey to it.
+ * Both plan and apply start from a fresh read of the survey definition, so
+ * applying a spec the survey already matches does nothing. With a history,
+ * every question, block and flow is snapshotted before it is changed.
+ */
+export class SurveySpecSync {
+  private surveyApi: SurveyApi;
+  private flowApi: FlowApi;
+
+  constructor(private client: QualtricsClient, private history?: SurveyHistory) {
+    this.surveyApi = new SurveyApi(client);
+    this.flowApi = new FlowApi(client);
+  }
+
+  async plan(surveyId: string, spec: SurveySpec, options: SpecSyncOptions = {}): Promise<SpecPlan> {
+    return (await this.diff(surveyId, spec, options)).plan;
+  }
+
+  async apply(surveyId: string, spec: SurveySpec, options: SpecSyncOptions = {}): Promise<SpecApplyResult> {
+    const { plan, steps, blockIds, questionIds } = await this.diff(surveyId, spec, options);
+    const applied: SpecAction[] = [];
+    let failed: SpecApplyResult["failed"] = null;
+    for (const step of steps) {
+      try {
+        await step.run();
+        applied.push(step.action);
+      } catch (error) {
+        failed = { action: step.action, error: error instanceof Error ? error.message : String(error) };
+        break;
+      }
+    }
+    return {
+      ...plan,
+      applied,
+      failed,
+      blockIds: Object.fromEntries(blockIds),
+      questionIds: Object.fromEntries(questionIds),
+    };
+  }
+
+  private async diff(surveyId: string, spec: SurveySpec, options: SpecSyncOptions): Promise<SpecDiff> {
+    const definition: SurveyDefinition = (await this.client.getSurveyDefinition(surveyId)).result;
+    const liveQuestions = (definition.Questions || {}) as Record<string, Record<string, any>>;
+    const liveBlocks = Object.entries(definition.Blocks || {})
+      .filter(([, block]) => block.Type !== "Trash")
+      .map(([blockId, block]) => ({ ...block, ID: block.ID || blockId }));
+
+    const steps: Step[] = [];
+    const warnings = specWarnings(spec);
+    const blockIds = new Map<string, string>();
+    const questionIds = new Map<string, string>();
+    const step = (action: SpecAction, run: () => Promise<void>) => steps.push({ action, run });
+
+    if (spec.name && spec.name !== definition.SurveyName) {
+      step({ action: "update", target: "survey", id: surveyId, changes: ["name"] }, async () => {
+        await this.surveyApi.updateSurvey(surveyId, { SurveyName: spec.name });
+      });
+    }
+
+    // Blocks: match by description; the first unmatched spec block takes over the default block
+    const claimed = new Set<string>();
+    const renamed = new Set<string>();
+    for (const block of spec.blocks) {
+      const match = liveBlocks.find(live => !claimed.has(live.ID) && live.Description === blockDescription(block));
+      if (match) {
+        claimed.add(match.ID);
+        blockIds.set(block.id, match.ID);
+      }
+    }
+    const defaultBlock = liveBlocks.find(live => live.Type === "Default" && !claimed.has(live.ID));
+    const adopter = defaultBlock && spec.blocks.find(block => !blockIds.has(block.id));
+    if (defaultBlock && adopter) {
+      claimed.add(defaultBlock.ID);
+      blockIds.set(adopter.id, defaultBlock.ID);
+      renamed.add(adopter.id);
+    }
+    for (const block of spec.blocks) {
+      if (blockIds.has(block.id)) continue;
+      step({ action: "create", target: "block", id: block.id }, async () => {
+        const result = await this.surveyApi.createBlock(surveyId, { Description: blockDescription(block), Type: "Standard" });
+        blockIds.set(block.id, result.result.BlockID);
+      });
+    }
+
+    // Live questions by DataExportTag; questions in the trash are ignored
+    const liveByTag = new Map<string, { questionId: string; blockId: string }>();
+    const placements: Array<{ questionId: string; blockId: string }> = [];
+    for (const block of liveBlocks) {
+      for (const element of block.BlockElements || []) {
+        if (element.Type !== "Question" || !element.QuestionID || !liveQuestions[element.QuestionID]) continue;
+        placements.push({ questionId: element.QuestionID, blockId: block.ID });
+        const tag = liveQuestions[element.QuestionID].DataExportTag || element.QuestionID;
+        if (!liveByTag.has(tag)) liveByTag.set(tag, { questionId: element.QuestionID, blockId: block.ID });
+      }
+    }
+
+    for (const block of spec.blocks) {
+      for (const question of block.questions) {
+        if (question.type === "page_break") continue;
+        const payload = questionPayload(question);
+        const live = liveByTag.get(question.id);
+        if (!live) {
+          step({ action: "create", target: "question", id: question.id }, async () => {
+            const result = await this.surveyApi.createQuestion(surveyId, blockIds.get(block.id)!, payload);
+            questionIds.set(question.id, result.result.QuestionID);
+          });
+          continue;
+        }
+        questionIds.set(question.id, live.questionId);
+        const changes = questionChanges(payload, liveQuestions[live.questionId]);
+        if (changes.length > 0) {
+          step({ action: "update", target: "question", id: question.id, liveId: live.questionId, changes }, async () => {
+            await this.history?.snapshotQuestion(surveyId, live.questionId, "apply_survey_spec", definition);
+            await this.surveyApi.updateQuestion(surveyId, live.questionId, {
+              ...updatedQuestion(payload, liveQuestions[live.questionId]),
+              QuestionID: live.questionId,
+            });
+          });
+        }
+      }
+    }
+
+    const managed = new Set(questionIds.values());
+    const unmanaged = placements
+      .filter(placement => !managed.has(placement.questionId))
+      .map(placement => ({ ...placement, exportTag: liveQuestions[placement.questionId].DataExportTag || placement.questionId }));
+    const keptUnmanaged = options.allowDeletes ? [] : unmanaged;
+
+    // Block contents: the spec's questions and page breaks, then any unmanaged questions already there
+    const blockUpdates: Array<{ step: Step; removesQuestions: boolean }> = [];
+    for (const block of spec.blocks) {
+      const liveId = blockIds.get(block.id);
+      const live = liveBlocks.find(candidate => candidate.ID === liveId);
+      const elements = (): BlockElement[] => [
+        ...block.questions.map(question => (question.type === "page_break"
+          ? { Type: "Page Break" }
+          : { Type: "Question", QuestionID: questionIds.get(question.id) ?? `new:${question.id}` })),
+        ...keptUnmanaged.filter(placement => placement.blockId === liveId).map(placement => ({ Type: "Question", QuestionID: placement.questionId })),
+      ];
+
+      const changes: string[] = [];
+      if (renamed.has(block.id)) changes.push("description");
+      if (live ? elementKeys(elements()) !== elementKeys(live.BlockElements) : block.questions.some(question => question.type === "page_break")) {
+        changes.push("questions");
+      }
+      if (changes.length === 0) continue;
+
+      const desiredQuestions = new Set(elements().map(element => element.QuestionID));
+      blockUpdates.push({
+        removesQuestions: !!live?.BlockElements?.some(element => element.Type === "Question" && !desiredQuestions.has(element.QuestionID)),
+        step: {
+          action: live
+            ? { action: "update", target: "block", id: block.id, liveId, changes }
+            : { action: "update", target: "block", id: block.id, changes: ["page breaks"] },
+          run: async () => {
+            const blockId = blockIds.get(block.id)!;
+            if (live) await this.history?.snapshotBlock(surveyId, blockId, "apply_survey_spec", definition);
+            await this.surveyApi.updateBlock(surveyId, blockId, {
+              Type: live?.Type === "Default" ? "Default" : "Standard",
+              Description: blockDescription(block),
+              BlockElements: elements(),
+              ...(live?.Options ? { Options: live.Options } : {}),
+            });
+          },
+        },
+      });
+    }
+    // Blocks giving up questions go first, so a moved question is never in two blocks at once
+    blockUpdates.sort((a, b) => Number(b.removesQuestions) - Number(a.removesQuestions));
+    steps.push(...blockUpdates.map(update => update.step));
+
+    // Blocks the spec does not define
+    const unmatched = liveBlocks.filter(block => !claimed.has(block.ID));
+    if (options.allowDeletes) {
+      for (const placement of unmanaged) {
+        step({ action: "delete", target: "question", id: placement.questionId, liveId: placement.questionId }, async () => {
+          await this.history?.snapshotQuestion(surveyId, placement.questionId, "apply_survey_spec", definition);
+          await this.surveyApi.deleteQuestion(surveyId, placement.questionId);
+        });
+      }
+      for (const block of unmatched) {
+        if (block.Type === "Default") {
+          warnings.push(`The default block '${block.Description}' (${block.ID}) cannot be deleted; it is emptied and left out of the flow`);
+          continue;
+        }
+        step({ action: "delete", target: "block", id: block.ID, liveId: block.ID }, async () => {
+          await this.history?.snapshotBlock(surveyId, block.ID, "apply_survey_spec", definition);
+          await this.surveyApi.deleteBlock(surveyId, block.ID);
+        });
+      }
+    } else {
+      for (const block of unmatched) {
+        warnings.push(`Block '${block.Description}' (${block.ID}) is not in the spec; it is kept at the end of the flow (use allowDeletes to remove it)`);
+      }
+      if (unmanaged.length > 0) {
+        warnings.push(`${unmanaged.length} question(s) not in the spec are kept in their blocks (use allowDeletes to remove them)`);
+      }
+    }
+
+    // Flow: rebuilt from the spec with live IDs; compared ignoring FlowIDs
+    const keptBlocks = options.allowDeletes ? [] : unmatched;
+    const desiredFlow = () => {
+      const flow = specFlow(spec, {
+        block: specId => blockIds.get(specId) ?? `new:${specId}`,
+        question: specId => questionIds.get(specId) ?? `new:${specId}`,
+      });
+      for (const block of keptBlocks) {
+        flow.Flow.push({ Type: "Block", ID: block.ID, Autofill: [], FlowID: `FL_${++flow.Properties.Count}` });
+      }
+      return flow;
+    };
+    if (!flowsEqual(desiredFlow(), definition.SurveyFlow)) {
+      step({ action: "update", target: "flow", id: "SurveyFlow" }, async () => {
+        await this.history?.snapshotFlow(surveyId, "apply_survey_spec", definition.SurveyFlow);
+        await this.flowApi.updateFlow(surveyId, desiredFlow());
+      });
+    }
+
+    return {
+      plan: {
+        surveyId,
+        actions: steps.map(entry => entry.action),
+        unmanagedQuestions: unmanaged,
+        warnings,
+      },
+      steps,
+      blockIds,
+      questionIds,
+    };
+  }
+}
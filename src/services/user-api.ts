@@ -1,4 +1,4 @@
-import { QualtricsClient } from "./qualtrics-client.js";
+import { FetchAllResult, QualtricsClient } from "./qualtrics-client.js";
 
 export class UserApi {
   constructor(private client: QualtricsClient) {}
@@ -11,6 +11,10 @@ export class UserApi {
     return this.client.makeRequest(`/users${qs ? `?${qs}` : ""}`);
   }
 
+  async listAllUsers(maxItems?: number): Promise<FetchAllResult<any>> {
+    return this.client.fetchAll("/users", maxItems);
+  }
+
   async getUser(userId: string): Promise<any> {
     return this.client.makeRequest(`/users/${userId}`);
   }
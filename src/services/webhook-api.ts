@@ -1,4 +1,4 @@
-import { QualtricsClient } from "./qualtrics-client.js";
+import { FetchAllResult, QualtricsClient } from "./qualtrics-client.js";
 
 export class WebhookApi {
   constructor(private client: QualtricsClient) {}
@@ -7,6 +7,10 @@ export class WebhookApi {
     return this.client.makeRequest("/eventsubscriptions");
   }
 
+  async listAllWebhooks(maxItems?: number): Promise<FetchAllResult<any>> {
+    return this.client.fetchAll("/eventsubscriptions", maxItems);
+  }
+
   async createWebhook(data: Record<string, any>): Promise<any> {
     return this.client.makeRequest("/eventsubscriptions", {
       method: "POST",
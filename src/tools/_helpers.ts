@@ -1,4 +1,5 @@
 import type { ToolResult } from "../types/index.js";
+import { QualtricsApiError } from "../services/qualtrics-errors.js";
 
 export function toolError(message: string): ToolResult {
   return {
@@ -16,6 +17,26 @@ export function toolSuccess(data: unknown): ToolResult {
   };
 }
 
+export function describeError(error: unknown): Record<string, unknown> {
+  if (error instanceof QualtricsApiError) return error.toJSON();
+  return {
+    type: error instanceof Error ? error.name : "Error",
+    message: error instanceof Error ? error.message : String(error),
+  };
+}
+
+/**
+ * Converts a thrown error into the structured payload every tool returns on
+ * failure, so callers can branch on `type`, `status` or `errorCode`.
+ */
+export function toolErrorFromException(
+  name: string,
+  error: unknown,
+  extra: Record<string, unknown> = {}
+): ToolResult {
+  return toolError(JSON.stringify({ error: { tool: name, ...describeError(error), ...extra } }, null, 2));
+}
+
 export function withErrorHandling(
   name: string,
   handler: (args: any) => Promise<ToolResult>
@@ -24,9 +45,7 @@ export function withErrorHandling(
     try {
       return await handler(args);
     } catch (error) {
-      return toolError(
-        `Error in ${name}: ${error instanceof Error ? error.message : String(error)}`
-      );
+      return toolErrorFromException(name, error);
     }
   };
 }
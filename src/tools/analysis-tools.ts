@@ -0,0 +1,218 @@
+import { z } from "zod";
+import * as path from "path";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { QualtricsClient } from "../services/qualtrics-client.js";
+import { ResponseDatasetLoader } from "../services/response-dataset.js";
+import { ResponseApi } from "../services/response-api.js";
+import { QualtricsConfig } from "../config/settings.js";
+import type { SurveyDefinition } from "../types/index.js";
+import { saveExportToFile } from "../utils/file-save.js";
+import { renderSummaryMarkdown, summarizeResponses } from "../utils/response-summary.js";
+import { compareConditions } from "../utils/condition-comparison.js";
+import { renderFlagTableCsv, screenResponses } from "../utils/quality-screening.js";
+import { buildCodebook, lookupColumn, renderCodebookCsv, renderCodebookMarkdown } from "../utils/codebook.js";
+import { describeError, toolError, toolSuccess, withErrorHandling } from "./_helpers.js";
+
+/** Where the analyzed responses come from, shared by every analysis tool. */
+const DATA_SOURCE_SHAPE = {
+  surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
+  filePath: z.string().optional().describe("Analyze an export already saved locally (json, ndjson, csv or tsv; relative names are looked up in Downloads). If omitted, a fresh export is run."),
+  where: z.string().optional().describe("Only analyze responses matching this row filter, e.g. 'Finished = 1 and Duration > 120' (same syntax as export_responses_filtered)"),
+  timeoutSeconds: z.number().int().positive().optional().describe("How long to wait for a fresh export (default: 600)"),
+};
+
+export function registerAnalysisTools(
+  server: McpServer,
+  client: QualtricsClient,
+  config: QualtricsConfig
+) {
+  const loader = new ResponseDatasetLoader(client, path.join(config.server.dataDir, "tmp"));
+  const responseApi = new ResponseApi(client);
+
+  // Summarize responses
+  server.tool(
+    "summarize_responses",
+    "Descriptive statistics for a survey's responses without pulling raw data into the conversation: per-question frequencies with choice labels, mean/median/SD for numeric and Likert items, per-block reach and dropout, completion rate and median duration. Optionally saves a Markdown report.",
+    {
+      ...DATA_SOURCE_SHAPE,
+      questionIds: z.array(z.string()).optional().describe("Only summarize these questions (question IDs or export tags)"),
+      saveReport: z.boolean().optional().describe("Also save a Markdown report to Downloads (default: false)"),
+      reportFile: z.string().optional().describe("Filename or absolute path for the Markdown report (implies saveReport)"),
+    },
+    withErrorHandling("summarize_responses", async (args) => {
+      const [definition, loaded] = await Promise.all([
+        client.getSurveyDefinition(args.surveyId),
+        loader.load(args),
+      ]);
+
+      const summary = summarizeResponses(definition.result as SurveyDefinition, loaded.responses, args.questionIds);
+
+      let report;
+      if (args.saveReport || args.reportFile) {
+        report = await saveExportToFile(renderSummaryMarkdown(summary), args.surveyId, "md", args.reportFile, "summary");
+      }
+
+      return toolSuccess({
+        ...summary,
+        source: loaded.source,
+        ...(args.where ? { rowFilter: { where: args.where, matchedRows: loaded.responses.length, totalRows: loaded.totalRows } } : {}),
+        ...(report ? { reportFile: report.filePath } : {}),
+      });
+    })
+  );
+
+  // Compare experimental conditions
+  server.tool(
+    "compare_conditions",
+    "Compare outcomes across experimental conditions or any grouping field (e.g. a randomizer's 'Condition' embedded data). Reports per-group counts, means and SDs, runs chi-square tests for categorical outcomes and Welch t-tests (2 groups) or Welch ANOVA (3+ groups) for numeric ones, tests whether group sizes match equal allocation, and checks randomization balance on pre-treatment items.",
+    {
+      ...DATA_SOURCE_SHAPE,
+      groupBy: z.string().min(1).describe("Field that assigns the condition, e.g. an embedded data field like 'Condition' or a question ID"),
+      outcomes: z.array(z.string().min(1)).min(1).describe("Outcome fields: question IDs or export tags (matrix/slider questions expand to one outcome per statement), QID4_1-style column keys, or embedded data fields"),
+      balanceItems: z.array(z.string().min(1)).optional().describe("Pre-treatment items (demographics, baseline measures) that should not differ between conditions"),
+      categorical: z.array(z.string()).optional().describe("Fields to treat as categorical even though their values are numeric"),
+      alpha: z.number().positive().max(0.5).optional().describe("Significance level for flagging imbalanced items (default: 0.05)"),
+    },
+    withErrorHandling("compare_conditions", async (args) => {
+      const [definition, loaded] = await Promise.all([
+        client.getSurveyDefinition(args.surveyId),
+        loader.load(args),
+      ]);
+
+      const comparison = compareConditions(definition.result as SurveyDefinition, loaded.responses, {
+        groupBy: args.groupBy,
+        outcomes: args.outcomes,
+        balanceItems: args.balanceItems,
+        categorical: args.categorical,
+        alpha: args.alpha,
+      });
+
+      return toolSuccess({
+        surveyId: args.surveyId,
+        ...comparison,
+        source: loaded.source,
+        ...(args.where ? { rowFilter: { where: args.where, matchedRows: loaded.responses.length, totalRows: loaded.totalRows } } : {}),
+        ...(comparison.balance && comparison.balance.imbalanced.length > 0
+          ? { warning: `Groups differ on pre-treatment items: ${comparison.balance.imbalanced.join(", ")}. With several checks some differences are expected by chance; consider adjusting for these items.` }
+          : {}),
+      });
+    })
+  );
+
+  // Screen response quality
+  server.tool(
+    "screen_response_quality",
+    "Flag low-quality responses: speeders (duration percentile), straightlining on matrix questions, failed attention checks, duplicate IP addresses, low reCAPTCHA scores, RelevantID duplicates/fraud, and gibberish open-ended answers. Saves a per-response flag table (CSV) to disk and can optionally tag flagged responses with an embedded data field in Qualtrics.",
+    {
+      ...DATA_SOURCE_SHAPE,
+      speederPercentile: z.number().min(0).max(50).optional().describe("Flag responses faster than this percentile of durations (default: 5)"),
+      minDurationSeconds: z.number().positive().optional().describe("Also flag any response faster than this many seconds"),
+      straightlineMinItems: z.number().int().min(2).optional().describe("Minimum answered matrix statements before identical answers count as straightlining (default: 3)"),
+      attentionChecks: z.array(z.object({
+        questionId: z.string().min(1).describe("Question ID or field of the attention check"),
+        expected: z.union([z.string(), z.number(), z.array(z.union([z.string(), z.number()]))]).describe("Correct answer(s): the choice recode value or expected text"),
+      })).optional().describe("Attention checks with their correct answers"),
+      recaptchaThreshold: z.number().min(0).max(1).optional().describe("Flag reCAPTCHA scores below this value (default: 0.5)"),
+      saveToFile: z.string().optional().describe("Filename or absolute path for the flag table (default: auto-named CSV in Downloads)"),
+      tagFlagged: z.boolean().optional().describe("Write the flags to an embedded data field on each flagged response in Qualtrics (default: false)"),
+      tagField: z.string().optional().describe("Embedded data field used for tagging (default: QualityFlags)"),
+      minFlagsToTag: z.number().int().positive().optional().describe("Only tag responses with at least this many flags (default: 1)"),
+    },
+    withErrorHandling("screen_response_quality", async (args) => {
+      const [definition, loaded] = await Promise.all([
+        client.getSurveyDefinition(args.surveyId),
+        loader.load(args),
+      ]);
+
+      const result = screenResponses(definition.result as SurveyDefinition, loaded.responses, {
+        speederPercentile: args.speederPercentile,
+        minDurationSeconds: args.minDurationSeconds,
+        straightlineMinItems: args.straightlineMinItems,
+        attentionChecks: args.attentionChecks,
+        recaptchaThreshold: args.recaptchaThreshold,
+      });
+      const saved = await saveExportToFile(renderFlagTableCsv(result), args.surveyId, "csv", args.saveToFile, "quality_flags");
+      const flagged = result.rows.filter(row => row.flags.length > 0);
+
+      let tagging;
+      if (args.tagFlagged) {
+        const field = args.tagField || "QualityFlags";
+        const toTag = flagged.filter(row => row.flags.length >= (args.minFlagsToTag ?? 1));
+        const failures: Array<Record<string, unknown>> = [];
+        for (const row of toTag) {
+          try {
+            await responseApi.updateResponse(args.surveyId, row.responseId, {
+              embeddedData: { [field]: row.flags.join(",") },
+            });
+          } catch (error) {
+            failures.push({ responseId: row.responseId, ...describeError(error) });
+          }
+        }
+        tagging = { field, tagged: toTag.length - failures.length, failed: failures.length, ...(failures.length > 0 ? { failures: failures.slice(0, 10) } : {}) };
+      }
+
+      return toolSuccess({
+        surveyId: args.surveyId,
+        totalResponses: result.totalResponses,
+        flaggedResponses: result.flaggedResponses,
+        flagCounts: result.flagCounts,
+        speederThresholdSeconds: result.speederThresholdSeconds,
+        ...(Object.keys(result.attentionChecksNotReached).length > 0 ? { attentionChecksNotReached: result.attentionChecksNotReached } : {}),
+        flagTable: saved.filePath,
+        sample: flagged.slice(0, 20),
+        ...(tagging ? { tagging } : {}),
+        source: loaded.source,
+        ...(args.where ? { rowFilter: { where: args.where, matchedRows: loaded.responses.length, totalRows: loaded.totalRows } } : {}),
+        tip: "Review flagged responses before excluding them; the flag table joins back to the export on responseId.",
+      });
+    })
+  );
+
+  // Generate codebook
+  server.tool(
+    "generate_codebook",
+    "Generate a codebook / data dictionary from the survey definition: every question with its export tag, block, type, display logic, choice codes and labels, and the exact column names it produces in CSV exports (matrix rows, multi-select breakouts, text entry columns), plus embedded data and response metadata columns. Pass 'column' to look up a single export column such as QID14_3.",
+    {
+      surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
+      format: z.enum(["markdown", "csv", "json"]).optional().describe("Codebook file format (default: markdown)"),
+      saveToFile: z.string().optional().describe("Filename or absolute path for the codebook (default: auto-named in Downloads)"),
+      column: z.string().optional().describe("Only look up what this export column or JSON key means (e.g. 'Q14_3' or 'QID14_3'); no file is written"),
+    },
+    withErrorHandling("generate_codebook", async (args) => {
+      const definition = await client.getSurveyDefinition(args.surveyId);
+      const codebook = buildCodebook(definition.result as SurveyDefinition);
+
+      if (args.column) {
+        const match = lookupColumn(codebook, args.column);
+        if (match) {
+          const { columns, ...question } = match.question;
+          return toolSuccess({ surveyId: args.surveyId, column: match.column, question });
+        }
+        const field = codebook.embeddedData.find(item => item.field.toLowerCase() === args.column!.toLowerCase());
+        const metadata = codebook.metadataColumns.find(item => item.name.toLowerCase() === args.column!.toLowerCase());
+        if (field) return toolSuccess({ surveyId: args.surveyId, column: args.column, embeddedData: field });
+        if (metadata) return toolSuccess({ surveyId: args.surveyId, column: args.column, metadata });
+        return toolError(`Column '${args.column}' does not match any question, embedded data field or metadata column in survey ${args.surveyId}.`);
+      }
+
+      const format = args.format ?? "markdown";
+      const content = format === "csv"
+        ? renderCodebookCsv(codebook)
+        : format === "json"
+          ? JSON.stringify(codebook, null, 2)
+          : renderCodebookMarkdown(codebook);
+      const saved = await saveExportToFile(content, args.surveyId, format === "markdown" ? "md" : format, args.saveToFile, "codebook");
+
+      return toolSuccess({
+        surveyId: args.surveyId,
+        surveyName: codebook.surveyName,
+        format,
+        savedToFile: saved.filePath,
+        questions: codebook.questions.length,
+        exportColumns: codebook.questions.reduce((sum, question) => sum + question.columns.length, 0),
+        embeddedDataFields: codebook.embeddedData.length,
+        message: `Codebook saved to ${saved.filePath}`,
+      });
+    })
+  );
+}
@@ -2,6 +2,7 @@ import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { QualtricsClient } from "../services/qualtrics-client.js";
 import { SurveyApi } from "../services/survey-api.js";
+import { SurveyHistory } from "../services/survey-history.js";
 import { QualtricsConfig } from "../config/settings.js";
 import { toolSuccess, withErrorHandling } from "./_helpers.js";
 
@@ -11,6 +12,7 @@ export function registerBlockTools(
   config: QualtricsConfig
 ) {
   const surveyApi = new SurveyApi(client);
+  const history = new SurveyHistory(client, config.server.dataDir);
 
   // List blocks
   server.tool(
@@ -89,11 +91,13 @@ export function registerBlockTools(
       const data: Record<string, any> = { Type: blockType };
       if (args.description !== undefined) data.Description = args.description;
 
+      const snapshot = await history.snapshotBlock(args.surveyId, args.blockId, "update_block");
       const result = await surveyApi.updateBlock(args.surveyId, args.blockId, data);
       return toolSuccess({
         success: true,
         surveyId: args.surveyId,
         blockId: args.blockId,
+        snapshotId: snapshot.id,
         message: "Block updated successfully",
         details: result.result,
       });
@@ -109,11 +113,13 @@ export function registerBlockTools(
       blockId: z.string().min(1).describe("The block ID to delete"),
     },
     withErrorHandling("delete_block", async (args) => {
+      const snapshot = await history.snapshotBlock(args.surveyId, args.blockId, "delete_block");
       const result = await surveyApi.deleteBlock(args.surveyId, args.blockId);
       return toolSuccess({
         success: true,
         surveyId: args.surveyId,
         blockId: args.blockId,
+        snapshotId: snapshot.id,
         message: "Block deleted successfully",
         details: result.result,
       });
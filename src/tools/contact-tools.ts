@@ -1,6 +1,6 @@
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { QualtricsClient } from "../services/qualtrics-client.js";
+import { DEFAULT_MAX_ITEMS, QualtricsClient } from "../services/qualtrics-client.js";
 import { ContactApi } from "../services/contact-api.js";
 import { QualtricsConfig } from "../config/settings.js";
 import { toolSuccess, withErrorHandling } from "./_helpers.js";
@@ -16,10 +16,21 @@ export function registerContactTools(
   server.tool(
     "list_mailing_lists",
     "List all mailing lists in your Qualtrics account",
-    {},
-    withErrorHandling("list_mailing_lists", async () => {
-      const result = await contactApi.listMailingLists();
-      const lists = result.result.elements || [];
+    {
+      fetchAll: z.boolean().optional().describe("Follow pagination and return every mailing list (default: false, first page only)"),
+      maxItems: z.number().int().positive().optional().describe(`Maximum mailing lists to collect when fetchAll is true (default: ${DEFAULT_MAX_ITEMS})`),
+    },
+    withErrorHandling("list_mailing_lists", async (args) => {
+      let lists: any[];
+      let truncated = false;
+      if (args.fetchAll) {
+        const all = await contactApi.listAllMailingLists(args.maxItems);
+        lists = all.elements;
+        truncated = all.truncated;
+      } else {
+        const result = await contactApi.listMailingLists();
+        lists = result.result.elements || [];
+      }
 
       return toolSuccess({
         mailingLists: lists.map((ml: any) => ({
@@ -30,6 +41,7 @@ export function registerContactTools(
           lastModifiedDate: ml.lastModifiedDate,
         })),
         total: lists.length,
+        truncated,
       });
     })
   );
@@ -82,10 +94,22 @@ export function registerContactTools(
       mailingListId: z.string().min(1).describe("The mailing list ID"),
       limit: z.number().optional().describe("Maximum number of contacts to return"),
       offset: z.number().optional().describe("Starting offset for pagination"),
+      fetchAll: z.boolean().optional().describe("Follow pagination and return every contact in the list, ignoring offset/limit (default: false)"),
+      maxItems: z.number().int().positive().optional().describe(`Maximum contacts to collect when fetchAll is true (default: ${DEFAULT_MAX_ITEMS})`),
     },
     withErrorHandling("list_contacts", async (args) => {
-      const result = await contactApi.listContacts(args.mailingListId, args.offset, args.limit);
-      const contacts = result.result.elements || [];
+      let contacts: any[];
+      let nextPage: string | null = null;
+      let truncated = false;
+      if (args.fetchAll) {
+        const all = await contactApi.listAllContacts(args.mailingListId, args.maxItems);
+        contacts = all.elements;
+        truncated = all.truncated;
+      } else {
+        const result = await contactApi.listContacts(args.mailingListId, args.offset, args.limit);
+        contacts = result.result.elements || [];
+        nextPage = result.result.nextPage || null;
+      }
 
       return toolSuccess({
         mailingListId: args.mailingListId,
@@ -98,7 +122,8 @@ export function registerContactTools(
           unsubscribed: c.unsubscribed,
         })),
         total: contacts.length,
-        nextPage: result.result.nextPage || null,
+        nextPage,
+        truncated,
       });
     })
   );
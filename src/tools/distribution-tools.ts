@@ -1,6 +1,6 @@
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { QualtricsClient } from "../services/qualtrics-client.js";
+import { DEFAULT_MAX_ITEMS, QualtricsClient } from "../services/qualtrics-client.js";
 import { DistributionApi } from "../services/distribution-api.js";
 import { QualtricsConfig } from "../config/settings.js";
 import { toolSuccess, withErrorHandling } from "./_helpers.js";
@@ -18,10 +18,20 @@ export function registerDistributionTools(
     "List all distributions for a survey (email sends, anonymous links, etc.)",
     {
       surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
+      fetchAll: z.boolean().optional().describe("Follow pagination and return every distribution (default: false, first page only)"),
+      maxItems: z.number().int().positive().optional().describe(`Maximum distributions to collect when fetchAll is true (default: ${DEFAULT_MAX_ITEMS})`),
     },
     withErrorHandling("list_distributions", async (args) => {
-      const result = await distributionApi.listDistributions(args.surveyId);
-      const distributions = result.result.elements || [];
+      let distributions: any[];
+      let truncated = false;
+      if (args.fetchAll) {
+        const all = await distributionApi.listAllDistributions(args.surveyId, args.maxItems);
+        distributions = all.elements;
+        truncated = all.truncated;
+      } else {
+        const result = await distributionApi.listDistributions(args.surveyId);
+        distributions = result.result.elements || [];
+      }
 
       return toolSuccess({
         surveyId: args.surveyId,
@@ -34,6 +44,7 @@ export function registerDistributionTools(
           stats: d.stats,
         })),
         total: distributions.length,
+        truncated,
       });
     })
   );
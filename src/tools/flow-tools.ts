@@ -2,20 +2,119 @@ import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { QualtricsClient } from "../services/qualtrics-client.js";
 import { FlowApi } from "../services/flow-api.js";
+import { SurveyHistory } from "../services/survey-history.js";
 import { QualtricsConfig } from "../config/settings.js";
+import type { SurveyBlock, SurveyFlow } from "../types/index.js";
+import { ExperimentArm, factorialArms, randomizerFlowElement } from "../utils/experiment-design.js";
+import {
+  NewFlowElement,
+  blockFlowElement,
+  embeddedDataFlowElement,
+  flowElements,
+  insertFlowElement,
+  moveFlowElement,
+  outlineFlow,
+  parseFlow,
+  removeFlowElement,
+  serializeFlow,
+  webServiceFlowElement,
+  wrapFlowElements,
+} from "../utils/flow-tree.js";
+import { LogicError, compileLogic, explainLogic } from "../utils/logic-language.js";
+import { describeLogic } from "../utils/survey-definition.js";
 import { toolError, toolSuccess, withErrorHandling } from "./_helpers.js";
 
+const FLOW_REF = "FlowID (FL_12) or path from get_survey_flow's outline (2.0 = first child of the third top-level element)";
+
+const POSITION_PARAMS = {
+  parent: z.string().optional().describe(`Container to insert into: ${FLOW_REF} of a group, randomizer or branch (default: the top level)`),
+  index: z.number().int().min(0).optional().describe("Position within parent, 0 = first (default: last)"),
+  before: z.string().optional().describe(`Insert before this element: ${FLOW_REF}`),
+  after: z.string().optional().describe(`Insert after this element: ${FLOW_REF}`),
+};
+
+const LOGIC_SYNTAX = "Condition in readable form, e.g. 'QID3 selected 2 AND e://Field/Condition = \"treatment\"'. Conditions: <QID or export tag> selected|not selected <choice ID or \"choice text\">; <text entry QID> or e://Field/<name> followed by =, !=, >, >=, <, <=, contains, not contains <value>, or is empty / is not empty. Join with AND/OR; parenthesized lists form separate condition sets, e.g. (A AND B) OR (C)";
+
+const CONTAINER_ELEMENT = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("group"),
+    description: z.string().optional().describe("Group label"),
+  }),
+  z.object({
+    type: z.literal("randomizer"),
+    subset: z.number().int().positive().optional().describe("How many child elements each respondent sees (default: all of them)"),
+    evenPresentation: z.boolean().optional().describe("Evenly present elements across respondents (default: true)"),
+  }),
+  z.object({
+    type: z.literal("branch"),
+    branchLogic: z.record(z.any()).describe("Qualtrics BranchLogic object, e.g. copied from another branch in get_survey_flow"),
+    description: z.string().optional(),
+  }),
+]);
+
+const FLOW_ELEMENT = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("block"),
+    blockId: z.string().min(1).describe("Block ID (BL_...)"),
+  }),
+  z.object({
+    type: z.literal("embeddedData"),
+    fields: z.array(z.object({
+      name: z.string(),
+      value: z.string().optional(),
+      type: z.enum(["Custom", "Recipient"]).optional(),
+    })).min(1),
+  }),
+  ...CONTAINER_ELEMENT.options,
+  z.object({ type: z.literal("endSurvey") }),
+]);
+
+function newFlowElement(element: z.infer<typeof FLOW_ELEMENT>, childCount = 0): NewFlowElement {
+  switch (element.type) {
+    case "block":
+      return blockFlowElement(element.blockId);
+    case "embeddedData":
+      return embeddedDataFlowElement(element.fields);
+    case "group":
+      return { Type: "Group", Description: element.description || "Group" };
+    case "randomizer":
+      return { Type: "BlockRandomizer", SubSet: element.subset ?? childCount, EvenPresentation: element.evenPresentation ?? true };
+    case "branch":
+      return { Type: "Branch", ...(element.description ? { Description: element.description } : {}), BranchLogic: element.branchLogic };
+    case "endSurvey":
+      return { Type: "EndSurvey" };
+  }
+}
+
 export function registerFlowTools(
   server: McpServer,
   client: QualtricsClient,
   config: QualtricsConfig
 ) {
   const flowApi = new FlowApi(client);
+  const history = new SurveyHistory(client, config.server.dataDir);
+
+  /** Edits the typed flow, snapshots the current flow and saves the edited one. */
+  async function editFlow<T>(surveyId: string, tool: string, edit: (flow: SurveyFlow) => T) {
+    const current = (await flowApi.getFlow(surveyId)).result;
+    const flow = parseFlow(current);
+    const result = edit(flow);
+    const snapshot = await history.snapshotFlow(surveyId, tool, current);
+    await flowApi.updateFlow(surveyId, serializeFlow(flow));
+    return { result, snapshotId: snapshot.id, outline: outlineFlow(flow) };
+  }
+
+  /** The survey's blocks, or an error naming the first of blockIds that does not exist. */
+  async function surveyBlocks(surveyId: string, blockIds: string[]): Promise<Record<string, SurveyBlock> | string> {
+    const blocks: Record<string, SurveyBlock> = (await client.getSurveyDefinition(surveyId)).result.Blocks || {};
+    const missing = blockIds.find(blockId => !blocks[blockId] || blocks[blockId].Type === "Trash");
+    return missing ? `Block ${missing} does not exist in survey ${surveyId}` : blocks;
+  }
 
   // Get survey flow
   server.tool(
     "get_survey_flow",
-    "Get the full survey flow tree showing the order of blocks, embedded data, web services, branching, and randomization",
+    "Get the full survey flow tree showing the order of blocks, embedded data, web services, branching, and randomization, plus an outline with each element's path and FlowID for the element-level flow tools",
     {
       surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
     },
@@ -23,6 +122,7 @@ export function registerFlowTools(
       const result = await flowApi.getFlow(args.surveyId);
       return toolSuccess({
         surveyId: args.surveyId,
+        outline: outlineFlow(parseFlow(result.result)),
         flow: result.result,
       });
     })
@@ -31,16 +131,18 @@ export function registerFlowTools(
   // Update survey flow (full replacement)
   server.tool(
     "update_survey_flow",
-    "Replace the entire survey flow tree. Use get_survey_flow first to get the current flow, modify it, then pass the full tree back.",
+    "Replace the entire survey flow tree. Use get_survey_flow first to get the current flow, modify it, then pass the full tree back. The previous flow is snapshotted first and can be restored with undo_last_change.",
     {
       surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
       flow: z.any().describe("The complete flow tree object (same structure returned by get_survey_flow)"),
     },
     withErrorHandling("update_survey_flow", async (args) => {
+      const snapshot = await history.snapshotFlow(args.surveyId, "update_survey_flow");
       const result = await flowApi.updateFlow(args.surveyId, args.flow);
       return toolSuccess({
         success: true,
         surveyId: args.surveyId,
+        snapshotId: snapshot.id,
         message: "Survey flow updated successfully",
         details: result.result,
       });
@@ -60,39 +162,16 @@ export function registerFlowTools(
       })).min(1).describe("Array of embedded data fields to add"),
     },
     withErrorHandling("add_embedded_data", async (args) => {
-      // GET current flow
-      const currentFlow = await flowApi.getFlow(args.surveyId);
-      const flow = currentFlow.result;
-
-      // Determine next FlowID
-      const nextFlowNum = (flow.Properties?.Count || flow.Flow.length) + 1;
-
-      // Build embedded data element
-      const edElement: Record<string, any> = {
-        FlowID: `FL_${nextFlowNum}`,
-        Type: "EmbeddedData",
-        EmbeddedData: args.fields.map((f: any) => ({
-          Description: f.name,
-          Type: f.type || "Custom",
-          Field: f.name,
-          VariableType: "String",
-          DataVisibility: [],
-          AnalyzeText: false,
-          Value: f.value || "",
-        })),
-      };
-
       // Insert at the beginning of the flow (before blocks)
-      flow.Flow.unshift(edElement);
-      flow.Properties.Count = nextFlowNum;
-
-      // PUT updated flow
-      const result = await flowApi.updateFlow(args.surveyId, flow);
+      const { result: element, snapshotId } = await editFlow(args.surveyId, "add_embedded_data", flow =>
+        insertFlowElement(flow, embeddedDataFlowElement(args.fields), { index: 0 })
+      );
 
       return toolSuccess({
         success: true,
         surveyId: args.surveyId,
-        flowId: edElement.FlowID,
+        flowId: element.FlowID,
+        snapshotId,
         fields: args.fields.map((f: any) => ({
           name: f.name,
           pipedText: `\${e://Field/${f.name}}`,
@@ -123,62 +202,21 @@ export function registerFlowTools(
       position: z.enum(["beginning", "end"]).optional().describe("Where to insert in the flow (default: beginning)"),
     },
     withErrorHandling("add_web_service", async (args) => {
-      // GET current flow
-      const currentFlow = await flowApi.getFlow(args.surveyId);
-      const flow = currentFlow.result;
-
-      const currentCount = flow.Properties?.Count || flow.Flow.length;
-
-      // Build the embedded data declarations for response-mapped fields
-      const edFields = args.responseMapping.map((m: any) => ({
-        Description: m.fieldName,
-        Type: "Custom",
-        Field: m.fieldName,
-        VariableType: "String",
-        DataVisibility: [],
-        AnalyzeText: false,
-        Value: "",
-      }));
-
-      // Build web service element (Qualtrics uses arrays with lowercase key/value)
-      const wsElement: Record<string, any> = {
-        FlowID: `FL_${currentCount + 1}`,
-        Type: "WebService",
-        URL: args.url,
-        Method: args.method || "GET",
-        RequestParams: (args.requestParams || []).map((p: any) => ({
-          key: p.key,
-          value: p.value,
-        })),
-        ResponseMap: args.responseMapping.map((m: any) => ({
-          key: m.jsonPath,
-          value: m.fieldName,
-        })),
-      };
-
-      // Also add an embedded data element to declare the target fields
-      const edElement: Record<string, any> = {
-        FlowID: `FL_${currentCount + 2}`,
-        Type: "EmbeddedData",
-        EmbeddedData: edFields,
-      };
-
-      if (args.position === "end") {
-        flow.Flow.push(edElement, wsElement);
-      } else {
-        // Insert at beginning: ED first, then WS, then existing flow
-        flow.Flow.unshift(edElement, wsElement);
-      }
-      flow.Properties.Count = currentCount + 2;
-
-      // PUT updated flow
-      const result = await flowApi.updateFlow(args.surveyId, flow);
+      // The embedded data element declares the fields the response is mapped to
+      const { result: [edElement, wsElement], snapshotId } = await editFlow(args.surveyId, "add_web_service", flow => {
+        const at = args.position === "end" ? flow.Flow.length : 0;
+        return [
+          insertFlowElement(flow, embeddedDataFlowElement(args.responseMapping.map((m: any) => ({ name: m.fieldName }))), { index: at }),
+          insertFlowElement(flow, webServiceFlowElement(args), { index: at + 1 }),
+        ];
+      });
 
       return toolSuccess({
         success: true,
         surveyId: args.surveyId,
         webServiceFlowId: wsElement.FlowID,
         embeddedDataFlowId: edElement.FlowID,
+        snapshotId,
         url: args.url,
         method: args.method || "GET",
         mappedFields: args.responseMapping.map((m: any) => ({
@@ -192,6 +230,277 @@ export function registerFlowTools(
     })
   );
 
+  // Insert flow element tool
+  server.tool(
+    "insert_flow_element",
+    "Insert a block, embedded data, group, randomizer, branch or end-of-survey element anywhere in the survey flow, before or after an existing element or at a position inside a container. The new element gets a FlowID that does not collide with existing ones. The previous flow is snapshotted first.",
+    {
+      surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
+      element: FLOW_ELEMENT.describe("The element to insert"),
+      ...POSITION_PARAMS,
+    },
+    withErrorHandling("insert_flow_element", async (args) => {
+      const { surveyId, element, ...position } = args;
+      const { result, snapshotId, outline } = await editFlow(surveyId, "insert_flow_element", flow =>
+        insertFlowElement(flow, newFlowElement(element), position)
+      );
+      return toolSuccess({
+        success: true,
+        surveyId,
+        flowId: result.FlowID,
+        snapshotId,
+        outline,
+        message: `${result.Type} element ${result.FlowID} inserted`,
+      });
+    })
+  );
+
+  // Move flow element tool
+  server.tool(
+    "move_flow_element",
+    "Move a survey flow element, with everything nested inside it, to another position: before or after another element, or into a group, randomizer or branch. FlowIDs are kept. The previous flow is snapshotted first.",
+    {
+      surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
+      element: z.string().min(1).describe(`Element to move: ${FLOW_REF}`),
+      ...POSITION_PARAMS,
+    },
+    withErrorHandling("move_flow_element", async (args) => {
+      const { surveyId, element, ...position } = args;
+      const { result, snapshotId, outline } = await editFlow(surveyId, "move_flow_element", flow =>
+        moveFlowElement(flow, element, position)
+      );
+      return toolSuccess({
+        success: true,
+        surveyId,
+        flowId: result.FlowID,
+        snapshotId,
+        outline,
+        message: `${result.Type} element ${result.FlowID} moved`,
+      });
+    })
+  );
+
+  // Wrap flow elements tool
+  server.tool(
+    "wrap_flow_elements",
+    "Wrap sibling survey flow elements in a new group, randomizer or branch, placed where the first of them was. The wrapped elements keep their order and FlowIDs. The previous flow is snapshotted first.",
+    {
+      surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
+      elements: z.array(z.string().min(1)).min(1).describe(`Elements to wrap, all with the same parent: ${FLOW_REF}`),
+      wrapper: CONTAINER_ELEMENT.describe("The container to wrap them in"),
+    },
+    withErrorHandling("wrap_flow_elements", async (args) => {
+      const { result, snapshotId, outline } = await editFlow(args.surveyId, "wrap_flow_elements", flow =>
+        wrapFlowElements(flow, args.elements, newFlowElement(args.wrapper, args.elements.length))
+      );
+      return toolSuccess({
+        success: true,
+        surveyId: args.surveyId,
+        flowId: result.FlowID,
+        snapshotId,
+        outline,
+        message: `${args.elements.length} element(s) wrapped in ${result.Type} ${result.FlowID}`,
+      });
+    })
+  );
+
+  // Remove flow element tool
+  server.tool(
+    "remove_flow_element",
+    "Remove an element from the survey flow. Removing a block element only takes the block out of the flow; the block and its questions remain in the survey. With keepChildren, a group, randomizer or branch is unwrapped: its children take its place. The previous flow is snapshotted first.",
+    {
+      surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
+      element: z.string().min(1).describe(`Element to remove: ${FLOW_REF}`),
+      keepChildren: z.boolean().optional().describe("Keep the elements inside a removed container in its place (default: false, they are removed with it)"),
+    },
+    withErrorHandling("remove_flow_element", async (args) => {
+      const { result, snapshotId, outline } = await editFlow(args.surveyId, "remove_flow_element", flow =>
+        removeFlowElement(flow, args.element, { keepChildren: args.keepChildren })
+      );
+      return toolSuccess({
+        success: true,
+        surveyId: args.surveyId,
+        flowId: result.FlowID,
+        removed: result,
+        snapshotId,
+        outline,
+        message: `${result.Type} element ${result.FlowID} removed`,
+      });
+    })
+  );
+
+  // Add randomizer tool
+  server.tool(
+    "add_randomizer",
+    "Add a randomizer that assigns respondents to experimental arms. Each arm becomes a group that records its label in a condition embedded data field and then shows the arm's blocks. Supports weights (whole numbers, e.g. 2:1 allocation), evenly presenting arms and showing a subset of arms. The previous flow is snapshotted first.",
+    {
+      surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
+      arms: z.array(z.object({
+        blocks: z.array(z.string().min(1)).min(1).describe("Block IDs shown in this arm, in order"),
+        label: z.string().min(1).optional().describe("Condition label stored in the condition field (default: the block descriptions)"),
+        weight: z.number().int().positive().optional().describe("Relative share of respondents (default: 1); only with subset 1"),
+        embeddedData: z.record(z.string()).optional().describe("Further embedded data fields to set in this arm, e.g. {\"Dose\": \"high\"}"),
+      })).min(2).describe("The experimental arms"),
+      conditionField: z.string().min(1).optional().describe("Embedded data field that records the arm (default: Condition)"),
+      subset: z.number().int().positive().optional().describe("Number of arms each respondent gets (default: 1)"),
+      evenPresentation: z.boolean().optional().describe("Evenly present arms across respondents (default: true)"),
+      ...POSITION_PARAMS,
+    },
+    withErrorHandling("add_randomizer", async (args) => {
+      const { surveyId, arms, conditionField, subset, evenPresentation, ...position } = args;
+      const blocks = await surveyBlocks(surveyId, arms.flatMap((arm: ExperimentArm) => arm.blocks));
+      if (typeof blocks === "string") return toolError(blocks);
+
+      const labelled: ExperimentArm[] = arms.map((arm: ExperimentArm) => ({
+        ...arm,
+        label: arm.label ?? arm.blocks.map(blockId => blocks[blockId].Description).join(" + "),
+      }));
+      const { result, snapshotId, outline } = await editFlow(surveyId, "add_randomizer", flow =>
+        insertFlowElement(flow, randomizerFlowElement({ arms: labelled, conditionField, subset, evenPresentation }), position)
+      );
+      return toolSuccess({
+        success: true,
+        surveyId,
+        flowId: result.FlowID,
+        conditionField: conditionField || "Condition",
+        arms: labelled.map(arm => ({ label: arm.label, blocks: arm.blocks, weight: arm.weight ?? 1 })),
+        snapshotId,
+        outline,
+        message: `Randomizer ${result.FlowID} added with ${labelled.length} arms`,
+      });
+    })
+  );
+
+  // Create experiment design tool
+  server.tool(
+    "create_experiment_design",
+    "Add a full factorial experiment (e.g. 2x2 or 2x3) to the survey flow from a compact factor list. Each cell becomes an arm of an evenly presented randomizer that sets one embedded data field per factor (named after the factor) plus a condition field with the cell label (levels joined by _, e.g. gain_high), then shows the blocks of its levels. The previous flow is snapshotted first.",
+    {
+      surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
+      factors: z.array(z.object({
+        name: z.string().min(1).describe("Factor name, also the embedded data field that records its level"),
+        levels: z.array(z.union([
+          z.string().min(1),
+          z.object({
+            label: z.string().min(1),
+            blocks: z.array(z.string().min(1)).optional().describe("Block IDs shown for this level"),
+          }),
+        ])).min(2).describe("Levels as labels, or {label, blocks} when a level has its own stimulus blocks"),
+      })).min(1).describe("The factors, e.g. [{name: \"Frame\", levels: [{label: \"gain\", blocks: [\"BL_1\"]}, {label: \"loss\", blocks: [\"BL_2\"]}]}, {name: \"Source\", levels: [\"expert\", \"peer\"]}]"),
+      conditionField: z.string().min(1).optional().describe("Embedded data field that records the cell (default: Condition)"),
+      evenPresentation: z.boolean().optional().describe("Evenly present cells across respondents (default: true)"),
+      ...POSITION_PARAMS,
+    },
+    withErrorHandling("create_experiment_design", async (args) => {
+      const { surveyId, factors, conditionField, evenPresentation, ...position } = args;
+      const arms = factorialArms(factors);
+      const blocks = await surveyBlocks(surveyId, arms.flatMap(arm => arm.blocks));
+      if (typeof blocks === "string") return toolError(blocks);
+
+      const { result, snapshotId, outline } = await editFlow(surveyId, "create_experiment_design", flow =>
+        insertFlowElement(flow, randomizerFlowElement({ arms, conditionField, evenPresentation }), position)
+      );
+      return toolSuccess({
+        success: true,
+        surveyId,
+        flowId: result.FlowID,
+        design: factors.map((factor: { name: string; levels: unknown[] }) => factor.levels.length).join("x"),
+        conditionField: conditionField || "Condition",
+        cells: arms,
+        snapshotId,
+        outline,
+        message: `${arms.length}-cell factorial design added as randomizer ${result.FlowID}`,
+      });
+    })
+  );
+
+  // Add branch tool
+  server.tool(
+    "add_branch",
+    "Add a Branch to the survey flow from a readable condition. Questions and choices are checked against the survey before anything is changed. The branch shows the given blocks (and optionally ends the survey, e.g. to screen out respondents), or wraps existing flow elements so they only run when the condition holds. The previous flow is snapshotted first.",
+    {
+      surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
+      condition: z.string().min(1).describe(LOGIC_SYNTAX),
+      blocks: z.array(z.string().min(1)).optional().describe("Block IDs to show inside the branch, in order"),
+      elements: z.array(z.string().min(1)).optional().describe(`Existing sibling flow elements to move inside the branch, which takes the place of the first: ${FLOW_REF}`),
+      endSurvey: z.boolean().optional().describe("End the survey at the end of the branch (default: false)"),
+      description: z.string().optional().describe("Branch label"),
+      ...POSITION_PARAMS,
+    },
+    withErrorHandling("add_branch", async (args) => {
+      const { surveyId, condition, blocks, elements, endSurvey, description, ...position } = args;
+      if (!blocks?.length && !elements?.length && !endSurvey) {
+        return toolError("Give the branch something to do: blocks, elements to wrap, or endSurvey");
+      }
+      if (elements?.length && Object.values(position).some(value => value !== undefined)) {
+        return toolError("A branch wrapping elements takes their place; do not also give parent, index, before or after");
+      }
+
+      const definition = (await client.getSurveyDefinition(surveyId)).result;
+      let compiled;
+      try {
+        compiled = compileLogic(condition, definition);
+      } catch (error) {
+        if (error instanceof LogicError) return toolError(error.message);
+        throw error;
+      }
+      const missing = (blocks || []).find((blockId: string) => !definition.Blocks?.[blockId] || definition.Blocks[blockId].Type === "Trash");
+      if (missing) return toolError(`Block ${missing} does not exist in survey ${surveyId}`);
+
+      const children: NewFlowElement[] = [
+        ...(blocks || []).map(blockFlowElement),
+        ...(endSurvey ? [{ Type: "EndSurvey" }] : []),
+      ];
+      const branch: NewFlowElement = { Type: "Branch", ...(description ? { Description: description } : {}), BranchLogic: compiled.logic };
+      const { result, snapshotId, outline } = await editFlow(surveyId, "add_branch", flow => {
+        if (!elements?.length) return insertFlowElement(flow, { ...branch, Flow: children }, position);
+        const wrapper = wrapFlowElements(flow, elements, branch);
+        for (const child of children) insertFlowElement(flow, child, { parent: wrapper.FlowID });
+        return wrapper;
+      });
+      return toolSuccess({
+        success: true,
+        surveyId,
+        flowId: result.FlowID,
+        condition: explainLogic(compiled.logic),
+        description: describeLogic(compiled.logic),
+        ...(compiled.warnings.length > 0 ? { warnings: compiled.warnings } : {}),
+        snapshotId,
+        outline,
+        message: `Branch ${result.FlowID} added`,
+      });
+    })
+  );
+
+  // Explain branch logic tool
+  server.tool(
+    "explain_branch_logic",
+    "Render the conditions of a survey's Branch elements in the readable form add_branch accepts, with the Qualtrics description of each. Conditions the readable form cannot express are shown in [brackets].",
+    {
+      surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
+      flowId: z.string().optional().describe(`Only this branch: ${FLOW_REF} (default: every branch)`),
+    },
+    withErrorHandling("explain_branch_logic", async (args) => {
+      const flow = parseFlow((await flowApi.getFlow(args.surveyId)).result);
+      const branches = flowElements(flow)
+        .filter(({ element, path }) => element.Type === "Branch" && (!args.flowId || element.FlowID === args.flowId || path === args.flowId))
+        .map(({ element, path }) => ({
+          flowId: element.FlowID,
+          path,
+          condition: explainLogic(element.BranchLogic),
+          description: describeLogic(element.BranchLogic),
+          elements: ((element.Flow as unknown[] | undefined) || []).length,
+        }));
+      if (args.flowId && branches.length === 0) return toolError(`No branch ${args.flowId} in the survey flow`);
+
+      return toolSuccess({
+        surveyId: args.surveyId,
+        branches,
+        total: branches.length,
+      });
+    })
+  );
+
   // Piped text reference
   server.tool(
     "piped_text_reference",
@@ -0,0 +1,75 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { QualtricsClient } from "../services/qualtrics-client.js";
+import { SurveyHistory } from "../services/survey-history.js";
+import { QualtricsConfig } from "../config/settings.js";
+import { toolError, toolSuccess, withErrorHandling } from "./_helpers.js";
+
+export function registerHistoryTools(
+  server: McpServer,
+  client: QualtricsClient,
+  config: QualtricsConfig
+) {
+  const history = new SurveyHistory(client, config.server.dataDir);
+
+  // List snapshots tool
+  server.tool(
+    "list_snapshots",
+    "List the local snapshots taken before changes to a survey's questions, blocks and flow (by update_question, delete_question, retag_questions, set/remove_display_logic, set/remove_skip_logic, update_block, delete_block, update_survey_flow, insert/move/wrap/remove_flow_element, add_randomizer, create_experiment_design, add_branch, add_embedded_data, add_web_service and apply_survey_spec), newest first.",
+    {
+      surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
+      limit: z.number().int().positive().optional().describe("Maximum snapshots to return (default: 20)"),
+    },
+    withErrorHandling("list_snapshots", async (args) => {
+      const snapshots = await history.list(args.surveyId, args.limit ?? 20);
+      return toolSuccess({
+        surveyId: args.surveyId,
+        snapshots,
+        total: snapshots.length,
+        tip: "Restore one with restore_snapshot, or roll back the most recent change with undo_last_change",
+      });
+    })
+  );
+
+  // Undo last change tool
+  server.tool(
+    "undo_last_change",
+    "Roll back the most recent change made through this server to a survey's questions, blocks or flow, by restoring the snapshot taken before it. Call again to undo earlier changes. Deleted questions and blocks are recreated with new IDs.",
+    {
+      surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
+    },
+    withErrorHandling("undo_last_change", async (args) => {
+      const latest = await history.latestUndoable(args.surveyId);
+      if (!latest) {
+        return toolError(`No changes to undo for survey ${args.surveyId}. Snapshots are only taken for changes made through this server; see list_snapshots.`);
+      }
+
+      const result = await history.restore(args.surveyId, latest.id);
+      return toolSuccess({
+        success: true,
+        surveyId: args.surveyId,
+        ...result,
+        message: `Undid ${latest.tool} on ${latest.kind === "flow" ? "the survey flow" : `${latest.kind} ${latest.objectId}`}`,
+      });
+    })
+  );
+
+  // Restore snapshot tool
+  server.tool(
+    "restore_snapshot",
+    "Restore a survey question, block or flow to a snapshot from list_snapshots. The state being replaced is snapshotted first, so a restore can itself be rolled back with restore_snapshot.",
+    {
+      surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
+      snapshotId: z.string().min(1).describe("Snapshot ID from list_snapshots"),
+    },
+    withErrorHandling("restore_snapshot", async (args) => {
+      const result = await history.restore(args.surveyId, args.snapshotId);
+      return toolSuccess({
+        success: true,
+        surveyId: args.surveyId,
+        ...result,
+        message: `Restored ${result.snapshot.kind === "flow" ? "the survey flow" : `${result.snapshot.kind} ${result.snapshot.objectId}`} to snapshot ${args.snapshotId}`,
+      });
+    })
+  );
+}
@@ -10,6 +10,11 @@ import { registerContactTools } from "./contact-tools.js";
 import { registerUserTools } from "./user-tools.js";
 import { registerWebhookTools } from "./webhook-tools.js";
 import { registerFlowTools } from "./flow-tools.js";
+import { registerLogicTools } from "./logic-tools.js";
+import { registerSyncTools } from "./sync-tools.js";
+import { registerAnalysisTools } from "./analysis-tools.js";
+import { registerSpecTools } from "./spec-tools.js";
+import { registerHistoryTools } from "./history-tools.js";
 
 export async function registerTools(
   server: McpServer,
@@ -25,4 +30,9 @@ export async function registerTools(
   registerUserTools(server, client, config);
   registerWebhookTools(server, client, config);
   registerFlowTools(server, client, config);
+  registerLogicTools(server, client, config);
+  registerSyncTools(server, client, config);
+  registerAnalysisTools(server, client, config);
+  registerSpecTools(server, client, config);
+  registerHistoryTools(server, client, config);
 }
@@ -0,0 +1,228 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { QualtricsClient } from "../services/qualtrics-client.js";
+import { SurveyApi } from "../services/survey-api.js";
+import { SurveyHistory } from "../services/survey-history.js";
+import { QualtricsConfig } from "../config/settings.js";
+import type { SurveyDefinition, ToolResult } from "../types/index.js";
+import { LogicError, compileLogic, compileSkipLogic, explainLogic, explainSkipLogic } from "../utils/logic-language.js";
+import { describeLogic, stripHtml, surveyQuestions } from "../utils/survey-definition.js";
+import { toolError, toolSuccess, withErrorHandling } from "./_helpers.js";
+
+const CONDITION_DESC = "Condition in readable form, e.g. 'QID3 selected 2 AND e://Field/Condition = \"treatment\"'. Conditions: <QID or export tag> selected|not selected <choice ID or \"choice text\">; <text entry QID> or e://Field/<name> followed by =, !=, >, >=, <, <=, contains, not contains <value>, or is empty / is not empty. Join with AND/OR; parenthesized lists form separate condition sets. Only questions shown before this one can be tested.";
+
+export function registerLogicTools(
+  server: McpServer,
+  client: QualtricsClient,
+  config: QualtricsConfig
+) {
+  const surveyApi = new SurveyApi(client);
+  const history = new SurveyHistory(client, config.server.dataDir);
+
+  /**
+   * Loads the survey, lets edit change a copy of the question, then snapshots
+   * and saves it. edit returns an error result to stop without saving.
+   */
+  async function editQuestion(
+    surveyId: string,
+    questionId: string,
+    tool: string,
+    edit: (question: Record<string, any>, definition: SurveyDefinition) => ToolResult | void
+  ): Promise<ToolResult | { question: Record<string, any>; snapshotId: string }> {
+    const definition = (await client.getSurveyDefinition(surveyId)).result as SurveyDefinition;
+    if (!definition.Questions?.[questionId]) return toolError(`Question ${questionId} not found in survey ${surveyId}`);
+
+    const question: Record<string, any> = JSON.parse(JSON.stringify(definition.Questions[questionId]));
+    try {
+      const stopped = edit(question, definition);
+      if (stopped) return stopped;
+    } catch (error) {
+      if (error instanceof LogicError) return toolError(error.message);
+      throw error;
+    }
+    const snapshot = await history.snapshotQuestion(surveyId, questionId, tool, definition);
+    await surveyApi.updateQuestion(surveyId, questionId, question);
+    return { question, snapshotId: snapshot.id };
+  }
+
+  // Set display logic tool
+  server.tool(
+    "set_display_logic",
+    "Set the display logic of a question, or of one of its choices, from a readable condition, replacing any existing display logic there. Questions and choices are checked against the survey, and only questions shown earlier can be tested; conditions on the same page are evaluated in-page. The question is snapshotted first.",
+    {
+      surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
+      questionId: z.string().min(1).describe("The question to show conditionally"),
+      condition: z.string().min(1).describe(CONDITION_DESC),
+      choiceId: z.string().optional().describe("Set the logic on this choice instead of the whole question"),
+    },
+    withErrorHandling("set_display_logic", async (args) => {
+      let warnings: string[] = [];
+      let logic: Record<string, any> = {};
+      const edited = await editQuestion(args.surveyId, args.questionId, "set_display_logic", (question, definition) => {
+        if (args.choiceId !== undefined && !question.Choices?.[args.choiceId]) {
+          return toolError(`${args.questionId} has no choice ${args.choiceId}`);
+        }
+        const compiled = compileLogic(args.condition, definition, { target: args.questionId });
+        warnings = compiled.warnings;
+        logic = { ...compiled.logic, inPage: compiled.inPage };
+        if (args.choiceId !== undefined) question.Choices[args.choiceId].DisplayLogic = logic;
+        else question.DisplayLogic = logic;
+      });
+      if ("content" in edited) return edited;
+
+      return toolSuccess({
+        success: true,
+        surveyId: args.surveyId,
+        questionId: args.questionId,
+        ...(args.choiceId !== undefined ? { choiceId: args.choiceId } : {}),
+        condition: explainLogic(logic),
+        description: describeLogic(logic),
+        inPage: logic.inPage,
+        ...(warnings.length > 0 ? { warnings } : {}),
+        snapshotId: edited.snapshotId,
+        message: `Display logic set on ${args.choiceId !== undefined ? `choice ${args.choiceId} of ` : ""}${args.questionId}`,
+      });
+    })
+  );
+
+  // Remove display logic tool
+  server.tool(
+    "remove_display_logic",
+    "Remove the display logic from a question or one of its choices, so it is always shown. The question is snapshotted first.",
+    {
+      surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
+      questionId: z.string().min(1).describe("The question ID"),
+      choiceId: z.string().optional().describe("Remove the logic from this choice instead of the whole question"),
+    },
+    withErrorHandling("remove_display_logic", async (args) => {
+      let removed = "";
+      const edited = await editQuestion(args.surveyId, args.questionId, "remove_display_logic", question => {
+        const owner = args.choiceId !== undefined ? question.Choices?.[args.choiceId] : question;
+        if (!owner) return toolError(`${args.questionId} has no choice ${args.choiceId}`);
+        if (!owner.DisplayLogic) return toolError(`${args.choiceId !== undefined ? `Choice ${args.choiceId} of ` : ""}${args.questionId} has no display logic`);
+        removed = explainLogic(owner.DisplayLogic);
+        delete owner.DisplayLogic;
+      });
+      if ("content" in edited) return edited;
+
+      return toolSuccess({
+        success: true,
+        surveyId: args.surveyId,
+        questionId: args.questionId,
+        ...(args.choiceId !== undefined ? { choiceId: args.choiceId } : {}),
+        removedCondition: removed,
+        snapshotId: edited.snapshotId,
+        message: "Display logic removed",
+      });
+    })
+  );
+
+  // Set skip logic tool
+  server.tool(
+    "set_skip_logic",
+    "Set the skip logic of a question, replacing its existing skip rules. Each rule tests one of the question's own choices and skips to the end of the block, the end of the survey, or a later question in the same block. The question is snapshotted first.",
+    {
+      surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
+      questionId: z.string().min(1).describe("The question whose answer triggers the skip"),
+      rules: z.array(z.object({
+        if: z.string().min(1).describe("One condition on this question, e.g. 'QID4 selected 2' or 'QID4 not selected \"Yes\"'"),
+        skipTo: z.string().min(1).describe("endOfBlock, endOfSurvey, or the QID/export tag of a later question in the same block"),
+      })).min(1).describe("Skip rules, checked in order"),
+    },
+    withErrorHandling("set_skip_logic", async (args) => {
+      const edited = await editQuestion(args.surveyId, args.questionId, "set_skip_logic", (question, definition) => {
+        question.SkipLogic = compileSkipLogic(args.rules, args.questionId, definition);
+      });
+      if ("content" in edited) return edited;
+
+      return toolSuccess({
+        success: true,
+        surveyId: args.surveyId,
+        questionId: args.questionId,
+        rules: explainSkipLogic(edited.question.SkipLogic),
+        descriptions: edited.question.SkipLogic.map((rule: Record<string, any>) => rule.Description),
+        snapshotId: edited.snapshotId,
+        message: `${args.rules.length} skip rule(s) set on ${args.questionId}`,
+      });
+    })
+  );
+
+  // Remove skip logic tool
+  server.tool(
+    "remove_skip_logic",
+    "Remove all skip rules from a question. The question is snapshotted first.",
+    {
+      surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
+      questionId: z.string().min(1).describe("The question ID"),
+    },
+    withErrorHandling("remove_skip_logic", async (args) => {
+      let removed: ReturnType<typeof explainSkipLogic> = [];
+      const edited = await editQuestion(args.surveyId, args.questionId, "remove_skip_logic", question => {
+        removed = explainSkipLogic(question.SkipLogic);
+        if (removed.length === 0) return toolError(`${args.questionId} has no skip logic`);
+        delete question.SkipLogic;
+      });
+      if ("content" in edited) return edited;
+
+      return toolSuccess({
+        success: true,
+        surveyId: args.surveyId,
+        questionId: args.questionId,
+        removedRules: removed,
+        snapshotId: edited.snapshotId,
+        message: "Skip logic removed",
+      });
+    })
+  );
+
+  // Explain question logic tool
+  server.tool(
+    "explain_question_logic",
+    "Show the display logic (of questions and of individual choices) and skip logic in a survey, in the readable form set_display_logic and set_skip_logic accept. Conditions the readable form cannot express are shown in [brackets].",
+    {
+      surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
+      questionId: z.string().optional().describe("Only this question (default: every question with logic)"),
+    },
+    withErrorHandling("explain_question_logic", async (args) => {
+      const definition = (await client.getSurveyDefinition(args.surveyId)).result as SurveyDefinition;
+      if (args.questionId && !definition.Questions?.[args.questionId]) {
+        return toolError(`Question ${args.questionId} not found in survey ${args.surveyId}`);
+      }
+
+      const questions = surveyQuestions(definition)
+        .filter(info => (args.questionId ? info.questionId === args.questionId : info.blockId !== undefined))
+        .map(info => {
+          const question = definition.Questions[info.questionId] as Record<string, any>;
+          const choiceLogic = Object.entries<Record<string, any>>(question.Choices || {})
+            .filter(([, choice]) => choice.DisplayLogic)
+            .map(([choiceId, choice]) => ({
+              choiceId,
+              label: stripHtml(choice.Display),
+              condition: explainLogic(choice.DisplayLogic),
+              description: describeLogic(choice.DisplayLogic),
+            }));
+          const skipLogic = explainSkipLogic(question.SkipLogic);
+          return {
+            questionId: info.questionId,
+            exportTag: info.exportTag,
+            ...(question.DisplayLogic ? {
+              displayLogic: {
+                condition: explainLogic(question.DisplayLogic),
+                description: describeLogic(question.DisplayLogic),
+                inPage: question.DisplayLogic.inPage === true,
+              },
+            } : {}),
+            ...(choiceLogic.length > 0 ? { choiceDisplayLogic: choiceLogic } : {}),
+            ...(skipLogic.length > 0 ? { skipLogic } : {}),
+          };
+        })
+        .filter(entry => args.questionId || Object.keys(entry).length > 2);
+
+      return toolSuccess({
+        surveyId: args.surveyId,
+        questions,
+        total: questions.length,
+      });
+    })
+  );
+}
@@ -2,44 +2,123 @@ import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { QualtricsClient } from "../services/qualtrics-client.js";
 import { SurveyApi } from "../services/survey-api.js";
+import { SurveyHistory } from "../services/survey-history.js";
 import { QualtricsConfig } from "../config/settings.js";
-import { toolError, toolSuccess, withErrorHandling } from "./_helpers.js";
-
-let questionCounter = 0;
-function nextExportTag(): string {
-  questionCounter++;
-  return `Q_auto_${questionCounter}`;
+import type { SurveyDefinition, ToolResult } from "../types/index.js";
+import {
+  DEFAULT_EXPORT_TAG_SCHEME,
+  EXPORT_TAG_STYLES,
+  ExportTagAllocator,
+  ExportTagError,
+  ExportTagScheme,
+  planRetag,
+  Retag,
+  retagSteps,
+} from "../utils/export-tags.js";
+import {
+  checkQuestionJSWarning,
+  constantSumPayload,
+  descriptiveTextPayload,
+  DrillDownOption,
+  drillDownPayload,
+  fileUploadPayload,
+  formFieldsPayload,
+  heatMapPayload,
+  likertLabels,
+  LIKERT_SCALES,
+  likertPayload,
+  matrixPayload,
+  multipleChoicePayload,
+  npsPayload,
+  QuestionBuilderError,
+  rankOrderPayload,
+  sideBySidePayload,
+  signaturePayload,
+  SLIDER_DEFAULTS,
+  sliderPayload,
+  textEntryPayload,
+  timingPayload,
+} from "../utils/question-builders.js";
+import { toolError, toolErrorFromException, toolSuccess, withErrorHandling } from "./_helpers.js";
+
+const FORCE_RESPONSE_DESC = "Require a response (default: false)";
+
+const DRILL_DOWN_OPTION: z.ZodType<DrillDownOption> = z.lazy(() => z.object({
+  label: z.string().min(1),
+  options: z.array(DRILL_DOWN_OPTION).optional().describe("Options of the next level under this one"),
+}));
+
+const TAG_SCHEME = z.object({
+  style: z.enum(EXPORT_TAG_STYLES).describe("sequential: <prefix><n> (Q12); block: <prefix>_<block description>_<n> (Q_demographics_3); slug: first words of the question text (how_old_are_you)"),
+  prefix: z.string().optional().describe("Tag prefix (default: Q for sequential and block, none for slug)"),
+});
+
+const EXPORT_TAG_PARAMS = {
+  exportTag: z.string().optional().describe("DataExportTag for the question; it must not be used by another question in the survey"),
+  tagScheme: TAG_SCHEME.optional().describe("How to name the question when exportTag is not given (default: sequential with prefix Q, continuing after the survey's highest Q<n>)"),
+};
+
+interface QuestionTarget {
+  surveyId: string;
+  blockId: string;
+  exportTag?: string;
+  tagScheme?: ExportTagScheme;
 }
 
 const QUESTION_JS_DESC =
   "JavaScript to attach to this question (QuestionJS). IMPORTANT: Avoid literal `${` in JS strings — Qualtrics interprets it as piped text and corrupts the code. Use `\\x24{` or `String.fromCharCode(36)+'{'` instead.";
 
-const PIPED_TEXT_PREFIXES = /\$\{(q|e|m|date|rand|lm|gr):\/\//i;
-
-function checkQuestionJSWarning(js: string): string | null {
-  // Find ${ sequences that are NOT valid Qualtrics piped text
-  const dollarBracePattern = /\$\{/g;
-  let match;
-  let hasUnsafeDollarBrace = false;
-  while ((match = dollarBracePattern.exec(js)) !== null) {
-    const substring = js.slice(match.index);
-    if (!PIPED_TEXT_PREFIXES.test(substring)) {
-      hasUnsafeDollarBrace = true;
-      break;
-    }
-  }
-  if (hasUnsafeDollarBrace) {
-    return "WARNING: Your QuestionJS contains literal `${` which Qualtrics will interpret as piped text, corrupting your JavaScript at runtime. Replace `${` in string literals with `\\x24{` or `String.fromCharCode(36)+'{'`.";
-  }
-  return null;
-}
-
 export function registerQuestionTools(
   server: McpServer,
   client: QualtricsClient,
   config: QualtricsConfig
 ) {
   const surveyApi = new SurveyApi(client);
+  const history = new SurveyHistory(client, config.server.dataDir);
+
+  /**
+   * The new question's DataExportTag: the requested tag if no other question
+   * uses it, otherwise the next free tag in the scheme, read from the survey.
+   */
+  async function allocateExportTag(target: QuestionTarget, questionText?: string): Promise<string> {
+    const definition = (await client.getSurveyDefinition(target.surveyId)).result as SurveyDefinition;
+    const allocator = new ExportTagAllocator(definition);
+    if (target.exportTag !== undefined) return allocator.claim(target.exportTag);
+    return allocator.next(target.tagScheme || DEFAULT_EXPORT_TAG_SCHEME, { blockId: target.blockId, questionText });
+  }
+
+  /**
+   * Builds a simplified question with a fresh export tag and creates it. A
+   * QuestionBuilderError (parameters zod cannot check) or ExportTagError
+   * becomes an error result.
+   */
+  async function addQuestion(
+    target: QuestionTarget & { questionText?: string },
+    family: string,
+    build: (dataExportTag: string) => Record<string, any>,
+    details: Record<string, any> = {}
+  ): Promise<ToolResult> {
+    const { surveyId, blockId } = target;
+    let questionData: Record<string, any>;
+    try {
+      questionData = build(await allocateExportTag(target, target.questionText));
+    } catch (error) {
+      if (error instanceof QuestionBuilderError || error instanceof ExportTagError) return toolError(error.message);
+      throw error;
+    }
+
+    const result = await surveyApi.createQuestion(surveyId, blockId, questionData);
+    return toolSuccess({
+      success: true,
+      surveyId,
+      blockId,
+      questionId: result.result.QuestionID,
+      dataExportTag: questionData.DataExportTag,
+      questionType: `${family} (${questionData.QuestionType}/${questionData.Selector})`,
+      ...details,
+      message: `${family} question created successfully`,
+    });
+  }
 
   // List questions
   server.tool(
@@ -90,7 +169,7 @@ export function registerQuestionTools(
   // Create question (raw)
   server.tool(
     "create_question",
-    "Create a question in a survey block. For simplified helpers, use add_multiple_choice_question, add_text_entry_question, add_descriptive_text_question, add_likert_question, or add_matrix_question instead.",
+    "Create a question in a survey block. For simplified helpers, use the add_*_question tools instead (multiple choice, text entry, descriptive text, Likert, matrix, slider, constant sum, rank order, side-by-side, NPS, drill-down, heat map, file upload, signature, timing, form fields).",
     {
       surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
       blockId: z.string().min(1).describe("The block ID to add the question to"),
@@ -103,13 +182,21 @@ export function registerQuestionTools(
       })).optional().describe("Choice definitions keyed by choice number"),
       validation: z.record(z.any()).optional().describe("Validation settings"),
       questionJS: z.string().optional().describe(QUESTION_JS_DESC),
+      ...EXPORT_TAG_PARAMS,
     },
     withErrorHandling("create_question", async (args) => {
+      let dataExportTag: string;
+      try {
+        dataExportTag = await allocateExportTag(args, args.questionText);
+      } catch (error) {
+        if (error instanceof ExportTagError) return toolError(error.message);
+        throw error;
+      }
       const questionData: Record<string, any> = {
         QuestionText: args.questionText,
         QuestionType: args.questionType,
         Selector: args.selector,
-        DataExportTag: nextExportTag(),
+        DataExportTag: dataExportTag,
       };
       if (args.subSelector) questionData.SubSelector = args.subSelector;
       if (args.choices) questionData.Choices = args.choices;
@@ -123,6 +210,7 @@ export function registerQuestionTools(
         surveyId: args.surveyId,
         blockId: args.blockId,
         questionId: result.result.QuestionID,
+        dataExportTag,
         message: "Question created successfully",
         details: result.result,
       };
@@ -164,12 +252,14 @@ export function registerQuestionTools(
       if (args.validation !== undefined) data.Validation = args.validation;
       if (args.questionJS !== undefined) data.QuestionJS = args.questionJS;
 
+      const snapshot = await history.snapshotQuestion(args.surveyId, args.questionId, "update_question");
       const result = await surveyApi.updateQuestion(args.surveyId, args.questionId, data);
 
       const response: Record<string, any> = {
         success: true,
         surveyId: args.surveyId,
         questionId: args.questionId,
+        snapshotId: snapshot.id,
         message: "Question updated successfully",
         details: result.result,
       };
@@ -192,17 +282,99 @@ export function registerQuestionTools(
       questionId: z.string().min(1).describe("The question ID to delete"),
     },
     withErrorHandling("delete_question", async (args) => {
+      const snapshot = await history.snapshotQuestion(args.surveyId, args.questionId, "delete_question");
       const result = await surveyApi.deleteQuestion(args.surveyId, args.questionId);
       return toolSuccess({
         success: true,
         surveyId: args.surveyId,
         questionId: args.questionId,
+        snapshotId: snapshot.id,
         message: "Question deleted successfully",
         details: result.result,
       });
     })
   );
 
+  // Retag questions
+  server.tool(
+    "retag_questions",
+    "Rename question DataExportTags in bulk, from explicit renames or to a naming scheme. Every new tag is checked against the rest of the survey before anything changes, each question is snapshotted before it is renamed, and side-by-side columns follow their question. Swapped tags pass through a temporary tag so no two questions share one; if a save fails, the error lists what was renamed and what remains, and running the remaining renames again finishes the job. Exports name their columns after these tags, so scripts and codebooks that use the old tags need updating.",
+    {
+      surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
+      renames: z.record(z.string()).optional().describe("New tags keyed by QID or current tag, e.g. {\"QID3\": \"age\", \"Q_auto_2\": \"gender\"}"),
+      tagScheme: TAG_SCHEME.optional().describe("Rename questions to this scheme instead, in survey order (default: sequential with prefix Q)"),
+      questionIds: z.array(z.string()).optional().describe("With a scheme, rename only these questions (default: every question in a block)"),
+      dryRun: z.boolean().optional().describe("List the renames without saving them (default: false)"),
+    },
+    withErrorHandling("retag_questions", async (args) => {
+      if (args.renames && (args.tagScheme || args.questionIds)) {
+        return toolError("Give either renames or tagScheme/questionIds, not both");
+      }
+
+      const definition = (await client.getSurveyDefinition(args.surveyId)).result as SurveyDefinition;
+      let retags: Retag[];
+      try {
+        retags = planRetag(definition, { renames: args.renames, scheme: args.tagScheme, questionIds: args.questionIds });
+      } catch (error) {
+        if (error instanceof ExportTagError) return toolError(error.message);
+        throw error;
+      }
+      const warnings = definition.SurveyStatus === "Active"
+        ? ["The survey is active: exports will use the new tags as column names, including for responses already collected"]
+        : [];
+
+      if (args.dryRun || retags.length === 0) {
+        return toolSuccess({
+          surveyId: args.surveyId,
+          dryRun: args.dryRun ?? false,
+          retags,
+          total: retags.length,
+          ...(warnings.length > 0 ? { warnings } : {}),
+          message: retags.length === 0 ? "Every question already has the requested tag" : `${retags.length} question(s) would be retagged`,
+        });
+      }
+
+      const pending = new Map(retags.map(retag => [retag.questionId, retag]));
+      const live = new Map(retags.map(retag => [retag.questionId, retag.from]));
+      const snapshots = new Map<string, string>();
+      const renamed: Array<Retag & { snapshotId: string }> = [];
+      for (const step of retagSteps(definition, retags)) {
+        const retag = pending.get(step.questionId)!;
+        const question: Record<string, any> = JSON.parse(JSON.stringify(definition.Questions[retag.questionId]));
+        question.DataExportTag = step.tag;
+        for (const column of Object.values<Record<string, any>>(question.AdditionalQuestions || {})) {
+          if (typeof column.DataExportTag === "string" && column.DataExportTag.startsWith(`${retag.from}#`)) {
+            column.DataExportTag = step.tag + column.DataExportTag.slice(retag.from.length);
+          }
+        }
+        try {
+          if (!snapshots.has(retag.questionId)) {
+            const snapshot = await history.snapshotQuestion(args.surveyId, retag.questionId, "retag_questions", definition);
+            snapshots.set(retag.questionId, snapshot.id);
+          }
+          await surveyApi.updateQuestion(args.surveyId, retag.questionId, question);
+        } catch (error) {
+          const remaining = [...pending.values()].map(left => ({ ...left, from: live.get(left.questionId)! }));
+          return toolErrorFromException("retag_questions", error, { renamed, remaining });
+        }
+        live.set(retag.questionId, step.tag);
+        if (step.tag === retag.to) {
+          renamed.push({ ...retag, snapshotId: snapshots.get(retag.questionId)! });
+          pending.delete(retag.questionId);
+        }
+      }
+
+      return toolSuccess({
+        success: true,
+        surveyId: args.surveyId,
+        retags: renamed,
+        total: renamed.length,
+        ...(warnings.length > 0 ? { warnings } : {}),
+        message: `${renamed.length} question(s) retagged`,
+      });
+    })
+  );
+
   // Add multiple choice question (simplified)
   server.tool(
     "add_multiple_choice_question",
@@ -214,41 +386,17 @@ export function registerQuestionTools(
       choices: z.array(z.string()).min(2).describe("Array of choice labels (e.g., ['Yes', 'No', 'Maybe'])"),
       allowMultiple: z.boolean().optional().describe("Allow selecting multiple choices (default: false)"),
       forceResponse: z.boolean().optional().describe("Require a response (default: false)"),
+      ...EXPORT_TAG_PARAMS,
     },
     withErrorHandling("add_multiple_choice_question", async (args) => {
-      const choicesObj: Record<string, { Display: string }> = {};
-      args.choices.forEach((choice: string, index: number) => {
-        choicesObj[String(index + 1)] = { Display: choice };
-      });
-
-      const questionData: Record<string, any> = {
-        QuestionText: args.questionText,
-        QuestionType: "MC",
-        Selector: args.allowMultiple ? "MAVR" : "SAVR",
-        SubSelector: "TX",
-        DataExportTag: nextExportTag(),
-        Choices: choicesObj,
-        ChoiceOrder: args.choices.map((_: string, i: number) => String(i + 1)),
-      };
-
-      if (args.forceResponse) {
-        questionData.Validation = {
-          Settings: {
-            ForceResponse: "ON",
-            ForceResponseType: "ON",
-            Type: "None",
-          },
-        };
-      }
-
-      const result = await surveyApi.createQuestion(args.surveyId, args.blockId, questionData);
-      return toolSuccess({
-        success: true,
-        surveyId: args.surveyId,
-        blockId: args.blockId,
-        questionId: result.result.QuestionID,
+      return addQuestion(args, "Multiple choice", dataExportTag => multipleChoicePayload({
+        questionText: args.questionText,
+        choices: args.choices,
+        allowMultiple: args.allowMultiple,
+        forceResponse: args.forceResponse,
+        dataExportTag,
+      }), {
         questionType: args.allowMultiple ? "Multiple Choice (Multi-Answer)" : "Multiple Choice (Single Answer)",
-        message: "Multiple choice question created successfully",
       });
     })
   );
@@ -263,39 +411,16 @@ export function registerQuestionTools(
       questionText: z.string().min(1).describe("The question text"),
       textType: z.enum(["single", "multi", "essay"]).describe("Text entry type: single line, multi line, or essay"),
       forceResponse: z.boolean().optional().describe("Require a response (default: false)"),
+      ...EXPORT_TAG_PARAMS,
     },
     withErrorHandling("add_text_entry_question", async (args) => {
-      const selectorMap: Record<string, string> = {
-        single: "SL",
-        multi: "ML",
-        essay: "ESTB",
-      };
-
-      const questionData: Record<string, any> = {
-        QuestionText: args.questionText,
-        QuestionType: "TE",
-        Selector: selectorMap[args.textType],
-        DataExportTag: nextExportTag(),
-      };
-
-      if (args.forceResponse) {
-        questionData.Validation = {
-          Settings: {
-            ForceResponse: "ON",
-            ForceResponseType: "ON",
-            Type: "None",
-          },
-        };
-      }
-
-      const result = await surveyApi.createQuestion(args.surveyId, args.blockId, questionData);
-      return toolSuccess({
-        success: true,
-        surveyId: args.surveyId,
-        blockId: args.blockId,
-        questionId: result.result.QuestionID,
+      return addQuestion(args, "Text entry", dataExportTag => textEntryPayload({
+        questionText: args.questionText,
+        textType: args.textType,
+        forceResponse: args.forceResponse,
+        dataExportTag,
+      }), {
         questionType: `Text Entry (${args.textType})`,
-        message: "Text entry question created successfully",
       });
     })
   );
@@ -309,33 +434,18 @@ export function registerQuestionTools(
       blockId: z.string().min(1).describe("The block ID to add the question to"),
       htmlContent: z.string().min(1).describe("The HTML content to display"),
       questionJS: z.string().optional().describe(QUESTION_JS_DESC),
+      ...EXPORT_TAG_PARAMS,
     },
     withErrorHandling("add_descriptive_text_question", async (args) => {
-      const questionData: Record<string, any> = {
-        QuestionText: args.htmlContent,
-        QuestionType: "DB",
-        Selector: "TB",
-        DataExportTag: nextExportTag(),
-      };
-      if (args.questionJS !== undefined) questionData.QuestionJS = args.questionJS;
-
-      const result = await surveyApi.createQuestion(args.surveyId, args.blockId, questionData);
-
-      const response: Record<string, any> = {
-        success: true,
-        surveyId: args.surveyId,
-        blockId: args.blockId,
-        questionId: result.result.QuestionID,
+      const warning = args.questionJS ? checkQuestionJSWarning(args.questionJS) : null;
+      return addQuestion({ ...args, questionText: args.htmlContent }, "Descriptive text", dataExportTag => {
+        const questionData = descriptiveTextPayload({ htmlContent: args.htmlContent, dataExportTag });
+        if (args.questionJS !== undefined) questionData.QuestionJS = args.questionJS;
+        return questionData;
+      }, {
         questionType: "Descriptive Text (DB/TB)",
-        message: "Descriptive text question created successfully",
-      };
-
-      if (args.questionJS) {
-        const warning = checkQuestionJSWarning(args.questionJS);
-        if (warning) response.warning = warning;
-      }
-
-      return toolSuccess(response);
+        ...(warning ? { warning } : {}),
+      });
     })
   );
 
@@ -347,66 +457,28 @@ export function registerQuestionTools(
       surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
       blockId: z.string().min(1).describe("The block ID to add the question to"),
       questionText: z.string().min(1).describe("The question text"),
-      scale: z.enum(["agree5", "agree7", "frequency5", "satisfaction5", "likelihood5", "custom"]).describe(
+      scale: z.enum(LIKERT_SCALES).describe(
         "Preset scale: agree5 (Strongly Disagree→Strongly Agree 5pt), agree7 (7pt), frequency5 (Never→Always), satisfaction5 (Very Dissatisfied→Very Satisfied), likelihood5 (Very Unlikely→Very Likely), or custom (provide customLabels)"
       ),
       customLabels: z.array(z.string()).optional().describe("Custom scale labels (required when scale is 'custom', minimum 2 items)"),
       forceResponse: z.boolean().optional().describe("Require a response (default: false)"),
+      ...EXPORT_TAG_PARAMS,
     },
     withErrorHandling("add_likert_question", async (args) => {
-      const presets: Record<string, string[]> = {
-        agree5: ["Strongly Disagree", "Disagree", "Neither Agree nor Disagree", "Agree", "Strongly Agree"],
-        agree7: ["Strongly Disagree", "Disagree", "Somewhat Disagree", "Neither Agree nor Disagree", "Somewhat Agree", "Agree", "Strongly Agree"],
-        frequency5: ["Never", "Rarely", "Sometimes", "Often", "Always"],
-        satisfaction5: ["Very Dissatisfied", "Dissatisfied", "Neutral", "Satisfied", "Very Satisfied"],
-        likelihood5: ["Very Unlikely", "Unlikely", "Neutral", "Likely", "Very Likely"],
-      };
-
-      let labels: string[];
-      if (args.scale === "custom") {
-        if (!args.customLabels || args.customLabels.length < 2) {
-          return toolError("When scale is 'custom', customLabels must be provided with at least 2 items.");
-        }
-        labels = args.customLabels;
-      } else {
-        labels = presets[args.scale];
+      const labels = likertLabels(args.scale, args.customLabels);
+      if (!labels) {
+        return toolError("When scale is 'custom', customLabels must be provided with at least 2 items.");
       }
 
-      const choicesObj: Record<string, { Display: string }> = {};
-      labels.forEach((label, index) => {
-        choicesObj[String(index + 1)] = { Display: label };
-      });
-
-      const questionData: Record<string, any> = {
-        QuestionText: args.questionText,
-        QuestionType: "MC",
-        Selector: "SAVR",
-        SubSelector: "TX",
-        DataExportTag: nextExportTag(),
-        Choices: choicesObj,
-        ChoiceOrder: labels.map((_, i) => String(i + 1)),
-      };
-
-      if (args.forceResponse) {
-        questionData.Validation = {
-          Settings: {
-            ForceResponse: "ON",
-            ForceResponseType: "ON",
-            Type: "None",
-          },
-        };
-      }
-
-      const result = await surveyApi.createQuestion(args.surveyId, args.blockId, questionData);
-      return toolSuccess({
-        success: true,
-        surveyId: args.surveyId,
-        blockId: args.blockId,
-        questionId: result.result.QuestionID,
+      return addQuestion(args, "Likert", dataExportTag => likertPayload({
+        questionText: args.questionText,
+        labels,
+        forceResponse: args.forceResponse,
+        dataExportTag,
+      }), {
         questionType: `Likert (MC/SAVR, ${labels.length}-point)`,
         scale: args.scale,
         scaleLabels: labels,
-        message: "Likert question created successfully",
       });
     })
   );
@@ -422,50 +494,244 @@ export function registerQuestionTools(
       statements: z.array(z.string()).min(1).describe("Array of statement/row labels"),
       scalePoints: z.array(z.string()).min(2).describe("Array of scale point labels (e.g., ['Strongly Disagree', ..., 'Strongly Agree'])"),
       forceResponse: z.boolean().optional().describe("Require a response for all statements (default: false)"),
+      ...EXPORT_TAG_PARAMS,
     },
     withErrorHandling("add_matrix_question", async (args) => {
-      const choices: Record<string, { Display: string }> = {};
-      args.statements.forEach((stmt: string, index: number) => {
-        choices[String(index + 1)] = { Display: stmt };
+      return addQuestion(args, "Matrix", dataExportTag => matrixPayload({
+        questionText: args.questionText,
+        statements: args.statements,
+        scalePoints: args.scalePoints,
+        forceResponse: args.forceResponse,
+        dataExportTag,
+      }), {
+        questionType: "Matrix (Likert)",
+        statementCount: args.statements.length,
+        scalePointCount: args.scalePoints.length,
       });
+    })
+  );
 
-      const answers: Record<string, { Display: string }> = {};
-      args.scalePoints.forEach((point: string, index: number) => {
-        answers[String(index + 1)] = { Display: point };
+  // Add slider question (simplified)
+  server.tool(
+    "add_slider_question",
+    "Simplified helper to create a horizontal slider question (Slider/HSLIDER) with one slider per statement.",
+    {
+      surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
+      blockId: z.string().min(1).describe("The block ID to add the question to"),
+      questionText: z.string().min(1).describe("The question text"),
+      statements: z.array(z.string()).min(1).describe("One slider per statement"),
+      min: z.number().optional().describe(`Slider minimum (default: ${SLIDER_DEFAULTS.min})`),
+      max: z.number().optional().describe(`Slider maximum (default: ${SLIDER_DEFAULTS.max})`),
+      gridLines: z.number().int().optional().describe(`Number of grid lines (default: ${SLIDER_DEFAULTS.gridLines})`),
+      decimals: z.number().int().optional().describe(`Decimal places recorded, 0-4 (default: ${SLIDER_DEFAULTS.decimals})`),
+      labels: z.array(z.string()).optional().describe("Labels spread evenly above the scale (e.g., ['Not at all', 'Extremely'])"),
+      forceResponse: z.boolean().optional().describe(FORCE_RESPONSE_DESC),
+      ...EXPORT_TAG_PARAMS,
+    },
+    withErrorHandling("add_slider_question", async (args) => {
+      return addQuestion(args, "Slider", dataExportTag => sliderPayload({ ...args, dataExportTag }), {
+        statementCount: args.statements.length,
+        range: [args.min ?? SLIDER_DEFAULTS.min, args.max ?? SLIDER_DEFAULTS.max],
       });
+    })
+  );
 
-      const questionData: Record<string, any> = {
-        QuestionText: args.questionText,
-        QuestionType: "Matrix",
-        Selector: "Likert",
-        SubSelector: "SingleAnswer",
-        DataExportTag: nextExportTag(),
-        Choices: choices,
-        ChoiceOrder: args.statements.map((_: string, i: number) => String(i + 1)),
-        Answers: answers,
-        AnswerOrder: args.scalePoints.map((_: string, i: number) => String(i + 1)),
-      };
+  // Add constant sum question (simplified)
+  server.tool(
+    "add_constant_sum_question",
+    "Simplified helper to create a constant sum question (CS) whose items must add up to a fixed total.",
+    {
+      surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
+      blockId: z.string().min(1).describe("The block ID to add the question to"),
+      questionText: z.string().min(1).describe("The question text"),
+      items: z.array(z.string()).min(2).describe("Items to distribute the total across"),
+      total: z.number().optional().describe("Required sum of all items (default: 100)"),
+      style: z.enum(["textBoxes", "sliders", "bars"]).optional().describe("Entry style (default: textBoxes)"),
+      forceResponse: z.boolean().optional().describe(FORCE_RESPONSE_DESC),
+      ...EXPORT_TAG_PARAMS,
+    },
+    withErrorHandling("add_constant_sum_question", async (args) => {
+      return addQuestion(args, "Constant sum", dataExportTag => constantSumPayload({ ...args, dataExportTag }), {
+        itemCount: args.items.length,
+        total: args.total ?? 100,
+      });
+    })
+  );
 
-      if (args.forceResponse) {
-        questionData.Validation = {
-          Settings: {
-            ForceResponse: "ON",
-            ForceResponseType: "ON",
-            Type: "None",
-          },
-        };
-      }
+  // Add rank order question (simplified)
+  server.tool(
+    "add_rank_order_question",
+    "Simplified helper to create a rank order question (RO).",
+    {
+      surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
+      blockId: z.string().min(1).describe("The block ID to add the question to"),
+      questionText: z.string().min(1).describe("The question text"),
+      items: z.array(z.string()).min(2).describe("Items to rank"),
+      style: z.enum(["dragDrop", "radio", "textBox"]).optional().describe("Ranking style (default: dragDrop)"),
+      forceResponse: z.boolean().optional().describe(FORCE_RESPONSE_DESC),
+      ...EXPORT_TAG_PARAMS,
+    },
+    withErrorHandling("add_rank_order_question", async (args) => {
+      return addQuestion(args, "Rank order", dataExportTag => rankOrderPayload({ ...args, dataExportTag }), {
+        itemCount: args.items.length,
+      });
+    })
+  );
 
-      const result = await surveyApi.createQuestion(args.surveyId, args.blockId, questionData);
-      return toolSuccess({
-        success: true,
-        surveyId: args.surveyId,
-        blockId: args.blockId,
-        questionId: result.result.QuestionID,
-        questionType: "Matrix (Likert)",
+  // Add side-by-side question (simplified)
+  server.tool(
+    "add_side_by_side_question",
+    "Simplified helper to create a side-by-side question (SBS): shared statement rows, with several columns that each have their own scale or a text box.",
+    {
+      surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
+      blockId: z.string().min(1).describe("The block ID to add the question to"),
+      questionText: z.string().min(1).describe("The question text"),
+      statements: z.array(z.string()).min(1).describe("Row labels shared by every column"),
+      columns: z.array(z.object({
+        label: z.string().min(1).describe("Column heading"),
+        answerType: z.enum(["single", "multiple", "text"]).describe("Single answer, multiple answer, or a short text box per row"),
+        scalePoints: z.array(z.string()).optional().describe("Scale point labels (required unless answerType is text, minimum 2)"),
+      })).min(1).describe("Columns, left to right"),
+      forceResponse: z.boolean().optional().describe("Require a response in every column (default: false)"),
+      ...EXPORT_TAG_PARAMS,
+    },
+    withErrorHandling("add_side_by_side_question", async (args) => {
+      return addQuestion(args, "Side-by-side", dataExportTag => sideBySidePayload({ ...args, dataExportTag }), {
         statementCount: args.statements.length,
-        scalePointCount: args.scalePoints.length,
-        message: "Matrix question created successfully",
+        columnCount: args.columns.length,
+      });
+    })
+  );
+
+  // Add net promoter score question (simplified)
+  server.tool(
+    "add_nps_question",
+    "Simplified helper to create a net promoter score question (MC/NPS) with the 0-10 scale. Choices are keyed by their value.",
+    {
+      surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
+      blockId: z.string().min(1).describe("The block ID to add the question to"),
+      questionText: z.string().min(1).describe("The question text (e.g., 'How likely are you to recommend us to a friend?')"),
+      lowLabel: z.string().optional().describe("Label under 0 (default: 'Not at all likely')"),
+      highLabel: z.string().optional().describe("Label under 10 (default: 'Extremely likely')"),
+      forceResponse: z.boolean().optional().describe(FORCE_RESPONSE_DESC),
+      ...EXPORT_TAG_PARAMS,
+    },
+    withErrorHandling("add_nps_question", async (args) => {
+      return addQuestion(args, "Net promoter score", dataExportTag => npsPayload({ ...args, dataExportTag }));
+    })
+  );
+
+  // Add drill-down question (simplified)
+  server.tool(
+    "add_drill_down_question",
+    "Simplified helper to create a drill-down question (DD): one dropdown per level, each narrowed by the answer above it (e.g., country > region > city).",
+    {
+      surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
+      blockId: z.string().min(1).describe("The block ID to add the question to"),
+      questionText: z.string().min(1).describe("The question text"),
+      levels: z.array(z.string()).min(2).describe("Dropdown labels, top level first (e.g., ['Make', 'Model'])"),
+      options: z.array(DRILL_DOWN_OPTION).min(1).describe("Top-level options, each with its options for the next level; every path must reach the last level"),
+      forceResponse: z.boolean().optional().describe(FORCE_RESPONSE_DESC),
+      ...EXPORT_TAG_PARAMS,
+    },
+    withErrorHandling("add_drill_down_question", async (args) => {
+      return addQuestion(args, "Drill-down", dataExportTag => drillDownPayload({ ...args, dataExportTag }), {
+        levels: args.levels,
+      });
+    })
+  );
+
+  // Add heat map question (simplified)
+  server.tool(
+    "add_heat_map_question",
+    "Simplified helper to create a heat map question (HeatMap) where respondents click on an image. Optional named regions are reported in the results.",
+    {
+      surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
+      blockId: z.string().min(1).describe("The block ID to add the question to"),
+      questionText: z.string().min(1).describe("The question text"),
+      imageUrl: z.string().url().describe("URL of the image (e.g., a graphic from the Qualtrics library)"),
+      maxClicks: z.number().int().optional().describe("Clicks each respondent may make (default: 1)"),
+      regions: z.array(z.object({
+        label: z.string().min(1),
+        x: z.number().min(0).describe("Left edge in pixels"),
+        y: z.number().min(0).describe("Top edge in pixels"),
+        width: z.number().describe("Width in pixels"),
+        height: z.number().describe("Height in pixels"),
+      })).optional().describe("Rectangular regions to report clicks by"),
+      forceResponse: z.boolean().optional().describe(FORCE_RESPONSE_DESC),
+      ...EXPORT_TAG_PARAMS,
+    },
+    withErrorHandling("add_heat_map_question", async (args) => {
+      return addQuestion(args, "Heat map", dataExportTag => heatMapPayload({ ...args, dataExportTag }), {
+        regionCount: args.regions?.length ?? 0,
+      });
+    })
+  );
+
+  // Add file upload question (simplified)
+  server.tool(
+    "add_file_upload_question",
+    "Simplified helper to create a file upload question (FileUpload).",
+    {
+      surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
+      blockId: z.string().min(1).describe("The block ID to add the question to"),
+      questionText: z.string().min(1).describe("The question text"),
+      forceResponse: z.boolean().optional().describe(FORCE_RESPONSE_DESC),
+      ...EXPORT_TAG_PARAMS,
+    },
+    withErrorHandling("add_file_upload_question", async (args) => {
+      return addQuestion(args, "File upload", dataExportTag => fileUploadPayload({ ...args, dataExportTag }));
+    })
+  );
+
+  // Add signature question (simplified)
+  server.tool(
+    "add_signature_question",
+    "Simplified helper to create a signature question (Draw/Signature), e.g. for consent forms.",
+    {
+      surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
+      blockId: z.string().min(1).describe("The block ID to add the question to"),
+      questionText: z.string().min(1).describe("The question text"),
+      forceResponse: z.boolean().optional().describe(FORCE_RESPONSE_DESC),
+      ...EXPORT_TAG_PARAMS,
+    },
+    withErrorHandling("add_signature_question", async (args) => {
+      return addQuestion(args, "Signature", dataExportTag => signaturePayload({ ...args, dataExportTag }));
+    })
+  );
+
+  // Add timing question (simplified)
+  server.tool(
+    "add_timing_question",
+    "Simplified helper to add a page timer (Timing/PageTimer) that records first click, last click, page submit and click count for its page. It is hidden from respondents.",
+    {
+      surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
+      blockId: z.string().min(1).describe("The block ID to add the question to"),
+      questionText: z.string().optional().describe("Name shown in the editor (default: 'Timing')"),
+      minSeconds: z.number().optional().describe("Hide the next button for this many seconds"),
+      autoAdvanceSeconds: z.number().optional().describe("Submit the page automatically after this many seconds"),
+      ...EXPORT_TAG_PARAMS,
+    },
+    withErrorHandling("add_timing_question", async (args) => {
+      return addQuestion(args, "Timing", dataExportTag => timingPayload({ ...args, dataExportTag }));
+    })
+  );
+
+  // Add form fields question (simplified)
+  server.tool(
+    "add_form_fields_question",
+    "Simplified helper to create a form of labelled text fields (TE/FORM), e.g. name, email and phone.",
+    {
+      surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
+      blockId: z.string().min(1).describe("The block ID to add the question to"),
+      questionText: z.string().min(1).describe("The question text"),
+      fields: z.array(z.string()).min(1).describe("Field labels, top to bottom"),
+      forceResponse: z.boolean().optional().describe("Require every field (default: false)"),
+      ...EXPORT_TAG_PARAMS,
+    },
+    withErrorHandling("add_form_fields_question", async (args) => {
+      return addQuestion(args, "Form fields", dataExportTag => formFieldsPayload({ ...args, dataExportTag }), {
+        fieldCount: args.fields.length,
       });
     })
   );
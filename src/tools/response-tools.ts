@@ -2,9 +2,256 @@ import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { QualtricsClient } from "../services/qualtrics-client.js";
 import { ResponseApi } from "../services/response-api.js";
+import { ExportJob, ExportJobManager } from "../services/export-job-manager.js";
+import { QualtricsExportFailedError } from "../services/qualtrics-errors.js";
 import { QualtricsConfig } from "../config/settings.js";
-import { toolSuccess, withErrorHandling } from "./_helpers.js";
-import { saveExportToFile } from "../utils/file-save.js";
+import type { ExportFormatOptions, SurveyDefinition, ToolResult } from "../types/index.js";
+import { isBinaryExportFormat, StreamedExport, supportsRowFilter } from "../utils/file-save.js";
+import { parseResponseFilter } from "../utils/response-filter.js";
+import { buildCodebook } from "../utils/codebook.js";
+import { LoaderLanguage, writeLoaderScripts } from "../utils/loader-scripts.js";
+import { describeError, toolError, toolErrorFromException, toolSuccess, withErrorHandling } from "./_helpers.js";
+
+const EXPORT_FORMATS = ["json", "csv", "tsv", "spss", "xml", "ndjson"] as const;
+
+const FORMAT_SCHEMA = z.enum(EXPORT_FORMATS).optional().describe(
+  "Export format (default: json). 'spss' produces a binary .sav file; 'ndjson' is converted locally from JSON with one response per line for streaming into pipelines."
+);
+
+/** Qualtrics format-specific export options, shared by both export tools. */
+const FORMAT_OPTIONS_SHAPE = {
+  seenUnansweredRecode: z.number().int().optional().describe("Recode value for questions that were seen but not answered"),
+  multiselectSeenUnansweredRecode: z.number().int().optional().describe("Recode value for unselected choices of seen multi-select questions (defaults to seenUnansweredRecode)"),
+  newlineReplacement: z.string().optional().describe("String to replace newlines in text responses with (CSV/TSV/SPSS)"),
+  breakoutSets: z.boolean().optional().describe("Split multi-value fields into one column per choice (default: true)"),
+  timeZone: z.string().optional().describe("IANA time zone for date fields in the export (e.g. 'America/New_York'; default: UTC)"),
+  includeLabelColumns: z.boolean().optional().describe("Include a label column alongside each recode value column (CSV/TSV)"),
+};
+
+const LOADER_SCRIPTS_SCHEMA = z.enum(["r", "python", "both"]).optional().describe(
+  "Also write a companion load_<survey>.R and/or .py script next to the saved CSV/TSV that skips the extra header rows, applies choice labels as factor/category levels, sets variable labels and parses dates. Forces the export to be saved to disk."
+);
+
+type LoaderScripts = "r" | "python" | "both";
+
+function collectFormatOptions(args: ExportFormatOptions): ExportFormatOptions {
+  const options: ExportFormatOptions = {};
+  if (args.seenUnansweredRecode !== undefined) options.seenUnansweredRecode = args.seenUnansweredRecode;
+  if (args.multiselectSeenUnansweredRecode !== undefined) options.multiselectSeenUnansweredRecode = args.multiselectSeenUnansweredRecode;
+  if (args.newlineReplacement !== undefined) options.newlineReplacement = args.newlineReplacement;
+  if (args.breakoutSets !== undefined) options.breakoutSets = args.breakoutSets;
+  if (args.timeZone !== undefined) options.timeZone = args.timeZone;
+  if (args.includeLabelColumns !== undefined) options.includeLabelColumns = args.includeLabelColumns;
+  return options;
+}
+
+interface ExportRequest {
+  tool: string;
+  /** "export" or "filtered export", used in user-facing messages */
+  label: string;
+  surveyId: string;
+  format: string;
+  filters?: Record<string, any>;
+  /** Local row filter expression, see utils/response-filter.ts */
+  where?: string;
+  saveToFile?: string;
+  suffix?: string;
+  loaderScripts?: LoaderScripts;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/** Reports how many rows a local row filter kept, so filtered results are never mistaken for the full dataset. */
+function filterSummary(saved: StreamedExport): Record<string, any> {
+  if (!saved.filter) return {};
+  const { totalRows, matchedRows, unresolvedFields } = saved.filter;
+  return {
+    rowFilter: {
+      matchedRows,
+      totalRows,
+      ...(unresolvedFields.length > 0 ? {
+        unresolvedFields,
+        warning: `These fields were not found in any response: ${unresolvedFields.join(", ")}. Check the question IDs, export tags or embedded data names.`,
+      } : {}),
+    },
+  };
+}
+
+function checkLoaderScripts(loaderScripts: LoaderScripts | undefined, format: string): string | null {
+  if (loaderScripts && format !== "csv" && format !== "tsv") {
+    return `Loader scripts read CSV or TSV exports, not ${format}. Export with format 'csv' or 'tsv' to get a load script.`;
+  }
+  return null;
+}
+
+/**
+ * Writes R/Python loader scripts for a saved export. Failures are reported rather than
+ * thrown, since the export itself already succeeded.
+ */
+async function companionScripts(
+  client: QualtricsClient,
+  surveyId: string,
+  filePath: string,
+  loaderScripts: LoaderScripts | undefined,
+  format: string,
+  filters?: Record<string, any>
+): Promise<Record<string, any>> {
+  if (!loaderScripts) return {};
+  const languages: LoaderLanguage[] = loaderScripts === "both" ? ["r", "python"] : [loaderScripts];
+  try {
+    const definition = await client.getSurveyDefinition(surveyId);
+    const scripts = await writeLoaderScripts(buildCodebook(definition.result as SurveyDefinition), filePath, languages, {
+      format,
+      useLabels: filters?.useLabels,
+      timeZone: filters?.timeZone,
+    });
+    return { loaderScripts: scripts };
+  } catch (error) {
+    return { loaderScriptsError: describeError(error) };
+  }
+}
+
+/** Reads a small auto-saved export back for inline return and removes the temporary file. */
+async function readAndRemove(filePath: string): Promise<string> {
+  const fs = await import("fs/promises");
+  const fileData = await fs.readFile(filePath, "utf8");
+  await fs.rm(filePath, { force: true });
+  return fileData;
+}
+
+/** Downloads a completed job and either reports the saved file or returns small exports inline. */
+async function finishExport(
+  client: QualtricsClient,
+  exportJobs: ExportJobManager,
+  job: ExportJob,
+  request: ExportRequest
+): Promise<ToolResult> {
+  const saved = await exportJobs.download(job.progressId, {
+    saveToFile: request.saveToFile,
+    suffix: request.suffix,
+  });
+  const metadata = { progressId: job.progressId, fileId: job.fileId };
+
+  if (request.saveToFile || saved.wasAutoSaved || isBinaryExportFormat(request.format) || request.loaderScripts) {
+    const message = saved.wasAutoSaved
+      ? `Large ${request.label} (${saved.fileSizeMB}MB) automatically saved to avoid context limits. File location: ${saved.filePath}`
+      : `${capitalize(request.label)} saved to ${saved.filePath}`;
+
+    return toolSuccess({
+      status: "completed",
+      format: request.format,
+      ...(request.filters ? { filters: request.filters } : {}),
+      savedToFile: saved.filePath,
+      fileSize: saved.fileSizeBytes,
+      fileSizeMB: saved.fileSizeMB,
+      rowCount: saved.rowCount,
+      ...filterSummary(saved),
+      ...await companionScripts(client, request.surveyId, saved.filePath, request.loaderScripts, request.format, request.filters),
+      wasAutoSaved: saved.wasAutoSaved,
+      message,
+      instructions: `The ${request.label} file is now available at: ${saved.filePath}\n\nTo analyze this data:\n1. Navigate to your Downloads folder\n2. Open the file in your preferred tool (Excel, R, Python, etc.)\n3. Or drag and drop it into a data analysis application\n\nThe file is ready for immediate use!`,
+      metadata,
+    });
+  }
+
+  const fileData = await readAndRemove(saved.filePath);
+  return toolSuccess({
+    status: "completed",
+    format: request.format,
+    ...(request.filters ? { filters: request.filters } : {}),
+    fileSize: saved.fileSizeBytes,
+    fileSizeMB: saved.fileSizeMB,
+    rowCount: saved.rowCount,
+    ...filterSummary(saved),
+    data: request.format === "json" ? JSON.parse(fileData) : fileData,
+    message: `Small ${request.label} (${saved.fileSizeMB}MB) returned directly`,
+    tip: "For larger exports, consider using the 'saveToFile' parameter to save directly to your Downloads folder for easier analysis.",
+    metadata,
+  });
+}
+
+/**
+ * Runs an export to completion. If the requested export fails, a CSV export with
+ * `fallbackFilters` is attempted once before giving up.
+ */
+async function runExport(
+  client: QualtricsClient,
+  exportJobs: ExportJobManager,
+  request: ExportRequest,
+  waitForCompletion: boolean,
+  fallbackFilters?: Record<string, any>
+): Promise<ToolResult> {
+  try {
+    const job = await exportJobs.start(request.surveyId, request.format, request.filters, request.where);
+
+    if (!waitForCompletion) {
+      return toolSuccess({
+        status: "started",
+        progressId: job.progressId,
+        ...(request.filters ? { filters: request.filters } : {}),
+        message: `${capitalize(request.label)} started. Use check_export_status to monitor progress and download the file when complete.`,
+      });
+    }
+
+    const finished = await exportJobs.waitForCompletion(job.progressId);
+    if (finished.status === "complete") {
+      return await finishExport(client, exportJobs, finished, request);
+    }
+
+    return toolSuccess({
+      status: finished.status === "cancelled" ? "cancelled" : "timeout",
+      progressId: job.progressId,
+      percentComplete: finished.percentComplete,
+      ...(request.filters ? { filters: request.filters } : {}),
+      message: finished.status === "cancelled"
+        ? "Export was cancelled."
+        : "Export is taking longer than expected. Use check_export_status with download=true to save it once it finishes.",
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    try {
+      const fallbackJob = await exportJobs.start(request.surveyId, "csv", fallbackFilters, request.where);
+      const finished = await exportJobs.waitForCompletion(fallbackJob.progressId);
+
+      if (finished.status === "complete") {
+        const saved = await exportJobs.download(finished.progressId, { suffix: request.suffix });
+        return toolSuccess({
+          status: "completed_via_fallback",
+          originalError: errorMessage,
+          format: "csv",
+          ...(fallbackFilters ? { appliedFilters: fallbackFilters } : {}),
+          savedToFile: saved.filePath,
+          fileSize: saved.fileSizeBytes,
+          rowCount: saved.rowCount,
+          ...filterSummary(saved),
+          ...await companionScripts(client, request.surveyId, saved.filePath, request.loaderScripts, "csv", fallbackFilters),
+          message: `Original ${request.label} failed, but CSV export${fallbackFilters ? " with basic filters" : ""} succeeded and was saved to: ${saved.filePath}`,
+          metadata: { fallbackProgressId: finished.progressId, fileId: finished.fileId },
+        });
+      }
+
+      return toolSuccess({
+        status: "fallback_timeout",
+        originalError: errorMessage,
+        progressId: finished.progressId,
+        ...(fallbackFilters ? { appliedFilters: fallbackFilters } : {}),
+        message: `Both original ${request.label} and CSV fallback are taking longer than expected. Use check_export_status to monitor the CSV export progress.`,
+      });
+    } catch (fallbackError) {
+      const helpText = errorMessage.toLowerCase().includes("timeout") || errorMessage.toLowerCase().includes("too large")
+        ? "CSV fallback also failed. TIP: Try using 'export_responses_filtered' with date ranges, specific questions, or completion filters to reduce file size."
+        : "CSV fallback also failed. You may need to log into Qualtrics directly to export manually if the issue persists.";
+
+      return toolErrorFromException(request.tool, error, {
+        fallbackError: describeError(fallbackError),
+        suggestion: helpText,
+      });
+    }
+  }
+}
 
 export function registerResponseTools(
   server: McpServer,
@@ -12,150 +259,110 @@ export function registerResponseTools(
   config: QualtricsConfig
 ) {
   const responseApi = new ResponseApi(client);
+  const exportJobs = ExportJobManager.forClient(client);
 
   // Export responses tool
   server.tool(
     "export_responses",
-    "Export survey responses in JSON or CSV format. IMPORTANT: This tool will automatically save large exports to a local file to avoid context limits. Small exports may be returned directly. For better control over data size, consider using 'export_responses_filtered' with date ranges, specific questions, or completion filters.",
+    "Export survey responses in JSON, CSV, TSV, SPSS (.sav), XML or NDJSON format. IMPORTANT: This tool will automatically save large exports to a local file to avoid context limits. Small exports may be returned directly. For better control over data size, consider using 'export_responses_filtered' with date ranges, specific questions, or completion filters.",
     {
       surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
-      format: z.enum(["json", "csv"]).optional().describe("Export format (default: json)"),
+      format: FORMAT_SCHEMA,
       waitForCompletion: z.boolean().optional().describe("Wait for export to complete before returning (default: true)"),
       saveToFile: z.string().optional().describe("RECOMMENDED: Specify a filename (e.g. 'survey_data.csv') to save the export to your Downloads folder. The tool will provide the full file path for easy access. If omitted, large files will be auto-saved with a timestamp."),
+      loaderScripts: LOADER_SCRIPTS_SCHEMA,
+      ...FORMAT_OPTIONS_SHAPE,
     },
-    async (args) => {
-      try {
-        const exportJob = await client.startResponseExport(args.surveyId, args.format ?? "json");
-        const progressId = exportJob.result.progressId;
-
-        if (!args.waitForCompletion) {
-          return toolSuccess({
-            status: "started",
-            progressId,
-            message: "Export started. Use check_export_status to monitor progress.",
-          });
-        }
-
-        let attempts = 0;
-        const maxAttempts = 30;
-
-        while (attempts < maxAttempts) {
-          await new Promise(resolve => setTimeout(resolve, 10000));
-          const progress = await client.getResponseExportProgress(args.surveyId, progressId);
-
-          if (progress.result.percentComplete === 100) {
-            const fileData = await client.downloadResponseExportFile(args.surveyId, progress.result.fileId);
-            const fileSizeBytes = Buffer.byteLength(fileData, "utf8");
-            const fileSizeMB = (fileSizeBytes / (1024 * 1024)).toFixed(2);
-            const isLargeFile = fileSizeBytes > 100 * 1024;
-
-            if (args.saveToFile || isLargeFile) {
-              const saved = await saveExportToFile(fileData, args.surveyId, args.format ?? "json", args.saveToFile);
-              const message = saved.wasAutoSaved
-                ? `Large export (${saved.fileSizeMB}MB) automatically saved to avoid context limits. File location: ${saved.filePath}`
-                : `Export saved to ${saved.filePath}`;
-
-              return toolSuccess({
-                status: "completed",
-                format: args.format,
-                savedToFile: saved.filePath,
-                fileSize: saved.fileSizeBytes,
-                fileSizeMB: saved.fileSizeMB,
-                wasAutoSaved: saved.wasAutoSaved,
-                message,
-                instructions: `The export file is now available at: ${saved.filePath}\n\nTo analyze this data:\n1. Navigate to your Downloads folder\n2. Open the file in your preferred tool (Excel, R, Python, etc.)\n3. Or drag and drop it into a data analysis application\n\nThe file is ready for immediate use!`,
-                metadata: { progressId, fileId: progress.result.fileId },
-              });
-            } else {
-              return toolSuccess({
-                status: "completed",
-                format: args.format,
-                fileSize: fileSizeBytes,
-                fileSizeMB,
-                data: args.format === "json" ? JSON.parse(fileData) : fileData,
-                message: `Small export (${fileSizeMB}MB) returned directly`,
-                tip: "For larger exports, consider using the 'saveToFile' parameter to save directly to your Downloads folder for easier analysis.",
-                metadata: { progressId, fileId: progress.result.fileId },
-              });
-            }
-          }
-          attempts++;
-        }
-
-        return toolSuccess({
-          status: "timeout",
-          progressId,
-          message: "Export is taking longer than expected. Use check_export_status to monitor.",
-        });
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-
-        try {
-          const fallbackJob = await client.startResponseExport(args.surveyId, "csv");
-          const fallbackProgressId = fallbackJob.result.progressId;
-
-          let attempts = 0;
-          const maxAttempts = 30;
-
-          while (attempts < maxAttempts) {
-            await new Promise(resolve => setTimeout(resolve, 10000));
-            const progress = await client.getResponseExportProgress(args.surveyId, fallbackProgressId);
-
-            if (progress.result.percentComplete === 100) {
-              const fileData = await client.downloadResponseExportFile(args.surveyId, progress.result.fileId);
-              const saved = await saveExportToFile(fileData, args.surveyId, "csv");
-
-              return toolSuccess({
-                status: "completed_via_fallback",
-                originalError: errorMessage,
-                format: "csv",
-                savedToFile: saved.filePath,
-                fileSize: saved.fileSizeBytes,
-                message: `Original export failed, but CSV export succeeded and was saved to: ${saved.filePath}`,
-                metadata: { fallbackProgressId, fileId: progress.result.fileId },
-              });
-            }
-            attempts++;
-          }
-
-          return toolSuccess({
-            status: "fallback_timeout",
-            originalError: errorMessage,
-            progressId: fallbackProgressId,
-            message: "Both original export and CSV fallback are taking longer than expected. Use check_export_status to monitor the CSV export progress.",
-          });
-        } catch (fallbackError) {
-          const fallbackErrorMessage = fallbackError instanceof Error ? fallbackError.message : String(fallbackError);
-          const helpText = errorMessage.toLowerCase().includes("timeout") || errorMessage.toLowerCase().includes("too large")
-            ? " TIP: Try using 'export_responses_filtered' with date ranges, specific questions, or completion filters to reduce file size."
-            : " You may need to log into Qualtrics directly to export manually if the issue persists.";
-
-          return {
-            content: [{ type: "text" as const, text: `Error exporting responses: ${errorMessage}. CSV fallback also failed: ${fallbackErrorMessage}.${helpText}` }],
-            isError: true,
-          };
-        }
-      }
-    }
+    withErrorHandling("export_responses", async (args) => {
+      const loaderError = checkLoaderScripts(args.loaderScripts, args.format ?? "json");
+      if (loaderError) return toolError(loaderError);
+
+      const options = collectFormatOptions(args);
+      return runExport(client, exportJobs, {
+        tool: "export_responses",
+        label: "export",
+        surveyId: args.surveyId,
+        format: args.format ?? "json",
+        filters: Object.keys(options).length > 0 ? options : undefined,
+        saveToFile: args.saveToFile,
+        loaderScripts: args.loaderScripts,
+      }, args.waitForCompletion ?? true);
+    })
   );
 
   // Check export status tool
   server.tool(
     "check_export_status",
-    "Check the status of a response export job",
+    "Check the status of a response export job. Set download=true to save a finished export to disk.",
     {
       surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
       exportProgressId: z.string().min(1).describe("The export progress ID returned from export_responses"),
+      download: z.boolean().optional().describe("If the export is complete, download and save it (default: false)"),
+      saveToFile: z.string().optional().describe("Filename or absolute path for the download (default: auto-named in Downloads)"),
+      format: z.enum(EXPORT_FORMATS).optional().describe("Format the export was started with, needed only for jobs started before a server restart (default: json)"),
+      loaderScripts: LOADER_SCRIPTS_SCHEMA,
     },
     withErrorHandling("check_export_status", async (args) => {
-      const progress = await client.getResponseExportProgress(args.surveyId, args.exportProgressId);
+      const job = await exportJobs.poll(args.exportProgressId, args.surveyId, args.format);
 
-      return toolSuccess({
+      const status = {
         progressId: args.exportProgressId,
-        percentComplete: progress.result.percentComplete,
-        status: progress.result.status,
-        isComplete: progress.result.percentComplete === 100,
-        fileId: progress.result.fileId || null,
+        percentComplete: job.percentComplete,
+        status: job.status,
+        isComplete: job.status === "complete",
+        fileId: job.fileId || null,
+      };
+
+      if (job.status === "failed") {
+        const failure = new QualtricsExportFailedError(`Export job ${args.exportProgressId} failed on the Qualtrics side`, {
+          hint: "Start a new export, or reduce its size with export_responses_filtered.",
+        });
+        return toolErrorFromException("check_export_status", failure, status);
+      }
+
+      if (!args.download || job.status !== "complete") {
+        return toolSuccess(status);
+      }
+
+      const loaderError = checkLoaderScripts(args.loaderScripts, job.format);
+      if (loaderError) return toolError(loaderError);
+
+      const saved = job.savedFile && !args.saveToFile
+        ? job.savedFile
+        : await exportJobs.download(args.exportProgressId, { saveToFile: args.saveToFile });
+
+      return toolSuccess({
+        ...status,
+        savedToFile: saved.filePath,
+        fileSize: saved.fileSizeBytes,
+        fileSizeMB: saved.fileSizeMB,
+        rowCount: saved.rowCount,
+        ...filterSummary(saved),
+        ...await companionScripts(client, args.surveyId, saved.filePath, args.loaderScripts, job.format, job.filters),
+        message: `Export saved to ${saved.filePath}`,
+      });
+    })
+  );
+
+  // Cancel export tool
+  server.tool(
+    "cancel_export",
+    "Stop waiting on a response export job. Qualtrics has no cancel endpoint, so the job may still finish server-side, but it will no longer be downloaded by waiting tool calls.",
+    {
+      exportProgressId: z.string().min(1).describe("The export progress ID to cancel"),
+    },
+    withErrorHandling("cancel_export", async (args) => {
+      const job = exportJobs.cancel(args.exportProgressId);
+      if (!job) {
+        return toolError(`No export job with progress ID ${args.exportProgressId} is being tracked.`);
+      }
+
+      return toolSuccess({
+        progressId: job.progressId,
+        status: job.status,
+        message: job.status === "cancelled"
+          ? "Export job cancelled"
+          : `Export job already finished with status "${job.status}"`,
       });
     })
   );
@@ -163,10 +370,10 @@ export function registerResponseTools(
   // Filtered export responses tool
   server.tool(
     "export_responses_filtered",
-    "Export survey responses with filters to reduce data size. RECOMMENDED for large surveys or when analyzing specific subsets. Use date filters, question selection, or completion status to create manageable datasets for analysis. Large exports will be automatically saved to your Downloads folder.",
+    "Export survey responses with filters to reduce data size. RECOMMENDED for large surveys or when analyzing specific subsets. Use date filters, question selection, or completion status to create manageable datasets for analysis. Filter rows by answers or embedded data with a saved Qualtrics filter (filterId) or a 'where' expression applied locally after download; the result reports matched vs total rows. Large exports will be automatically saved to your Downloads folder.",
     {
       surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
-      format: z.enum(["json", "csv"]).optional().describe("Export format (default: json)"),
+      format: FORMAT_SCHEMA,
       waitForCompletion: z.boolean().optional().describe("Wait for export to complete before returning (default: true)"),
       saveToFile: z.string().optional().describe("RECOMMENDED: Specify a filename (e.g. 'filtered_survey.csv') to save the export to your Downloads folder."),
       startDate: z.string().optional().describe("Start date filter (ISO format: YYYY-MM-DD or YYYY-MM-DDTHH:MM:SSZ)"),
@@ -176,149 +383,56 @@ export function registerResponseTools(
       useLabels: z.boolean().optional().describe("Use choice labels instead of values (default: false)"),
       questionIds: z.array(z.string()).optional().describe("Specific question IDs to include (export only these questions) - HIGHLY RECOMMENDED for large surveys to reduce file size"),
       embeddedDataIds: z.array(z.string()).optional().describe("Specific embedded data fields to include - helps reduce unnecessary metadata"),
+      filterId: z.string().optional().describe("ID of a filter saved on the survey in Qualtrics, applied server-side"),
+      loaderScripts: LOADER_SCRIPTS_SCHEMA,
+      where: z.string().optional().describe("Row filter applied locally after download (json, ndjson, csv, tsv), e.g. 'Finished = 1 and Duration > 120', 'Condition = \"treatment\"', 'QID3 in (1, 2)', 'QID5_TEXT contains refund', 'QID7 is not empty'. Combine with and/or/not and parentheses; fields are question IDs, export tags, embedded data or metadata (case-insensitive); wrap names with spaces in backticks."),
+      ...FORMAT_OPTIONS_SHAPE,
     },
-    async (args) => {
-      try {
-        const filters: any = {};
-        if (args.startDate) filters.startDate = args.startDate;
-        if (args.endDate) filters.endDate = args.endDate;
-        if (args.filterType && args.filterType !== "all") {
-          filters.filterType = args.filterType === "complete" ? "finished" : "unfinished";
-        }
-        if (args.includeDisplayOrder !== undefined) filters.includeDisplayOrder = args.includeDisplayOrder;
-        if (args.useLabels !== undefined) filters.useLabels = args.useLabels;
-        if (args.questionIds && args.questionIds.length > 0) filters.questionIds = args.questionIds;
-        if (args.embeddedDataIds && args.embeddedDataIds.length > 0) filters.embeddedDataIds = args.embeddedDataIds;
-
-        const exportJob = await client.startResponseExport(
-          args.surveyId,
-          args.format ?? "json",
-          Object.keys(filters).length > 0 ? filters : undefined
-        );
-        const progressId = exportJob.result.progressId;
-
-        if (!args.waitForCompletion) {
-          return toolSuccess({
-            status: "started",
-            progressId,
-            filters,
-            message: "Filtered export started. Use check_export_status to monitor progress.",
-          });
-        }
-
-        let attempts = 0;
-        const maxAttempts = 30;
-
-        while (attempts < maxAttempts) {
-          await new Promise(resolve => setTimeout(resolve, 10000));
-          const progress = await client.getResponseExportProgress(args.surveyId, progressId);
-
-          if (progress.result.percentComplete === 100) {
-            const fileData = await client.downloadResponseExportFile(args.surveyId, progress.result.fileId);
-            const fileSizeBytes = Buffer.byteLength(fileData, "utf8");
-            const fileSizeMB = (fileSizeBytes / (1024 * 1024)).toFixed(2);
-            const isLargeFile = fileSizeBytes > 100 * 1024;
-
-            if (args.saveToFile || isLargeFile) {
-              const saved = await saveExportToFile(fileData, args.surveyId, args.format ?? "json", args.saveToFile, "filtered");
-              const message = saved.wasAutoSaved
-                ? `Large filtered export (${saved.fileSizeMB}MB) automatically saved to avoid context limits. File location: ${saved.filePath}`
-                : `Filtered export saved to ${saved.filePath}`;
-
-              return toolSuccess({
-                status: "completed",
-                format: args.format,
-                filters,
-                savedToFile: saved.filePath,
-                fileSize: saved.fileSizeBytes,
-                fileSizeMB: saved.fileSizeMB,
-                wasAutoSaved: saved.wasAutoSaved,
-                message,
-                instructions: `The filtered export file is now available at: ${saved.filePath}\n\nTo analyze this data:\n1. Navigate to your Downloads folder\n2. Open the file in your preferred tool (Excel, R, Python, etc.)\n3. Or drag and drop it into a data analysis application\n\nThe file is ready for immediate use!`,
-                metadata: { progressId, fileId: progress.result.fileId },
-              });
-            } else {
-              return toolSuccess({
-                status: "completed",
-                format: args.format,
-                filters,
-                fileSize: fileSizeBytes,
-                fileSizeMB,
-                data: args.format === "json" ? JSON.parse(fileData) : fileData,
-                message: `Small filtered export (${fileSizeMB}MB) returned directly`,
-                tip: "For larger exports, consider using the 'saveToFile' parameter to save directly to your Downloads folder for easier analysis.",
-                metadata: { progressId, fileId: progress.result.fileId },
-              });
-            }
-          }
-          attempts++;
+    withErrorHandling("export_responses_filtered", async (args) => {
+      const format = args.format ?? "json";
+      const loaderError = checkLoaderScripts(args.loaderScripts, format);
+      if (loaderError) return toolError(loaderError);
+      if (args.where) {
+        if (!supportsRowFilter(format)) {
+          return toolError(`The 'where' filter is applied locally and supports json, ndjson, csv and tsv exports, not ${format}. Use filterId for a server-side filter instead.`);
         }
-
-        return toolSuccess({
-          status: "timeout",
-          progressId,
-          filters,
-          message: "Export is taking longer than expected. Use check_export_status to monitor.",
-        });
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-
         try {
-          const fallbackFilters: any = {};
-          if (args.startDate) fallbackFilters.startDate = args.startDate;
-          if (args.endDate) fallbackFilters.endDate = args.endDate;
-          if (args.filterType && args.filterType !== "all") {
-            fallbackFilters.filterType = args.filterType === "complete" ? "finished" : "unfinished";
-          }
-
-          const fallbackJob = await client.startResponseExport(
-            args.surveyId,
-            "csv",
-            Object.keys(fallbackFilters).length > 0 ? fallbackFilters : undefined
-          );
-          const fallbackProgressId = fallbackJob.result.progressId;
-
-          let attempts = 0;
-          const maxAttempts = 30;
-
-          while (attempts < maxAttempts) {
-            await new Promise(resolve => setTimeout(resolve, 10000));
-            const progress = await client.getResponseExportProgress(args.surveyId, fallbackProgressId);
-
-            if (progress.result.percentComplete === 100) {
-              const fileData = await client.downloadResponseExportFile(args.surveyId, progress.result.fileId);
-              const saved = await saveExportToFile(fileData, args.surveyId, "csv", undefined, "filtered");
-
-              return toolSuccess({
-                status: "completed_via_fallback",
-                originalError: errorMessage,
-                format: "csv",
-                appliedFilters: fallbackFilters,
-                savedToFile: saved.filePath,
-                fileSize: saved.fileSizeBytes,
-                message: `Original filtered export failed, but CSV export with basic filters succeeded and was saved to: ${saved.filePath}`,
-                metadata: { fallbackProgressId, fileId: progress.result.fileId },
-              });
-            }
-            attempts++;
-          }
-
-          return toolSuccess({
-            status: "fallback_timeout",
-            originalError: errorMessage,
-            progressId: fallbackProgressId,
-            appliedFilters: fallbackFilters,
-            message: "Both original filtered export and CSV fallback are taking longer than expected. Use check_export_status to monitor the CSV export progress.",
-          });
-        } catch (fallbackError) {
-          const fallbackErrorMessage = fallbackError instanceof Error ? fallbackError.message : String(fallbackError);
-          return {
-            content: [{ type: "text" as const, text: `Error exporting filtered responses: ${errorMessage}. CSV fallback also failed: ${fallbackErrorMessage}. You may need to log into Qualtrics directly to export manually if the issue persists.` }],
-            isError: true,
-          };
+          parseResponseFilter(args.where);
+        } catch (error) {
+          return toolErrorFromException("export_responses_filtered", error, { where: args.where });
         }
       }
-    }
+
+      const filters: any = collectFormatOptions(args);
+      if (args.startDate) filters.startDate = args.startDate;
+      if (args.endDate) filters.endDate = args.endDate;
+      if (args.filterType && args.filterType !== "all") {
+        filters.filterType = args.filterType === "complete" ? "finished" : "unfinished";
+      }
+      if (args.includeDisplayOrder !== undefined) filters.includeDisplayOrder = args.includeDisplayOrder;
+      if (args.useLabels !== undefined) filters.useLabels = args.useLabels;
+      if (args.questionIds && args.questionIds.length > 0) filters.questionIds = args.questionIds;
+      if (args.embeddedDataIds && args.embeddedDataIds.length > 0) filters.embeddedDataIds = args.embeddedDataIds;
+      if (args.filterId) filters.filterId = args.filterId;
+
+      const fallbackFilters: any = {};
+      if (filters.startDate) fallbackFilters.startDate = filters.startDate;
+      if (filters.endDate) fallbackFilters.endDate = filters.endDate;
+      if (filters.filterType) fallbackFilters.filterType = filters.filterType;
+      if (filters.filterId) fallbackFilters.filterId = filters.filterId;
+
+      return runExport(client, exportJobs, {
+        tool: "export_responses_filtered",
+        label: "filtered export",
+        surveyId: args.surveyId,
+        format,
+        filters: Object.keys(filters).length > 0 ? filters : undefined,
+        where: args.where,
+        saveToFile: args.saveToFile,
+        suffix: "filtered",
+        loaderScripts: args.loaderScripts,
+      }, args.waitForCompletion ?? true, Object.keys(fallbackFilters).length > 0 ? fallbackFilters : undefined);
+    })
   );
 
   // Get single response
@@ -0,0 +1,102 @@
+import { z } from "zod";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { QualtricsClient } from "../services/qualtrics-client.js";
+import { SurveyHistory } from "../services/survey-history.js";
+import { SurveySpecSync } from "../services/survey-spec-sync.js";
+import { QualtricsConfig } from "../config/settings.js";
+import { SurveySpec, SurveySpecError, loadSpecJavaScript, parseSurveySpec } from "../utils/survey-spec.js";
+import type { ToolResult } from "../types/index.js";
+import { toolError, toolSuccess, withErrorHandling } from "./_helpers.js";
+
+const SPEC_PARAMS = {
+  surveyId: z.string().min(1).describe("The Qualtrics survey ID to converge to the spec"),
+  spec: z.union([z.string(), z.record(z.any())]).optional().describe("The spec as YAML/JSON text or an object: {name?, embeddedData?: [{name, value?}], blocks: [{id, description?, questions: [{id, type: multiple_choice|text_entry|descriptive|likert|matrix|page_break, text, ...}]}], flow?: [{block} | {embeddedData} | {group} | {randomizer: {choose?, flow}} | {branch: {if: [{question, choice} | {field, operator?, value?}], flow}} | {endSurvey: true}]}"),
+  specFile: z.string().optional().describe("Path to a .yaml/.yml/.json spec file instead of spec (relative names are looked up in Downloads; javascriptFile entries are relative to the spec file)"),
+  allowDeletes: z.boolean().optional().describe("Delete questions and blocks the spec does not define (default: false, they are kept)"),
+};
+
+/** Reads the spec from the arguments, or returns the error to show the caller. */
+async function loadSpec(args: { spec?: string | Record<string, any>; specFile?: string }): Promise<SurveySpec | ToolResult> {
+  if ((args.spec === undefined) === (args.specFile === undefined)) {
+    return toolError("Provide exactly one of spec or specFile");
+  }
+
+  // Relative names refer to the Downloads folder, where exports are saved by default
+  const downloads = path.join(os.homedir(), "Downloads");
+  let input: unknown = args.spec;
+  let baseDir = downloads;
+  if (args.specFile) {
+    const filePath = path.isAbsolute(args.specFile) ? args.specFile : path.join(downloads, args.specFile);
+    try {
+      input = await fs.readFile(filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return toolError(`File not found: ${filePath}`);
+      }
+      throw error;
+    }
+    baseDir = path.dirname(filePath);
+  }
+
+  try {
+    const spec = parseSurveySpec(input);
+    await loadSpecJavaScript(spec, baseDir);
+    return spec;
+  } catch (error) {
+    if (error instanceof SurveySpecError) return toolError(error.message);
+    throw error;
+  }
+}
+
+export function registerSpecTools(
+  server: McpServer,
+  client: QualtricsClient,
+  config: QualtricsConfig
+) {
+  const sync = new SurveySpecSync(client, new SurveyHistory(client, config.server.dataDir));
+
+  // Plan survey spec tool
+  server.tool(
+    "plan_survey_spec",
+    "Compare a declarative survey spec (YAML or JSON) with a live survey and list the blocks, questions and flow changes apply_survey_spec would create, update or delete. Blocks are matched by description and questions by DataExportTag (the spec's question id). Nothing is changed.",
+    SPEC_PARAMS,
+    withErrorHandling("plan_survey_spec", async (args) => {
+      const spec = await loadSpec(args);
+      if ("content" in spec) return spec;
+
+      const plan = await sync.plan(args.surveyId, spec, { allowDeletes: args.allowDeletes });
+      return toolSuccess({
+        ...plan,
+        upToDate: plan.actions.length === 0,
+        message: plan.actions.length === 0
+          ? "The survey already matches the spec"
+          : `${plan.actions.length} change(s) needed; run apply_survey_spec to make them`,
+      });
+    })
+  );
+
+  // Apply survey spec tool
+  server.tool(
+    "apply_survey_spec",
+    "Converge a live survey to a declarative survey spec: creates missing blocks and questions, updates changed ones, sets page breaks and question order, and replaces the survey flow with the spec's flow. Idempotent: applying the same spec again changes nothing, and a run that fails part-way can simply be repeated. Use plan_survey_spec first to review the changes.",
+    SPEC_PARAMS,
+    withErrorHandling("apply_survey_spec", async (args) => {
+      const spec = await loadSpec(args);
+      if ("content" in spec) return spec;
+
+      const result = await sync.apply(args.surveyId, spec, { allowDeletes: args.allowDeletes });
+      return toolSuccess({
+        success: result.failed === null,
+        ...result,
+        message: result.failed
+          ? `Stopped after ${result.applied.length} of ${result.actions.length} change(s): ${result.failed.error}. Fix the cause and apply the spec again to continue.`
+          : result.actions.length === 0
+            ? "The survey already matches the spec"
+            : `Applied ${result.applied.length} change(s)`,
+      });
+    })
+  );
+}
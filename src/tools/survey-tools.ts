@@ -1,16 +1,45 @@
 import { z } from "zod";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { QualtricsClient } from "../services/qualtrics-client.js";
+import { DEFAULT_MAX_ITEMS, QualtricsClient } from "../services/qualtrics-client.js";
 import { SurveyApi } from "../services/survey-api.js";
+import { SurveyImporter } from "../services/survey-import.js";
 import { QualtricsConfig } from "../config/settings.js";
+import type { SurveyDefinition } from "../types/index.js";
+import { saveExportToFile } from "../utils/file-save.js";
+import { PortableSurvey, buildQsf, definitionToPortable, parseSurveyFile } from "../utils/qsf.js";
+import { diffSurveys, renderSurveyDiffMarkdown } from "../utils/survey-diff.js";
+import { lintSurvey } from "../utils/survey-lint.js";
 import { toolError, toolSuccess, withErrorHandling } from "./_helpers.js";
 
+const SURVEY_ID_PATTERN = /^SV_[A-Za-z0-9]+$/;
+
+// Relative names refer to the Downloads folder, where exports are saved by default
+function surveyFilePath(name: string): string {
+  return path.isAbsolute(name) ? name : path.join(os.homedir(), "Downloads", name);
+}
+
+/** Reads a saved .qsf or definition file, reporting a missing or malformed file as a readable message. */
+async function readSurveyFile(filePath: string): Promise<PortableSurvey | string> {
+  try {
+    return parseSurveyFile(JSON.parse(await fs.readFile(filePath, "utf8")));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return `File not found: ${filePath}`;
+    }
+    return `Could not read survey file ${filePath}: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
 export function registerSurveyTools(
   server: McpServer,
   client: QualtricsClient,
   config: QualtricsConfig
 ) {
   const surveyApi = new SurveyApi(client);
+  const importer = new SurveyImporter(client);
 
   // List surveys tool
   server.tool(
@@ -20,8 +49,31 @@ export function registerSurveyTools(
       offset: z.number().optional().describe("Starting offset for pagination (default: 0)"),
       limit: z.number().max(100).optional().describe("Maximum number of surveys to return (max: 100, default: 20)"),
       filter: z.string().optional().describe("Filter surveys by name (case-insensitive partial match)"),
+      fetchAll: z.boolean().optional().describe("Follow pagination and return every survey in the account, ignoring offset/limit (default: false)"),
+      maxItems: z.number().int().positive().optional().describe(`Maximum surveys to collect when fetchAll is true (default: ${DEFAULT_MAX_ITEMS})`),
     },
     withErrorHandling("list_surveys", async (args) => {
+      if (args.fetchAll) {
+        const all = await client.getAllSurveys(args.maxItems);
+        const filterLower = args.filter?.toLowerCase();
+        const matching = filterLower
+          ? all.elements.filter(survey => survey.name.toLowerCase().includes(filterLower))
+          : all.elements;
+
+        return toolSuccess({
+          surveys: matching.map(survey => ({
+            id: survey.id,
+            name: survey.name,
+            isActive: survey.isActive,
+            lastModified: survey.lastModified,
+            creationDate: survey.creationDate,
+          })),
+          fetched: all.elements.length,
+          filtered: matching.length,
+          truncated: all.truncated,
+        });
+      }
+
       const surveys = await client.getSurveys(args.offset ?? 0, args.limit ?? 20);
 
       let filteredSurveys = surveys.result.elements;
@@ -96,6 +148,128 @@ export function registerSurveyTools(
     })
   );
 
+  // Export survey definition tool
+  server.tool(
+    "export_survey_definition",
+    "Back up a survey's full definition (questions, blocks, flow, survey options and question JavaScript) to a QSF-compatible JSON file that Qualtrics can import and import_survey_definition can recreate.",
+    {
+      surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
+      saveToFile: z.string().optional().describe("Filename or absolute path for the .qsf file (default: auto-named in Downloads)"),
+    },
+    withErrorHandling("export_survey_definition", async (args) => {
+      const [surveyInfo, definition] = await Promise.all([
+        client.getSurvey(args.surveyId),
+        client.getSurveyDefinition(args.surveyId),
+      ]);
+
+      const survey = definitionToPortable(definition.result as SurveyDefinition);
+      const qsf = buildQsf(survey, { ...surveyInfo.result, ...definition.result });
+      const saved = await saveExportToFile(JSON.stringify(qsf, null, 2), args.surveyId, "qsf", args.saveToFile, "definition");
+
+      return toolSuccess({
+        surveyId: args.surveyId,
+        surveyName: survey.name,
+        savedToFile: saved.filePath,
+        fileSizeMB: saved.fileSizeMB,
+        questions: Object.keys(survey.questions).length,
+        blocks: survey.blocks.filter(block => block.Type !== "Trash").length,
+        questionsWithJavaScript: Object.values(survey.questions).filter(question => question.QuestionJS).length,
+        message: `Survey definition saved to ${saved.filePath}`,
+        tip: "Recreate the survey with import_survey_definition, or import the file in Qualtrics via Create project > From a file.",
+      });
+    })
+  );
+
+  // Import survey definition tool
+  server.tool(
+    "import_survey_definition",
+    "Create a new survey from a file saved by export_survey_definition (or any .qsf file or survey definition JSON). Blocks, questions, page breaks, flow and survey options are recreated, and QIDs, block IDs, FlowIDs and piped text references are rewritten to the new survey's IDs.",
+    {
+      filePath: z.string().min(1).describe("Path to the .qsf or .json file (relative names are looked up in Downloads)"),
+      name: z.string().optional().describe("Name for the new survey (default: the name stored in the file)"),
+    },
+    withErrorHandling("import_survey_definition", async (args) => {
+      const survey = await readSurveyFile(surveyFilePath(args.filePath));
+      if (typeof survey === "string") return toolError(survey);
+
+      const result = await importer.import(survey, args.name);
+
+      return toolSuccess({
+        success: result.warnings.length === 0,
+        ...result,
+        sourceSurveyId: survey.surveyId || null,
+        message: result.warnings.length === 0
+          ? `Survey "${result.name}" created as ${result.surveyId} with ${Object.keys(result.questionIds).length} questions`
+          : `Survey "${result.name}" created as ${result.surveyId}, but ${result.warnings.length} step(s) failed; review the warnings and fix them in the new survey`,
+      });
+    })
+  );
+
+  // Diff surveys tool
+  server.tool(
+    "diff_surveys",
+    "Compare two survey definitions and report added, removed and modified questions (text, type, choices, scale, recodes, validation, JavaScript, display/skip logic), questions moved between blocks, block changes and flow-tree changes. Each side is a live survey ID or a saved .qsf/definition file, e.g. a file from export_survey_definition, to see what a colleague changed since then.",
+    {
+      before: z.string().min(1).describe("Survey ID (SV_...) or path to a saved .qsf/.json definition for the earlier version (relative paths are looked up in Downloads)"),
+      after: z.string().min(1).describe("Survey ID (SV_...) or path to a saved .qsf/.json definition for the later version"),
+      matchBy: z.enum(["id", "exportTag"]).optional().describe("Match questions by QID or by DataExportTag (default: QID when both sides are the same survey, otherwise export tag)"),
+      saveToFile: z.string().optional().describe("Also save the Markdown report to this filename or absolute path"),
+    },
+    withErrorHandling("diff_surveys", async (args) => {
+      const load = async (source: string): Promise<PortableSurvey | string> => {
+        if (SURVEY_ID_PATTERN.test(source)) {
+          const definition = await client.getSurveyDefinition(source);
+          return definitionToPortable(definition.result as SurveyDefinition);
+        }
+        return readSurveyFile(surveyFilePath(source));
+      };
+      const [before, after] = await Promise.all([load(args.before), load(args.after)]);
+      if (typeof before === "string") return toolError(before);
+      if (typeof after === "string") return toolError(after);
+
+      const diff = diffSurveys(before, after, args.matchBy);
+      const report = renderSurveyDiffMarkdown(diff);
+      const saved = args.saveToFile
+        ? await saveExportToFile(report, after.surveyId || "survey", "md", args.saveToFile, "diff")
+        : null;
+
+      return toolSuccess({
+        ...diff,
+        summary: {
+          questionsAdded: diff.questions.added.length,
+          questionsRemoved: diff.questions.removed.length,
+          questionsModified: diff.questions.modified.length,
+          questionsMoved: diff.questions.moved.length,
+          blocksChanged: diff.blocks.added.length + diff.blocks.removed.length + diff.blocks.modified.length,
+          flowChanged: diff.flow.changed,
+        },
+        report,
+        ...(saved ? { savedToFile: saved.filePath } : {}),
+      });
+    })
+  );
+
+  // Lint survey tool
+  server.tool(
+    "lint_survey",
+    "Check a survey for common mistakes before launch. Errors: duplicate DataExportTags, unsafe question JavaScript, piped text or display/skip/branch logic referring to deleted questions or choices, and flow elements showing missing blocks. Warnings: missing export tags, piped embedded data fields not declared in the flow, empty blocks, blocks not in the flow, and consent items, branching questions or listed critical questions without force response.",
+    {
+      surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
+      criticalQuestions: z.array(z.string()).optional().describe("QIDs or export tags of further questions that must force a response"),
+    },
+    withErrorHandling("lint_survey", async (args) => {
+      const definition = await client.getSurveyDefinition(args.surveyId);
+      const result = lintSurvey(definition.result as SurveyDefinition, { criticalQuestions: args.criticalQuestions });
+      return toolSuccess({
+        surveyId: args.surveyId,
+        ...result,
+        message: result.issues.length === 0
+          ? "No issues found"
+          : `${result.errors} error(s) and ${result.warnings} warning(s) found`,
+      });
+    })
+  );
+
   // Estimate export size tool
   server.tool(
     "estimate_export_size",
@@ -212,11 +386,21 @@ export function registerSurveyTools(
   // Activate survey tool
   server.tool(
     "activate_survey",
-    "Activate a survey to begin collecting responses",
+    "Activate a survey to begin collecting responses. Set lint to run lint_survey first and refuse to activate if it finds errors.",
     {
       surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
+      lint: z.boolean().optional().describe("Lint the survey first and do not activate it if there are errors (default: false)"),
     },
     withErrorHandling("activate_survey", async (args) => {
+      if (args.lint) {
+        const definition = await client.getSurveyDefinition(args.surveyId);
+        const lint = lintSurvey(definition.result as SurveyDefinition);
+        if (lint.errors > 0) {
+          const errors = lint.issues.filter(issue => issue.severity === "error").map(issue => `- ${issue.message}`);
+          return toolError(`Survey ${args.surveyId} was not activated: lint found ${lint.errors} error(s).\n${errors.join("\n")}\nFix them, or activate without lint to launch anyway.`);
+        }
+      }
+
       const result = await surveyApi.activateSurvey(args.surveyId);
       return toolSuccess({
         success: true,
@@ -0,0 +1,125 @@
+import { z } from "zod";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { QualtricsClient } from "../services/qualtrics-client.js";
+import { ExportJob, ExportJobManager } from "../services/export-job-manager.js";
+import { ResponseStore } from "../services/response-store.js";
+import { QualtricsValidationError } from "../services/qualtrics-errors.js";
+import { QualtricsConfig } from "../config/settings.js";
+import { toolSuccess, withErrorHandling } from "./_helpers.js";
+
+export function registerSyncTools(
+  server: McpServer,
+  client: QualtricsClient,
+  config: QualtricsConfig
+) {
+  const exportJobs = ExportJobManager.forClient(client);
+  const store = new ResponseStore(config.server.dataDir);
+
+  // Sync responses into the local store
+  server.tool(
+    "sync_responses",
+    "Incrementally sync a survey's responses into a local SQLite database, fetching only responses recorded since the last sync (via the export API's continuation token, or a startDate watermark). Use query_local_responses to analyze the synced data without pulling raw exports into the conversation.",
+    {
+      surveyId: z.string().min(1).describe("The Qualtrics survey ID"),
+      fullResync: z.boolean().optional().describe("Ignore the saved watermark and re-export every response, picking up edits to older responses (default: false)"),
+      sinceDate: z.string().optional().describe("Override the watermark and fetch responses recorded on or after this date (ISO format)"),
+      timeoutSeconds: z.number().int().positive().optional().describe("How long to wait for the export to finish (default: 600)"),
+    },
+    withErrorHandling("sync_responses", async (args) => {
+      const previous = await store.getSyncState(args.surveyId);
+      const useToken = !args.fullResync && !args.sinceDate && previous?.continuationToken;
+      const startDate = args.fullResync ? undefined : args.sinceDate ?? previous?.watermark ?? undefined;
+
+      let mode: "full" | "continuation" | "startDate" = useToken ? "continuation" : startDate ? "startDate" : "full";
+      let job: ExportJob;
+      try {
+        job = await exportJobs.start(args.surveyId, "ndjson", useToken
+          ? { allowContinuation: true, continuationToken: previous!.continuationToken }
+          : { allowContinuation: true, ...(startDate ? { startDate } : {}) });
+      } catch (error) {
+        // Continuation tokens expire; fall back to the date watermark
+        if (!(useToken && error instanceof QualtricsValidationError)) throw error;
+        mode = previous?.watermark ? "startDate" : "full";
+        job = await exportJobs.start(args.surveyId, "ndjson", {
+          allowContinuation: true,
+          ...(previous?.watermark ? { startDate: previous.watermark } : {}),
+        });
+      }
+
+      const finished = await exportJobs.waitForCompletion(job.progressId, {
+        timeoutMs: (args.timeoutSeconds ?? 600) * 1000,
+      });
+      if (finished.status !== "complete") {
+        return toolSuccess({
+          status: finished.status === "cancelled" ? "cancelled" : "timeout",
+          surveyId: args.surveyId,
+          progressId: job.progressId,
+          percentComplete: finished.percentComplete,
+          message: "The export did not finish in time; the local store was not changed. Run sync_responses again later.",
+        });
+      }
+
+      const tempFile = path.join(store.tempDir(), `sync_${args.surveyId}_${Date.now()}.ndjson`);
+      let upserted;
+      try {
+        await exportJobs.download(job.progressId, { saveToFile: tempFile });
+        upserted = await store.upsertFromNdjson(args.surveyId, tempFile);
+      } finally {
+        await fs.rm(tempFile, { force: true });
+      }
+
+      const watermark = [upserted.watermark, previous?.watermark]
+        .filter((value): value is string => !!value)
+        .sort()
+        .pop() ?? null;
+      const lastSyncAt = new Date().toISOString();
+      await store.saveSyncState(args.surveyId, {
+        lastSyncAt,
+        watermark: watermark ?? undefined,
+        continuationToken: finished.continuationToken ?? null,
+      });
+
+      const state = await store.getSyncState(args.surveyId);
+      return toolSuccess({
+        status: "synced",
+        surveyId: args.surveyId,
+        mode,
+        inserted: upserted.inserted,
+        updated: upserted.updated,
+        totalStored: state?.responseCount ?? 0,
+        watermark,
+        previousSyncAt: previous?.lastSyncAt ?? null,
+        lastSyncAt,
+        database: store.dbPath(args.surveyId),
+        tip: "Query with query_local_responses, e.g. SELECT json_extract(values_json, '$.QID1') AS q1, COUNT(*) FROM responses GROUP BY q1",
+      });
+    })
+  );
+
+  // Query the local store
+  server.tool(
+    "query_local_responses",
+    "Run a read-only SQL query over responses synced with sync_responses. Table `responses` has columns response_id, recorded_date, start_date, end_date, finished, progress, duration, values_json, labels_json, displayed_fields_json, synced_at; read individual answers with json_extract(values_json, '$.QID1'). Table `sync_state` holds key/value sync metadata.",
+    {
+      surveyId: z.string().min(1).describe("The Qualtrics survey ID that was synced"),
+      sql: z.string().min(1).describe("A single SELECT statement (the database is opened read-only)"),
+      params: z.array(z.union([z.string(), z.number(), z.null()])).optional().describe("Positional parameters for ? placeholders"),
+      maxRows: z.number().int().positive().max(1000).optional().describe("Maximum rows to return (default: 100, max: 1000)"),
+    },
+    withErrorHandling("query_local_responses", async (args) => {
+      const maxRows = args.maxRows ?? 100;
+      const result = await store.query(args.surveyId, args.sql, args.params ?? [], maxRows);
+
+      return toolSuccess({
+        surveyId: args.surveyId,
+        columns: result.columns,
+        rows: result.rows,
+        rowCount: result.rows.length,
+        truncated: result.truncated,
+        ...(result.truncated ? { tip: `Only the first ${maxRows} rows are shown. Aggregate in SQL or add a LIMIT to narrow the result.` } : {}),
+      });
+    })
+  );
+}
@@ -1,6 +1,6 @@
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { QualtricsClient } from "../services/qualtrics-client.js";
+import { DEFAULT_MAX_ITEMS, QualtricsClient } from "../services/qualtrics-client.js";
 import { UserApi } from "../services/user-api.js";
 import { QualtricsConfig } from "../config/settings.js";
 import { toolSuccess, withErrorHandling } from "./_helpers.js";
@@ -19,10 +19,20 @@ export function registerUserTools(
     {
       limit: z.number().optional().describe("Maximum number of users to return"),
       offset: z.number().optional().describe("Starting offset for pagination"),
+      fetchAll: z.boolean().optional().describe("Follow pagination and return every user in the organization, ignoring offset/limit (default: false)"),
+      maxItems: z.number().int().positive().optional().describe(`Maximum users to collect when fetchAll is true (default: ${DEFAULT_MAX_ITEMS})`),
     },
     withErrorHandling("list_users", async (args) => {
-      const result = await userApi.listUsers(args.offset, args.limit);
-      const users = result.result.elements || [];
+      let users: any[];
+      let truncated = false;
+      if (args.fetchAll) {
+        const all = await userApi.listAllUsers(args.maxItems);
+        users = all.elements;
+        truncated = all.truncated;
+      } else {
+        const result = await userApi.listUsers(args.offset, args.limit);
+        users = result.result.elements || [];
+      }
 
       return toolSuccess({
         users: users.map((u: any) => ({
@@ -36,6 +46,7 @@ export function registerUserTools(
           lastLoginDate: u.lastLoginDate,
         })),
         total: users.length,
+        truncated,
       });
     })
   );
@@ -1,6 +1,6 @@
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { QualtricsClient } from "../services/qualtrics-client.js";
+import { DEFAULT_MAX_ITEMS, QualtricsClient } from "../services/qualtrics-client.js";
 import { WebhookApi } from "../services/webhook-api.js";
 import { QualtricsConfig } from "../config/settings.js";
 import { toolSuccess, withErrorHandling } from "./_helpers.js";
@@ -16,10 +16,21 @@ export function registerWebhookTools(
   server.tool(
     "list_webhooks",
     "List all event subscriptions (webhooks) in your Qualtrics account",
-    {},
-    withErrorHandling("list_webhooks", async () => {
-      const result = await webhookApi.listWebhooks();
-      const subscriptions = result.result.elements || [];
+    {
+      fetchAll: z.boolean().optional().describe("Follow pagination and return every webhook (default: false, first page only)"),
+      maxItems: z.number().int().positive().optional().describe(`Maximum webhooks to collect when fetchAll is true (default: ${DEFAULT_MAX_ITEMS})`),
+    },
+    withErrorHandling("list_webhooks", async (args) => {
+      let subscriptions: any[];
+      let truncated = false;
+      if (args.fetchAll) {
+        const all = await webhookApi.listAllWebhooks(args.maxItems);
+        subscriptions = all.elements;
+        truncated = all.truncated;
+      } else {
+        const result = await webhookApi.listWebhooks();
+        subscriptions = result.result.elements || [];
+      }
 
       return toolSuccess({
         webhooks: subscriptions.map((s: any) => ({
@@ -31,6 +42,7 @@ export function registerWebhookTools(
           successfulPublications: s.successfulPublications,
         })),
         total: subscriptions.length,
+        truncated,
       });
     })
   );
@@ -0,0 +1,98 @@
+export interface FlowEmbeddedDataField {
+  Description: string;
+  Type: string;
+  Field: string;
+  VariableType?: string;
+  DataVisibility?: unknown[];
+  AnalyzeText?: boolean;
+  Value?: string;
+  [key: string]: unknown;
+}
+
+interface FlowElementBase {
+  FlowID: string;
+  [key: string]: unknown;
+}
+
+export interface BlockFlowElement extends FlowElementBase {
+  /** "Standard" for ordinary blocks, "Block" for the survey's default block */
+  Type: "Block" | "Standard";
+  ID: string;
+  Autofill?: unknown[];
+}
+
+export interface EmbeddedDataFlowElement extends FlowElementBase {
+  Type: "EmbeddedData";
+  EmbeddedData: FlowEmbeddedDataField[];
+}
+
+export interface BlockRandomizerFlowElement extends FlowElementBase {
+  Type: "BlockRandomizer";
+  /** How many of the child elements each respondent sees */
+  SubSet: number | string;
+  EvenPresentation?: boolean;
+  Flow: FlowElement[];
+}
+
+export interface BranchFlowElement extends FlowElementBase {
+  Type: "Branch";
+  Description?: string;
+  BranchLogic: Record<string, any>;
+  Flow: FlowElement[];
+}
+
+export interface GroupFlowElement extends FlowElementBase {
+  Type: "Group";
+  Description?: string;
+  Flow: FlowElement[];
+}
+
+export interface WebServiceFlowElement extends FlowElementBase {
+  Type: "WebService";
+  URL: string;
+  Method: string;
+  RequestParams?: Array<{ key: string; value: string }>;
+  ResponseMap?: Array<{ key: string; value: string }>;
+}
+
+export interface EndSurveyFlowElement extends FlowElementBase {
+  Type: "EndSurvey";
+}
+
+export interface AuthenticatorFlowElement extends FlowElementBase {
+  Type: "Authenticator";
+  Options?: Record<string, any>;
+  Flow: FlowElement[];
+}
+
+/** Element types this server does not model (quotas, tables of contents, ...), kept as-is. */
+export interface OtherFlowElement extends FlowElementBase {
+  Type: string;
+  Flow?: FlowElement[];
+}
+
+export type FlowElement =
+  | BlockFlowElement
+  | EmbeddedDataFlowElement
+  | BlockRandomizerFlowElement
+  | BranchFlowElement
+  | GroupFlowElement
+  | WebServiceFlowElement
+  | EndSurveyFlowElement
+  | AuthenticatorFlowElement
+  | OtherFlowElement;
+
+/** Elements that contain a nested flow */
+export type FlowContainer = BlockRandomizerFlowElement | BranchFlowElement | GroupFlowElement | AuthenticatorFlowElement;
+
+export interface SurveyFlow {
+  Type: "Root";
+  FlowID: string;
+  Flow: FlowElement[];
+  Properties: {
+    /** Highest FlowID number handed out so far */
+    Count: number;
+    [key: string]: unknown;
+  };
+  [key: string]: unknown;
+}
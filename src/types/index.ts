@@ -5,3 +5,4 @@ export * from "./distribution.js";
 export * from "./contact.js";
 export * from "./user.js";
 export * from "./webhook.js";
+export * from "./flow.js";
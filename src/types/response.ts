@@ -18,3 +18,13 @@ export interface CreateResponsePayload {
   values: Record<string, any>;
   embeddedData?: Record<string, any>;
 }
+
+/** Format-specific options accepted by the Qualtrics export-responses endpoint. */
+export interface ExportFormatOptions {
+  seenUnansweredRecode?: number;
+  multiselectSeenUnansweredRecode?: number;
+  newlineReplacement?: string;
+  breakoutSets?: boolean;
+  timeZone?: string;
+  includeLabelColumns?: boolean;
+}
@@ -50,6 +50,8 @@ export interface SurveyDefinition {
   SurveyName: string;
   SurveyDescription?: string;
   SurveyStatus: string;
+  SurveyLanguage?: string;
+  SurveyOptions?: Record<string, any>;
   Questions: Record<string, SurveyQuestion>;
   Blocks: Record<string, SurveyBlock>;
   SurveyFlow?: any;
@@ -0,0 +1,274 @@
+import type { SurveyDefinition } from "../types/index.js";
+import {
+  ChoiceInfo,
+  describeLogic,
+  EmbeddedDataField,
+  flowEmbeddedData,
+  QuestionInfo,
+  surveyBlocks,
+  surveyQuestions,
+} from "./survey-definition.js";
+
+export interface ValueLabel {
+  code: string;
+  label: string;
+}
+
+export interface CodebookColumn {
+  /** Column name in CSV/TSV exports */
+  name: string;
+  /** Key of the same value in JSON exports (QID-based) */
+  jsonKey: string;
+  description: string;
+  values: ValueLabel[];
+}
+
+export interface CodebookQuestion {
+  questionId: string;
+  exportTag: string;
+  block: string | null;
+  type: string;
+  text: string;
+  displayLogic: string | null;
+  columns: CodebookColumn[];
+}
+
+export interface Codebook {
+  surveyId: string;
+  surveyName: string;
+  metadataColumns: Array<{ name: string; description: string }>;
+  embeddedData: EmbeddedDataField[];
+  questions: CodebookQuestion[];
+}
+
+/** Response metadata columns at the start of every CSV export. */
+const METADATA_COLUMNS: Array<{ name: string; description: string }> = [
+  { name: "StartDate", description: "When the respondent started the survey" },
+  { name: "EndDate", description: "When the respondent finished or the response was closed" },
+  { name: "Status", description: "Response type (0 = IP address, 1 = survey preview, 2 = test, 4 = imported, 8 = spam, 16 = offline)" },
+  { name: "IPAddress", description: "Respondent IP address" },
+  { name: "Progress", description: "Percent of the survey completed" },
+  { name: "Duration (in seconds)", description: "Time from start to finish" },
+  { name: "Finished", description: "1 if the respondent reached the end of the survey" },
+  { name: "RecordedDate", description: "When the response was recorded" },
+  { name: "ResponseId", description: "Unique response ID" },
+  { name: "RecipientLastName", description: "Contact last name (distributions to contacts)" },
+  { name: "RecipientFirstName", description: "Contact first name (distributions to contacts)" },
+  { name: "RecipientEmail", description: "Contact email (distributions to contacts)" },
+  { name: "ExternalReference", description: "External data reference of the contact" },
+  { name: "LocationLatitude", description: "Approximate latitude from IP address" },
+  { name: "LocationLongitude", description: "Approximate longitude from IP address" },
+  { name: "DistributionChannel", description: "How the survey was distributed (anonymous, email, preview, ...)" },
+  { name: "UserLanguage", description: "Language the survey was taken in" },
+];
+
+const TIMING_COLUMNS = ["First Click", "Last Click", "Page Submit", "Click Count"];
+
+function valueLabels(choices: ChoiceInfo[]): ValueLabel[] {
+  return choices.map(choice => ({ code: choice.recode, label: choice.label }));
+}
+
+/** Export suffix for a statement: its ChoiceDataExportTag if one is set, else `<tag>_<choiceId>`. */
+function rowColumnName(question: QuestionInfo, raw: Record<string, any>, choice: ChoiceInfo): string {
+  const custom = raw.ChoiceDataExportTags?.[choice.id];
+  return custom ? String(custom) : `${question.exportTag}_${choice.id}`;
+}
+
+/**
+ * Columns a question produces in CSV exports (with breakoutSets enabled): one per
+ * matrix statement, slider, rank or form field, one per choice of a multi-select,
+ * and `_TEXT` columns for text entry boxes.
+ */
+export function exportColumns(question: QuestionInfo, raw: Record<string, any>): CodebookColumn[] {
+  const tag = question.exportTag;
+  const qid = question.questionId;
+  const columns: CodebookColumn[] = [];
+  const textColumns = (choices: ChoiceInfo[], prefix: (choice: ChoiceInfo) => string, jsonPrefix: (choice: ChoiceInfo) => string) => {
+    for (const choice of choices.filter(choice => choice.textEntry)) {
+      columns.push({ name: `${prefix(choice)}_TEXT`, jsonKey: `${jsonPrefix(choice)}_TEXT`, description: `Text entered for "${choice.label}"`, values: [] });
+    }
+  };
+
+  switch (question.type) {
+    case "MC":
+      if (question.multipleAnswer) {
+        for (const choice of question.choices) {
+          columns.push({ name: `${tag}_${choice.id}`, jsonKey: qid, description: `Selected "${choice.label}"`, values: [{ code: choice.recode, label: choice.label }] });
+        }
+      } else {
+        columns.push({ name: tag, jsonKey: qid, description: question.text, values: valueLabels(question.choices) });
+      }
+      textColumns(question.choices, choice => `${tag}_${choice.id}`, choice => `${qid}_${choice.id}`);
+      break;
+
+    case "Matrix":
+      for (const row of question.choices) {
+        const rowName = rowColumnName(question, raw, row);
+        if (question.multipleAnswer) {
+          for (const answer of question.answers) {
+            columns.push({ name: `${rowName}_${answer.id}`, jsonKey: `${qid}_${row.id}`, description: `${row.label}: selected "${answer.label}"`, values: [{ code: answer.recode, label: answer.label }] });
+          }
+        } else {
+          columns.push({ name: rowName, jsonKey: `${qid}_${row.id}`, description: row.label, values: valueLabels(question.answers) });
+        }
+      }
+      textColumns(question.choices, row => rowColumnName(question, raw, row), row => `${qid}_${row.id}`);
+      break;
+
+    case "Slider":
+    case "CS":
+    case "RO":
+      for (const choice of question.choices) {
+        columns.push({
+          name: rowColumnName(question, raw, choice),
+          jsonKey: `${qid}_${choice.id}`,
+          description: question.type === "RO" ? `Rank of "${choice.label}"` : choice.label,
+          values: [],
+        });
+      }
+      textColumns(question.choices, choice => rowColumnName(question, raw, choice), choice => `${qid}_${choice.id}`);
+      break;
+
+    case "TE":
+      if (question.selector === "FORM") {
+        for (const choice of question.choices) {
+          columns.push({ name: `${tag}_${choice.id}`, jsonKey: `${qid}_${choice.id}`, description: choice.label, values: [] });
+        }
+      } else {
+        columns.push({ name: tag, jsonKey: `${qid}_TEXT`, description: question.text, values: [] });
+      }
+      break;
+
+    case "Timing":
+      for (const suffix of TIMING_COLUMNS) {
+        columns.push({ name: `${tag}_${suffix}`, jsonKey: `${qid}_${suffix.replace(/ /g, "_").toUpperCase()}`, description: `Page timing: ${suffix.toLowerCase()}`, values: [] });
+      }
+      break;
+
+    case "DB":
+      // Descriptive text produces no data
+      break;
+
+    default:
+      columns.push({ name: tag, jsonKey: qid, description: question.text, values: valueLabels(question.choices) });
+  }
+
+  if (question.selector === "NPS") {
+    columns.push({
+      name: `${tag}_NPS_GROUP`,
+      jsonKey: `${qid}_NPS_GROUP`,
+      description: "Net Promoter group",
+      values: [{ code: "1", label: "Detractor" }, { code: "2", label: "Passive" }, { code: "3", label: "Promoter" }],
+    });
+  }
+  return columns;
+}
+
+export function buildCodebook(definition: SurveyDefinition): Codebook {
+  const blockNames = new Map(surveyBlocks(definition).map(block => [block.blockId, block.description]));
+  return {
+    surveyId: definition.SurveyID,
+    surveyName: definition.SurveyName,
+    metadataColumns: METADATA_COLUMNS,
+    embeddedData: flowEmbeddedData(definition),
+    questions: surveyQuestions(definition).map(question => {
+      const raw = definition.Questions[question.questionId] as Record<string, any>;
+      return {
+        questionId: question.questionId,
+        exportTag: question.exportTag,
+        block: question.blockId ? blockNames.get(question.blockId) ?? question.blockId : null,
+        type: question.selector ? `${question.type}/${question.selector}` : question.type,
+        text: question.text,
+        displayLogic: describeLogic(raw.DisplayLogic),
+        columns: exportColumns(question, raw),
+      };
+    }),
+  };
+}
+
+/** Finds the question and column behind an export column name or JSON key (e.g. Q14_3 or QID14_3). */
+export function lookupColumn(codebook: Codebook, name: string): { question: CodebookQuestion; column: CodebookColumn } | null {
+  const lower = name.toLowerCase();
+  for (const question of codebook.questions) {
+    const column = question.columns.find(column => column.name.toLowerCase() === lower)
+      ?? question.columns.find(column => column.jsonKey.toLowerCase() === lower);
+    if (column) return { question, column };
+  }
+  return null;
+}
+
+function formatValues(values: ValueLabel[]): string {
+  return values.map(value => `${value.code} = ${value.label}`).join("; ");
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+export function renderCodebookMarkdown(codebook: Codebook): string {
+  const lines = [
+    `# Codebook: ${codebook.surveyName}`,
+    "",
+    `Survey ID: ${codebook.surveyId}`,
+    "",
+    "## Questions",
+  ];
+
+  for (const question of codebook.questions) {
+    lines.push("", `### ${question.exportTag} (${question.questionId})`, "", escapeCell(question.text), "");
+    lines.push(`- Type: ${question.type}`);
+    if (question.block) lines.push(`- Block: ${question.block}`);
+    if (question.displayLogic) lines.push(`- Display logic: ${question.displayLogic}`);
+    if (question.columns.length > 0) {
+      lines.push("", "| Column | JSON key | Description | Values |", "|--------|----------|-------------|--------|");
+      for (const column of question.columns) {
+        lines.push(`| ${escapeCell(column.name)} | ${column.jsonKey} | ${escapeCell(column.description)} | ${escapeCell(formatValues(column.values))} |`);
+      }
+    }
+  }
+
+  if (codebook.embeddedData.length > 0) {
+    lines.push("", "## Embedded data", "", "| Field | Type | Default value |", "|-------|------|---------------|");
+    for (const field of codebook.embeddedData) {
+      lines.push(`| ${escapeCell(field.field)} | ${field.type} | ${escapeCell(field.value)} |`);
+    }
+  }
+
+  lines.push("", "## Response metadata", "", "| Column | Description |", "|--------|-------------|");
+  for (const column of codebook.metadataColumns) {
+    lines.push(`| ${column.name} | ${column.description} |`);
+  }
+  return lines.join("\n") + "\n";
+}
+
+function csvCell(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** One row per export column, the usual shape for a data dictionary. */
+export function renderCodebookCsv(codebook: Codebook): string {
+  const rows: string[][] = [["column", "json_key", "question_id", "export_tag", "block", "type", "question_text", "description", "values", "display_logic"]];
+  for (const column of codebook.metadataColumns) {
+    rows.push([column.name, "", "", "", "", "metadata", "", column.description, "", ""]);
+  }
+  for (const field of codebook.embeddedData) {
+    rows.push([field.field, field.field, "", "", "", "embedded data", "", field.type, field.value, ""]);
+  }
+  for (const question of codebook.questions) {
+    for (const column of question.columns) {
+      rows.push([
+        column.name,
+        column.jsonKey,
+        question.questionId,
+        question.exportTag,
+        question.block ?? "",
+        question.type,
+        question.text,
+        column.description,
+        formatValues(column.values),
+        question.displayLogic ?? "",
+      ]);
+    }
+  }
+  return rows.map(row => row.map(csvCell).join(",")).join("\n") + "\n";
+}
@@ -0,0 +1,275 @@
+import type { SurveyDefinition, SurveyResponse } from "../types/index.js";
+import { FieldLookup, jsonResponseLookup } from "./response-filter.js";
+import { selectedValues } from "./response-summary.js";
+import { ChoiceInfo, QuestionInfo, surveyQuestions } from "./survey-definition.js";
+import {
+  chiSquareTest,
+  ChiSquareResult,
+  equalAllocationTest,
+  mean,
+  median,
+  round,
+  standardDeviation,
+  toNumber,
+  welchAnova,
+  WelchAnovaResult,
+  welchTTest,
+  WelchTResult,
+} from "./statistics.js";
+
+export type VariableKind = "numeric" | "categorical";
+
+interface Variable {
+  key: string;
+  label: string;
+  kind: VariableKind;
+  choices: ChoiceInfo[];
+  multipleAnswer: boolean;
+}
+
+export interface GroupResult {
+  group: string;
+  n: number;
+  mean?: number | null;
+  sd?: number | null;
+  median?: number | null;
+  /** Category counts, keyed by choice label when the definition has one */
+  counts?: Record<string, number>;
+}
+
+export interface VariableComparison {
+  key: string;
+  label: string;
+  kind: VariableKind;
+  groups: GroupResult[];
+  test: ChiSquareResult | WelchTResult | WelchAnovaResult | null;
+  note?: string;
+}
+
+export interface ConditionComparison {
+  groupBy: string;
+  groups: Array<{ group: string; n: number }>;
+  /** Responses with no value for the grouping field */
+  ungrouped: number;
+  allocation: { statistic: number; df: number; pValue: number } | null;
+  outcomes: VariableComparison[];
+  balance?: {
+    checks: VariableComparison[];
+    imbalanced: string[];
+  };
+}
+
+export interface CompareOptions {
+  groupBy: string;
+  outcomes: string[];
+  balanceItems?: string[];
+  /** Fields to treat as categorical even when their values are numeric */
+  categorical?: string[];
+  alpha?: number;
+}
+
+/** Above this many distinct values, a field without defined choices is treated as free text. */
+const MAX_FREE_CATEGORIES = 20;
+
+const lookups = new WeakMap<SurveyResponse, FieldLookup>();
+
+/** Field lookups are reused across variables, since building one indexes the whole response. */
+function lookupFor(response: SurveyResponse): FieldLookup {
+  let lookup = lookups.get(response);
+  if (!lookup) {
+    lookup = jsonResponseLookup(response);
+    lookups.set(response, lookup);
+  }
+  return lookup;
+}
+
+/** A question placed in a block, by QID or export tag; questions in the trash are ignored. */
+function findQuestion(definition: SurveyDefinition, field: string): QuestionInfo | null {
+  const lower = field.toLowerCase();
+  return surveyQuestions(definition).find(question =>
+    question.blockId !== undefined && (question.questionId.toLowerCase() === lower || question.exportTag.toLowerCase() === lower)
+  ) ?? null;
+}
+
+/**
+ * Expands a field reference into the variables to compare: a choice question is
+ * one categorical variable, a matrix or slider one variable per statement, and
+ * anything else (embedded data, metadata, QID4_1-style keys) a single variable
+ * whose kind is inferred from the data.
+ */
+function resolveVariables(definition: SurveyDefinition, field: string, forceCategorical: boolean): Variable[] {
+  const question = findQuestion(definition, field);
+  const inferred: VariableKind | null = forceCategorical ? "categorical" : null;
+
+  if (!question) {
+    return [{ key: field, label: field, kind: inferred ?? "numeric", choices: [], multipleAnswer: false }];
+  }
+  if (question.type === "MC") {
+    return [{
+      key: question.questionId,
+      label: question.text,
+      kind: "categorical",
+      choices: question.choices,
+      multipleAnswer: question.multipleAnswer,
+    }];
+  }
+  if ((question.type === "Matrix" || question.type === "Slider") && question.choices.length > 0) {
+    return question.choices.map(choice => ({
+      key: `${question.questionId}_${choice.id}`,
+      label: `${question.text} - ${choice.label}`,
+      kind: inferred ?? "numeric",
+      choices: question.answers,
+      multipleAnswer: false,
+    }));
+  }
+  return [{
+    key: question.type === "TE" ? `${question.questionId}_TEXT` : question.questionId,
+    label: question.text,
+    kind: inferred ?? "numeric",
+    choices: [],
+    multipleAnswer: false,
+  }];
+}
+
+function compareVariable(variable: Variable, grouped: Map<string, SurveyResponse[]>): VariableComparison {
+  const raw = new Map<string, unknown[]>();
+  for (const [group, responses] of grouped) {
+    raw.set(group, responses
+      .map(response => lookupFor(response)(variable.key))
+      .filter(value => value !== undefined && value !== null && value !== ""));
+  }
+
+  // Free-form fields are numeric only if every answer is
+  let kind = variable.kind;
+  if (kind === "numeric" && Array.from(raw.values()).some(values => values.some(value => toNumber(value) === null))) {
+    kind = "categorical";
+  }
+
+  if (kind === "numeric") {
+    const samples = Array.from(raw.entries()).map(([group, values]) => ({
+      group,
+      values: values.map(value => toNumber(value)!),
+    }));
+    const groups = samples.map(({ group, values }) => ({
+      group,
+      n: values.length,
+      mean: round(mean(values), 3),
+      sd: round(standardDeviation(values), 3),
+      median: round(median(values), 3),
+    }));
+    const test = samples.length === 2
+      ? welchTTest(samples[0].values, samples[1].values)
+      : welchAnova(samples.map(sample => sample.values));
+    return {
+      key: variable.key,
+      label: variable.label,
+      kind,
+      groups,
+      test,
+      ...(test ? {} : { note: "Not enough variation or responses per group to test" }),
+    };
+  }
+
+  const labelFor = (value: string) => variable.choices.find(choice => choice.recode === value)?.label ?? value;
+  const categories = new Set<string>();
+  const groups: GroupResult[] = [];
+  for (const [group, values] of raw) {
+    const counts: Record<string, number> = {};
+    for (const value of values) {
+      for (const selected of selectedValues(value, variable.multipleAnswer)) {
+        const label = labelFor(selected);
+        categories.add(label);
+        counts[label] = (counts[label] ?? 0) + 1;
+      }
+    }
+    const numeric = variable.multipleAnswer ? [] : values.map(toNumber).filter((value): value is number => value !== null);
+    groups.push({
+      group,
+      n: values.length,
+      counts,
+      // Likert-style choice questions also get a mean of their numeric codes
+      ...(numeric.length > 0 && numeric.length === values.length ? { mean: round(mean(numeric), 3) } : {}),
+    });
+  }
+
+  if (variable.multipleAnswer) {
+    return {
+      key: variable.key,
+      label: variable.label,
+      kind,
+      groups,
+      test: null,
+      note: "Multi-select question: counts are selections, so no chi-square test is run",
+    };
+  }
+
+  const categoryList = Array.from(categories);
+  if (variable.choices.length === 0 && categoryList.length > MAX_FREE_CATEGORIES) {
+    return {
+      key: variable.key,
+      label: variable.label,
+      kind,
+      groups: groups.map(({ group, n }) => ({ group, n })),
+      test: null,
+      note: `${categoryList.length} distinct values looks like free text; no test is run`,
+    };
+  }
+  const test = chiSquareTest(groups.map(group => categoryList.map(category => group.counts![category] ?? 0)));
+  return {
+    key: variable.key,
+    label: variable.label,
+    kind,
+    groups,
+    test,
+    ...(test && test.lowExpectedShare > 0.2
+      ? { note: "More than 20% of cells have expected counts below 5; the chi-square p-value is approximate" }
+      : {}),
+  };
+}
+
+export function compareConditions(
+  definition: SurveyDefinition,
+  responses: SurveyResponse[],
+  options: CompareOptions
+): ConditionComparison {
+  const grouped = new Map<string, SurveyResponse[]>();
+  let ungrouped = 0;
+  for (const response of responses) {
+    const value = lookupFor(response)(options.groupBy);
+    if (value === undefined || value === null || value === "") {
+      ungrouped++;
+      continue;
+    }
+    const group = String(value);
+    if (!grouped.has(group)) grouped.set(group, []);
+    grouped.get(group)!.push(response);
+  }
+  const sorted = new Map(Array.from(grouped.entries()).sort(([a], [b]) => a.localeCompare(b)));
+  if (sorted.size < 2) {
+    throw new Error(`Grouping field '${options.groupBy}' has ${sorted.size} distinct value(s) in the data; at least two groups are needed`);
+  }
+
+  const categorical = new Set((options.categorical || []).map(field => field.toLowerCase()));
+  const compareAll = (fields: string[]) => fields.flatMap(field =>
+    resolveVariables(definition, field, categorical.has(field.toLowerCase())).map(variable => compareVariable(variable, sorted))
+  );
+
+  const result: ConditionComparison = {
+    groupBy: options.groupBy,
+    groups: Array.from(sorted.entries()).map(([group, members]) => ({ group, n: members.length })),
+    ungrouped,
+    allocation: equalAllocationTest(Array.from(sorted.values()).map(members => members.length)),
+    outcomes: compareAll(options.outcomes),
+  };
+
+  if (options.balanceItems && options.balanceItems.length > 0) {
+    const alpha = options.alpha ?? 0.05;
+    const checks = compareAll(options.balanceItems);
+    result.balance = {
+      checks,
+      imbalanced: checks.filter(check => check.test && check.test.pValue < alpha).map(check => check.key),
+    };
+  }
+
+  return result;
+}
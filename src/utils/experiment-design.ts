@@ -0,0 +1,115 @@
+import { NewFlowElement, blockFlowElement, embeddedDataFlowElement } from "./flow-tree.js";
+
+export class ExperimentDesignError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExperimentDesignError";
+  }
+}
+
+export interface ExperimentArm {
+  /** Value stored in the condition field for respondents in this arm */
+  label: string;
+  blocks: string[];
+  /** Relative share of respondents, as a whole number (default: 1) */
+  weight?: number;
+  /** Further embedded data set in this arm, e.g. one field per factor */
+  embeddedData?: Record<string, string>;
+}
+
+export interface RandomizerDesign {
+  arms: ExperimentArm[];
+  /** Embedded data field that records the arm (default: Condition) */
+  conditionField?: string;
+  /** Arms each respondent gets (default: 1) */
+  subset?: number;
+  evenPresentation?: boolean;
+}
+
+export interface Factor {
+  name: string;
+  levels: Array<string | { label: string; blocks?: string[] }>;
+}
+
+/** Factorial designs beyond this many cells are almost always a mistake in the factor list. */
+const MAX_CELLS = 64;
+
+/**
+ * A BlockRandomizer with one group per arm, each setting the condition field
+ * before showing the arm's blocks. Qualtrics randomizers have no weights, so an
+ * arm with weight 2 is listed twice; this only works when one arm is chosen.
+ */
+export function randomizerFlowElement(design: RandomizerDesign): NewFlowElement {
+  const conditionField = design.conditionField || "Condition";
+  const subset = design.subset ?? 1;
+  if (design.arms.length < 2) throw new ExperimentDesignError("A randomizer needs at least two arms");
+
+  const labels = new Set<string>();
+  for (const arm of design.arms) {
+    if (labels.has(arm.label)) throw new ExperimentDesignError(`Arm label '${arm.label}' is used twice`);
+    labels.add(arm.label);
+    if (arm.weight !== undefined && (!Number.isInteger(arm.weight) || arm.weight < 1)) {
+      throw new ExperimentDesignError(`Weight of arm '${arm.label}' must be a whole number of at least 1`);
+    }
+    if (arm.embeddedData && conditionField in arm.embeddedData) {
+      throw new ExperimentDesignError(`Arm '${arm.label}' sets ${conditionField}, which already records the arm`);
+    }
+  }
+  const weighted = design.arms.some(arm => (arm.weight ?? 1) > 1);
+  if (weighted && subset !== 1) {
+    throw new ExperimentDesignError("Weights only work when each respondent gets one arm (subset 1)");
+  }
+  if (!Number.isInteger(subset) || subset < 1 || subset > design.arms.length) {
+    throw new ExperimentDesignError(`Subset must be between 1 and the number of arms (${design.arms.length})`);
+  }
+
+  const groups = design.arms.flatMap(arm => {
+    const fields = [
+      { name: conditionField, value: arm.label },
+      ...Object.entries(arm.embeddedData || {}).map(([name, value]) => ({ name, value })),
+    ];
+    return Array.from({ length: arm.weight ?? 1 }, (): NewFlowElement => ({
+      Type: "Group",
+      Description: arm.label,
+      Flow: [embeddedDataFlowElement(fields), ...arm.blocks.map(blockFlowElement)],
+    }));
+  });
+
+  return {
+    Type: "BlockRandomizer",
+    SubSet: subset,
+    EvenPresentation: design.evenPresentation ?? true,
+    Flow: groups,
+  };
+}
+
+/**
+ * One arm per cell of a full factorial design. Each arm records its level of
+ * every factor in a field named after the factor, and shows the blocks of its
+ * levels in factor order. Cell labels join the levels with "_", e.g. gain_high.
+ */
+export function factorialArms(factors: Factor[]): ExperimentArm[] {
+  if (factors.length === 0) throw new ExperimentDesignError("Give at least one factor");
+  const names = new Set<string>();
+  for (const factor of factors) {
+    if (names.has(factor.name)) throw new ExperimentDesignError(`Factor '${factor.name}' is listed twice`);
+    names.add(factor.name);
+    if (factor.levels.length < 2) throw new ExperimentDesignError(`Factor '${factor.name}' needs at least two levels`);
+  }
+  const cells = factors.reduce((count, factor) => count * factor.levels.length, 1);
+  if (cells > MAX_CELLS) throw new ExperimentDesignError(`The design has ${cells} cells; the limit is ${MAX_CELLS}`);
+
+  let arms: ExperimentArm[] = [{ label: "", blocks: [], embeddedData: {} }];
+  for (const factor of factors) {
+    const levels = factor.levels.map(level => (typeof level === "string" ? { label: level, blocks: [] } : level));
+    if (new Set(levels.map(level => level.label)).size !== levels.length) {
+      throw new ExperimentDesignError(`Factor '${factor.name}' has a repeated level`);
+    }
+    arms = arms.flatMap(arm => levels.map(level => ({
+      label: arm.label ? `${arm.label}_${level.label}` : level.label,
+      blocks: [...arm.blocks, ...(level.blocks || [])],
+      embeddedData: { ...arm.embeddedData, [factor.name]: level.label },
+    })));
+  }
+  return arms;
+}
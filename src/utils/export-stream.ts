@@ -0,0 +1,544 @@
+import { Transform, TransformCallback } from "stream";
+import { StringDecoder } from "string_decoder";
+import { createInflateRaw, Inflate } from "zlib";
+import { evaluateFilter, ExportTagResolver, FieldLookup, FilterExpression, filterFields, jsonResponseLookup } from "./response-filter.js";
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const LOCAL_FILE_HEADER_SIZE = 30;
+
+/**
+ * Extracts the first entry of a zip archive as it streams in. Qualtrics export
+ * archives contain a single file, so everything after that entry (the central
+ * directory) is discarded. Input that is not a zip archive passes through as-is.
+ */
+export class ZipEntryExtractor extends Transform {
+  private header: Buffer | null = Buffer.alloc(0);
+  private mode: "header" | "deflate" | "stored" | "passthrough" | "done" = "header";
+  private storedRemaining = 0;
+  private inflater: Inflate | null = null;
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    if (this.mode === "header") {
+      this.header = Buffer.concat([this.header!, chunk]);
+      if (this.header.length < LOCAL_FILE_HEADER_SIZE) return callback();
+
+      if (this.header.readUInt32LE(0) !== LOCAL_FILE_HEADER) {
+        this.mode = "passthrough";
+        const buffered = this.header;
+        this.header = null;
+        this.push(buffered);
+        return callback();
+      }
+
+      const flags = this.header.readUInt16LE(6);
+      const method = this.header.readUInt16LE(8);
+      const compressedSize = this.header.readUInt32LE(18);
+      const dataStart = LOCAL_FILE_HEADER_SIZE + this.header.readUInt16LE(26) + this.header.readUInt16LE(28);
+      if (this.header.length < dataStart) return callback();
+
+      const rest = this.header.subarray(dataStart);
+      this.header = null;
+
+      if (method === 0) {
+        if (flags & 0x08) {
+          return callback(new Error("Unsupported zip entry: stored data with trailing data descriptor"));
+        }
+        this.mode = "stored";
+        this.storedRemaining = compressedSize;
+        return this._transform(rest, _encoding, callback);
+      }
+      if (method !== 8) {
+        return callback(new Error(`Unsupported zip compression method: ${method}`));
+      }
+
+      this.mode = "deflate";
+      this.inflater = createInflateRaw();
+      this.inflater.on("data", (data: Buffer) => {
+        if (!this.push(data)) this.inflater!.pause();
+      });
+      this.inflater.on("error", (error) => this.destroy(error));
+      this.inflater.on("end", () => { this.mode = "done"; });
+      return this.writeToInflater(rest, callback);
+    }
+
+    switch (this.mode) {
+      case "passthrough":
+        this.push(chunk);
+        return callback();
+      case "stored": {
+        const slice = chunk.subarray(0, this.storedRemaining);
+        this.storedRemaining -= slice.length;
+        if (slice.length > 0) this.push(slice);
+        if (this.storedRemaining === 0) this.mode = "done";
+        return callback();
+      }
+      case "deflate":
+        return this.writeToInflater(chunk, callback);
+      default:
+        return callback();
+    }
+  }
+
+  _read(size: number): void {
+    this.inflater?.resume();
+    super._read(size);
+  }
+
+  _flush(callback: TransformCallback): void {
+    if (this.mode === "header" && this.header && this.header.length > 0) {
+      // Too short to be a zip archive
+      this.push(this.header);
+      return callback();
+    }
+    if (!this.inflater || this.mode === "done") return callback();
+    this.inflater.once("end", () => callback());
+    this.inflater.end();
+  }
+
+  private writeToInflater(chunk: Buffer, callback: TransformCallback): void {
+    // The deflate stream knows its own end; trailing archive bytes are ignored
+    if (chunk.length === 0 || this.mode === "done") return callback();
+    if (this.inflater!.write(chunk)) return callback();
+    this.inflater!.once("drain", () => callback());
+  }
+}
+
+export interface ExportStreamStats {
+  bytes: number;
+  rowCount: number | null;
+}
+
+/** Qualtrics CSV/TSV exports carry three header rows (column names, question text, import IDs). */
+const DELIMITED_HEADER_ROWS = 3;
+
+/** Marker that appears once per response in text formats without a row-per-line layout. */
+const RECORD_PATTERNS: Record<string, RegExp> = {
+  json: /"responseId"\s*:/,
+  xml: /<Response>/,
+};
+
+/**
+ * Pass-through stream that measures an export as it is written: total bytes and
+ * the number of response rows (CSV/TSV records outside quoted fields, NDJSON
+ * lines, or per-response markers in JSON and XML). Binary formats report no
+ * row count.
+ */
+export class ExportStatsCounter extends Transform {
+  private bytes = 0;
+  private records = 0;
+  private inQuotes = false;
+  private lastByte = -1;
+  private tail = "";
+
+  constructor(private format: string) {
+    super();
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.bytes += chunk.length;
+
+    if (this.format === "csv" || this.format === "tsv") {
+      for (let i = 0; i < chunk.length; i++) {
+        const byte = chunk[i];
+        if (byte === 0x22) this.inQuotes = !this.inQuotes;
+        else if (byte === 0x0a && !this.inQuotes) this.records++;
+      }
+      if (chunk.length > 0) this.lastByte = chunk[chunk.length - 1];
+    } else if (this.format === "ndjson") {
+      for (let i = 0; i < chunk.length; i++) {
+        if (chunk[i] === 0x0a) this.records++;
+      }
+    } else if (RECORD_PATTERNS[this.format]) {
+      const text = this.tail + chunk.toString("utf8");
+      const pattern = new RegExp(RECORD_PATTERNS[this.format].source, "g");
+      let lastMatchEnd = 0;
+      let match;
+      while ((match = pattern.exec(text)) !== null) {
+        this.records++;
+        lastMatchEnd = match.index + match[0].length;
+      }
+      // Keep a short tail so keys split across chunks are still seen, without double-counting
+      this.tail = text.slice(Math.max(lastMatchEnd, text.length - 32));
+    }
+
+    callback(null, chunk);
+  }
+
+  stats(): ExportStreamStats {
+    if (this.format === "csv" || this.format === "tsv") {
+      const records = this.records + (this.bytes > 0 && this.lastByte !== 0x0a ? 1 : 0);
+      return { bytes: this.bytes, rowCount: Math.max(0, records - DELIMITED_HEADER_ROWS) };
+    }
+    if (this.format === "ndjson" || RECORD_PATTERNS[this.format]) {
+      return { bytes: this.bytes, rowCount: this.records };
+    }
+    return { bytes: this.bytes, rowCount: null };
+  }
+}
+
+export interface DownloadProgress {
+  bytesDownloaded: number;
+  totalBytes: number | null;
+  percent: number | null;
+}
+
+/** Pass-through stream that reports download progress at most every `intervalMs`. */
+export class ProgressTracker extends Transform {
+  private bytesDownloaded = 0;
+  private lastReport = 0;
+
+  constructor(
+    private totalBytes: number | null,
+    private onProgress: (progress: DownloadProgress) => void,
+    private intervalMs = 2000
+  ) {
+    super();
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.bytesDownloaded += chunk.length;
+    const now = Date.now();
+    if (now - this.lastReport >= this.intervalMs) {
+      this.lastReport = now;
+      this.report();
+    }
+    callback(null, chunk);
+  }
+
+  _flush(callback: TransformCallback): void {
+    this.report();
+    callback();
+  }
+
+  private report(): void {
+    this.onProgress({
+      bytesDownloaded: this.bytesDownloaded,
+      totalBytes: this.totalBytes,
+      percent: this.totalBytes ? Math.round((this.bytesDownloaded / this.totalBytes) * 100) : null,
+    });
+  }
+}
+
+/**
+ * Converts a Qualtrics JSON export (`{"responses": [...]}`) into NDJSON as it
+ * streams, emitting each element of the top-level array on its own line.
+ */
+export class NdjsonConverter extends Transform {
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private current: string[] = [];
+  private capturing = false;
+  // Multi-byte characters may be split across chunks
+  private decoder = new StringDecoder("utf8");
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    const text = this.decoder.write(chunk);
+    const lines: string[] = [];
+    let start = 0;
+
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+
+      if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (ch === "\\") this.escaped = true;
+        else if (ch === '"') this.inString = false;
+        continue;
+      }
+
+      if (ch === '"') {
+        this.inString = true;
+      } else if (ch === "{" || ch === "[") {
+        this.depth++;
+        // depth 1 is the wrapper object, depth 2 the responses array
+        if (this.depth === 3 && !this.capturing) {
+          this.capturing = true;
+          start = i;
+        }
+      } else if (ch === "}" || ch === "]") {
+        this.depth--;
+        if (this.depth === 2 && this.capturing) {
+          this.current.push(text.slice(start, i + 1));
+          lines.push(this.current.join("").replace(/[\r\n]+/g, "") + "\n");
+          this.current = [];
+          this.capturing = false;
+        }
+      }
+    }
+
+    if (this.capturing) {
+      this.current.push(text.slice(start));
+    }
+    callback(null, lines.length > 0 ? lines.join("") : undefined);
+  }
+}
+
+export interface RowFilterStats {
+  totalRows: number;
+  matchedRows: number;
+  /** Fields referenced by the filter that were not found in any row */
+  unresolvedFields: string[];
+}
+
+/** Evaluates a filter row by row, counting matches and which fields ever resolved. */
+class RowMatcher {
+  private total = 0;
+  private matched = 0;
+  private fields: string[];
+  private resolved = new Set<string>();
+
+  constructor(private expression: FilterExpression) {
+    this.fields = filterFields(expression);
+  }
+
+  test(lookup: FieldLookup): boolean {
+    this.total++;
+    // Checked up front because and/or short-circuit and may skip a field
+    for (const field of this.fields) {
+      if (!this.resolved.has(field) && lookup(field) !== undefined) this.resolved.add(field);
+    }
+    const matches = evaluateFilter(this.expression, lookup);
+    if (matches) this.matched++;
+    return matches;
+  }
+
+  stats(): RowFilterStats {
+    return {
+      totalRows: this.total,
+      matchedRows: this.matched,
+      unresolvedFields: this.fields.filter(field => !this.resolved.has(field)),
+    };
+  }
+}
+
+/**
+ * Keeps the NDJSON lines whose response matches the filter. Answers are keyed by
+ * QID, so fields given as export tags need resolveTag.
+ */
+export class NdjsonRowFilter extends Transform {
+  private matcher: RowMatcher;
+  private partial = "";
+  private decoder = new StringDecoder("utf8");
+
+  constructor(expression: FilterExpression, private resolveTag?: ExportTagResolver) {
+    super();
+    this.matcher = new RowMatcher(expression);
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    const lines = (this.partial + this.decoder.write(chunk)).split("\n");
+    this.partial = lines.pop()!;
+    callback(null, this.filterLines(lines) || undefined);
+  }
+
+  _flush(callback: TransformCallback): void {
+    const rest = this.partial + this.decoder.end();
+    callback(null, rest.trim() ? this.filterLines([rest]) || undefined : undefined);
+  }
+
+  stats(): RowFilterStats {
+    return this.matcher.stats();
+  }
+
+  private filterLines(lines: string[]): string {
+    return lines
+      .filter(line => line.trim() && this.matcher.test(jsonResponseLookup(JSON.parse(line), this.resolveTag)))
+      .map(line => line + "\n")
+      .join("");
+  }
+}
+
+/** Re-wraps NDJSON lines as a Qualtrics-style `{"responses": [...]}` JSON document. */
+export class NdjsonToJsonArray extends Transform {
+  private started = false;
+  private first = true;
+  private partial = "";
+  private decoder = new StringDecoder("utf8");
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    const lines = (this.partial + this.decoder.write(chunk)).split("\n");
+    this.partial = lines.pop()!;
+    callback(null, this.wrapLines(lines) || undefined);
+  }
+
+  _flush(callback: TransformCallback): void {
+    const rest = this.partial + this.decoder.end();
+    callback(null, this.wrapLines(rest.trim() ? [rest] : []) + "]}");
+  }
+
+  private wrapLines(lines: string[]): string {
+    let output = this.started ? "" : '{"responses":[';
+    this.started = true;
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      output += (this.first ? "" : ",") + line;
+      this.first = false;
+    }
+    return output;
+  }
+}
+
+/**
+ * Keeps the CSV/TSV data rows that match the filter. The three Qualtrics header
+ * rows pass through unchanged; columns are looked up by header name or by the
+ * ImportId in the third row (e.g. QID3, finished, duration).
+ */
+export class DelimitedRowFilter extends Transform {
+  private matcher: RowMatcher;
+  private decoder = new StringDecoder("utf8");
+  private record = "";
+  private inQuotes = false;
+  private headerRows: string[][] = [];
+  private columns = new Map<string, number>();
+
+  constructor(expression: FilterExpression, private delimiter: string) {
+    super();
+    this.matcher = new RowMatcher(expression);
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    callback(null, this.consume(this.decoder.write(chunk)) || undefined);
+  }
+
+  _flush(callback: TransformCallback): void {
+    let output = this.consume(this.decoder.end());
+    if (this.record.trim()) output += this.handleRecord(this.record);
+    this.record = "";
+    callback(null, output || undefined);
+  }
+
+  stats(): RowFilterStats {
+    return this.matcher.stats();
+  }
+
+  private consume(text: string): string {
+    let output = "";
+    let start = 0;
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+      if (ch === '"') this.inQuotes = !this.inQuotes;
+      else if (ch === "\n" && !this.inQuotes) {
+        output += this.handleRecord(this.record + text.slice(start, i + 1));
+        this.record = "";
+        start = i + 1;
+      }
+    }
+    this.record += text.slice(start);
+    return output;
+  }
+
+  private handleRecord(raw: string): string {
+    const fields = parseDelimitedRecord(raw.replace(/\r?\n$/, ""), this.delimiter);
+
+    if (this.headerRows.length < DELIMITED_HEADER_ROWS) {
+      this.headerRows.push(fields);
+      if (this.headerRows.length === DELIMITED_HEADER_ROWS) this.indexColumns();
+      return raw;
+    }
+
+    const matches = this.matcher.test((field) => {
+      const index = this.columns.get(field.toLowerCase());
+      return index === undefined ? undefined : fields[index] ?? "";
+    });
+    return matches ? raw : "";
+  }
+
+  private indexColumns(): void {
+    const [names, , importIds] = this.headerRows;
+    names.forEach((name, index) => {
+      const key = name.replace(/^\uFEFF/, "").toLowerCase();
+      if (!this.columns.has(key)) this.columns.set(key, index);
+    });
+    importIds.forEach((raw, index) => {
+      let importId = raw;
+      try {
+        importId = JSON.parse(raw).ImportId ?? raw;
+      } catch {
+        // Not JSON; use the cell as-is
+      }
+      const key = String(importId).toLowerCase();
+      if (!this.columns.has(key)) this.columns.set(key, index);
+    });
+  }
+}
+
+function parseDelimitedRecord(record: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let current = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < record.length; i++) {
+    const ch = record[i];
+    if (inQuotes) {
+      if (ch === '"' && record[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        current += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      fields.push(current);
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  fields.push(current);
+  return fields;
+}
+
+/**
+ * Splits a CSV/TSV stream into records, honouring quoted fields with embedded
+ * newlines, and emits each one as an array of fields. A leading byte order mark
+ * is dropped.
+ */
+export class DelimitedRecordParser extends Transform {
+  private decoder = new StringDecoder("utf8");
+  private record = "";
+  private inQuotes = false;
+  private started = false;
+
+  constructor(private delimiter: string) {
+    super({ readableObjectMode: true });
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.consume(this.decoder.write(chunk));
+    callback();
+  }
+
+  _flush(callback: TransformCallback): void {
+    this.consume(this.decoder.end());
+    this.emitRecord(this.record);
+    this.record = "";
+    callback();
+  }
+
+  private consume(text: string): void {
+    if (!this.started && text) {
+      text = text.replace(/^\uFEFF/, "");
+      this.started = true;
+    }
+    let start = 0;
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+      if (ch === '"') this.inQuotes = !this.inQuotes;
+      else if (ch === "\n" && !this.inQuotes) {
+        this.emitRecord(this.record + text.slice(start, i));
+        this.record = "";
+        start = i + 1;
+      }
+    }
+    this.record += text.slice(start);
+  }
+
+  private emitRecord(raw: string): void {
+    const record = raw.replace(/\r$/, "");
+    if (record.length > 0) this.push(parseDelimitedRecord(record, this.delimiter));
+  }
+}
@@ -0,0 +1,215 @@
+import type { SurveyDefinition } from "../types/index.js";
+import { stripHtml, surveyQuestions } from "./survey-definition.js";
+
+export class ExportTagError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExportTagError";
+  }
+}
+
+export const EXPORT_TAG_STYLES = ["sequential", "block", "slug"] as const;
+
+export interface ExportTagScheme {
+  /**
+   * sequential: <prefix><n>, e.g. Q12; block: <prefix>_<block>_<n>, numbered
+   * within the block, e.g. Q_demographics_3; slug: the first words of the
+   * question text, e.g. how_old_are_you
+   */
+  style: (typeof EXPORT_TAG_STYLES)[number];
+  /** Default "Q" for sequential and block tags, none for slugs */
+  prefix?: string;
+}
+
+export const DEFAULT_EXPORT_TAG_SCHEME: ExportTagScheme = { style: "sequential", prefix: "Q" };
+
+export interface Retag {
+  questionId: string;
+  from: string;
+  to: string;
+}
+
+/** Tags that load as column names in R, Python and SPSS without renaming. */
+const TAG_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+const MAX_SLUG_WORDS = 5;
+const MAX_SLUG_LENGTH = 32;
+const MAX_BLOCK_SLUG_LENGTH = 20;
+
+/** Lowercase words of text joined by "_", without HTML, piped text or accents. */
+export function slugify(text: string, maxLength = MAX_SLUG_LENGTH): string {
+  const words = stripHtml(text)
+    .replace(/\$\{[^}]*\}/g, " ")
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .match(/[a-z0-9]+/g) || [];
+  let slug = "";
+  for (const word of words.slice(0, MAX_SLUG_WORDS)) {
+    const next = slug ? `${slug}_${word}` : word;
+    if (next.length > maxLength) break;
+    slug = next;
+  }
+  return slug || (words[0] || "").slice(0, maxLength);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Hands out DataExportTags that are unique in a survey. Tags already used by
+ * its questions are taken, except those of released questions (the ones being
+ * retagged); every tag handed out is taken too, so the same definition always
+ * yields the same tags.
+ */
+export class ExportTagAllocator {
+  private taken = new Set<string>();
+  private blockSlugs = new Map<string, string>();
+
+  constructor(definition: SurveyDefinition, released: Iterable<string> = []) {
+    const skip = new Set(released);
+    for (const [questionId, question] of Object.entries<Record<string, any>>(definition.Questions || {})) {
+      if (!skip.has(questionId) && question.DataExportTag) this.taken.add(question.DataExportTag);
+    }
+    for (const [blockId, block] of Object.entries(definition.Blocks || {})) {
+      this.blockSlugs.set(blockId, slugify(block.Description || "", MAX_BLOCK_SLUG_LENGTH) || slugify(blockId, MAX_BLOCK_SLUG_LENGTH));
+    }
+  }
+
+  /** Takes a specific tag, or throws if it is malformed or already used. */
+  claim(tag: string): string {
+    if (!TAG_PATTERN.test(tag)) {
+      throw new ExportTagError(`Export tag '${tag}' must start with a letter and contain only letters, digits and underscores`);
+    }
+    if (this.taken.has(tag)) throw new ExportTagError(`Export tag '${tag}' is already used in this survey`);
+    this.taken.add(tag);
+    return tag;
+  }
+
+  /** Takes the next free tag in scheme for a question in blockId with the given text. */
+  next(scheme: ExportTagScheme, question: { blockId?: string; questionText?: string } = {}): string {
+    const prefix = scheme.prefix ?? (scheme.style === "slug" ? "" : "Q");
+    if (prefix && !TAG_PATTERN.test(prefix)) {
+      throw new ExportTagError(`Tag prefix '${prefix}' must start with a letter and contain only letters, digits and underscores`);
+    }
+
+    if (scheme.style === "block") {
+      if (!question.blockId) throw new ExportTagError("Block tags need the question's block");
+      const blockSlug = this.blockSlugs.get(question.blockId) || slugify(question.blockId, MAX_BLOCK_SLUG_LENGTH);
+      return this.numbered(this.startWithLetter(prefix ? `${prefix}_${blockSlug}` : blockSlug) + "_");
+    }
+    if (scheme.style === "slug") {
+      const slug = slugify(question.questionText || "");
+      if (!slug) return this.numbered(prefix || "Q");
+      const base = this.startWithLetter(prefix ? `${prefix}_${slug}` : slug);
+      let tag = base;
+      for (let n = 2; this.taken.has(tag); n++) tag = `${base}_${n}`;
+      return this.claim(tag);
+    }
+    return this.numbered(prefix || "Q");
+  }
+
+  /** base followed by one more than the highest number already used after it. */
+  private numbered(base: string): string {
+    const pattern = new RegExp(`^${escapeRegExp(base)}(\\d+)$`);
+    let highest = 0;
+    for (const tag of this.taken) {
+      const match = pattern.exec(tag);
+      if (match) highest = Math.max(highest, Number(match[1]));
+    }
+    return this.claim(`${base}${highest + 1}`);
+  }
+
+  private startWithLetter(tag: string): string {
+    return /^[A-Za-z]/.test(tag) ? tag : `q_${tag}`;
+  }
+}
+
+/**
+ * The export tag changes for a bulk retag, either explicit renames keyed by QID
+ * or current tag, or new tags in scheme for questionIds (default: every
+ * question in a block) in presentation order. Questions whose tag would not
+ * change are left out. Throws ExportTagError if any new tag is malformed or
+ * clashes with another question's tag.
+ */
+export function planRetag(
+  definition: SurveyDefinition,
+  request: { renames?: Record<string, string>; scheme?: ExportTagScheme; questionIds?: string[] }
+): Retag[] {
+  const questions = (definition.Questions || {}) as Record<string, Record<string, any>>;
+  const currentTag = (questionId: string) => questions[questionId].DataExportTag || questionId;
+
+  if (request.renames) {
+    const targets = new Map<string, string>();
+    for (const [ref, to] of Object.entries(request.renames)) {
+      const matches = questions[ref]
+        ? [ref]
+        : Object.keys(questions).filter(questionId => questions[questionId].DataExportTag === ref);
+      if (matches.length === 0) throw new ExportTagError(`No question has the ID or export tag '${ref}'`);
+      if (matches.length > 1) throw new ExportTagError(`Export tag '${ref}' is shared by ${matches.join(", ")}; rename them by QID`);
+      if (targets.has(matches[0])) throw new ExportTagError(`${matches[0]} is renamed twice`);
+      targets.set(matches[0], to);
+    }
+    const allocator = new ExportTagAllocator(definition, targets.keys());
+    return [...targets].map(([questionId, to]) => ({ questionId, from: currentTag(questionId), to: allocator.claim(to) }))
+      .filter(retag => retag.from !== retag.to);
+  }
+
+  const ordered = surveyQuestions(definition);
+  let selected = ordered.filter(info => info.blockId !== undefined);
+  if (request.questionIds) {
+    const missing = request.questionIds.filter(questionId => !questions[questionId]);
+    if (missing.length > 0) throw new ExportTagError(`Questions not found: ${missing.join(", ")}`);
+    const wanted = new Set(request.questionIds);
+    selected = ordered.filter(info => wanted.has(info.questionId));
+  }
+  const allocator = new ExportTagAllocator(definition, selected.map(info => info.questionId));
+  const scheme = request.scheme || DEFAULT_EXPORT_TAG_SCHEME;
+  return selected
+    .map(info => ({
+      questionId: info.questionId,
+      from: currentTag(info.questionId),
+      to: allocator.next(scheme, { blockId: info.blockId, questionText: questions[info.questionId].QuestionText }),
+    }))
+    .filter(retag => retag.from !== retag.to);
+}
+
+export interface RetagStep {
+  questionId: string;
+  tag: string;
+}
+
+/**
+ * Orders the saves for a set of retags so no two questions ever share a tag:
+ * a question is renamed only once its new tag is free, and in a cycle (e.g. a
+ * swap) one question first moves to a temporary tag unused in the survey.
+ */
+export function retagSteps(definition: SurveyDefinition, retags: Retag[]): RetagStep[] {
+  const used = new Set(Object.values<Record<string, any>>(definition.Questions || {})
+    .map(question => question.DataExportTag)
+    .filter(Boolean));
+  const current = new Map(retags.map(retag => [retag.questionId, retag.from]));
+  const held = (tag: string) => [...current.values()].includes(tag);
+  const pending = [...retags];
+  const steps: RetagStep[] = [];
+
+  const move = (questionId: string, tag: string) => {
+    current.set(questionId, tag);
+    steps.push({ questionId, tag });
+  };
+
+  while (pending.length > 0) {
+    const ready = pending.findIndex(retag => !held(retag.to));
+    if (ready !== -1) {
+      const [retag] = pending.splice(ready, 1);
+      move(retag.questionId, retag.to);
+      continue;
+    }
+    const blocked = pending[0];
+    let temporary = `${blocked.to}_tmp`;
+    for (let n = 2; used.has(temporary) || held(temporary); n++) temporary = `${blocked.to}_tmp${n}`;
+    used.add(temporary);
+    move(blocked.questionId, temporary);
+  }
+  return steps;
+}
@@ -1,35 +1,133 @@
-export async function saveExportToFile(
-  fileData: string,
+import { Readable, Transform } from "stream";
+import type { ReadableStream as WebReadableStream } from "stream/web";
+import {
+  DelimitedRowFilter,
+  DownloadProgress,
+  ExportStatsCounter,
+  NdjsonConverter,
+  NdjsonRowFilter,
+  NdjsonToJsonArray,
+  ProgressTracker,
+  RowFilterStats,
+  ZipEntryExtractor,
+} from "./export-stream.js";
+import type { ExportTagResolver, FilterExpression } from "./response-filter.js";
+
+export interface SavedExport {
+  filePath: string;
+  fileSizeBytes: number;
+  fileSizeMB: string;
+  wasAutoSaved: boolean;
+}
+
+export interface StreamedExport extends SavedExport {
+  rowCount: number | null;
+  downloadedBytes: number;
+  /** Present when a row filter was applied; rowCount is then the matched rows */
+  filter?: RowFilterStats;
+}
+
+const LARGE_FILE_BYTES = 100 * 1024;
+
+interface ExportFormatInfo {
+  extension: string;
+  /** Format requested from Qualtrics; differs when the file is converted locally */
+  qualtricsFormat: string;
+  binary: boolean;
+}
+
+const EXPORT_FORMATS: Record<string, ExportFormatInfo> = {
+  json: { extension: "json", qualtricsFormat: "json", binary: false },
+  csv: { extension: "csv", qualtricsFormat: "csv", binary: false },
+  tsv: { extension: "tsv", qualtricsFormat: "tsv", binary: false },
+  spss: { extension: "sav", qualtricsFormat: "spss", binary: true },
+  xml: { extension: "xml", qualtricsFormat: "xml", binary: false },
+  ndjson: { extension: "ndjson", qualtricsFormat: "json", binary: false },
+};
+
+function formatInfo(format: string): ExportFormatInfo {
+  return EXPORT_FORMATS[format] ?? { extension: format, qualtricsFormat: format, binary: false };
+}
+
+export function exportFileExtension(format: string): string {
+  return formatInfo(format).extension;
+}
+
+export function qualtricsExportFormat(format: string): string {
+  return formatInfo(format).qualtricsFormat;
+}
+
+export function isBinaryExportFormat(format: string): boolean {
+  return formatInfo(format).binary;
+}
+
+/** Formats whose rows can be filtered locally while streaming. */
+export function supportsRowFilter(format: string): boolean {
+  return ["json", "ndjson", "csv", "tsv"].includes(format);
+}
+
+/** Builds the transforms that apply a row filter for the given format. */
+function rowFilterStages(format: string, expression: FilterExpression, resolveTag?: ExportTagResolver): {
+  stages: Transform[];
+  stats: () => RowFilterStats;
+} {
+  if (format === "csv" || format === "tsv") {
+    const filter = new DelimitedRowFilter(expression, format === "csv" ? "," : "\t");
+    return { stages: [filter], stats: () => filter.stats() };
+  }
+  if (format === "json" || format === "ndjson") {
+    const filter = new NdjsonRowFilter(expression, resolveTag);
+    // ndjson already gets a converter in the main pipeline
+    const stages: Transform[] = format === "json"
+      ? [new NdjsonConverter(), filter, new NdjsonToJsonArray()]
+      : [filter];
+    return { stages, stats: () => filter.stats() };
+  }
+  throw new Error(`Row filters are not supported for ${format} exports; use json, ndjson, csv or tsv`);
+}
+
+async function resolveExportPath(
   surveyId: string,
   format: string,
   saveToFile?: string,
   suffix?: string
-): Promise<{ filePath: string; fileSizeBytes: number; fileSizeMB: string; wasAutoSaved: boolean }> {
-  const fs = await import("fs/promises");
+): Promise<string> {
   const path = await import("path");
   const os = await import("os");
 
-  const fileSizeBytes = Buffer.byteLength(fileData, "utf8");
-  const fileSizeMB = (fileSizeBytes / (1024 * 1024)).toFixed(2);
-  const isLargeFile = fileSizeBytes > 100 * 1024;
-
-  let filePath: string;
   if (saveToFile) {
     const filename = saveToFile.includes(".")
       ? saveToFile
-      : `${saveToFile}.${format === "json" ? "json" : "csv"}`;
-    filePath = path.isAbsolute(filename)
+      : `${saveToFile}.${exportFileExtension(format)}`;
+    return path.isAbsolute(filename)
       ? filename
       : path.join(os.homedir(), "Downloads", filename);
-  } else {
-    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-    const suffixStr = suffix ? `_${suffix}` : "";
-    const filename = `survey_${surveyId}${suffixStr}_${timestamp}.${format === "json" ? "json" : "csv"}`;
-    filePath = path.join(os.homedir(), "Downloads", filename);
   }
 
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const suffixStr = suffix ? `_${suffix}` : "";
+  const filename = `survey_${surveyId}${suffixStr}_${timestamp}.${exportFileExtension(format)}`;
+  return path.join(os.homedir(), "Downloads", filename);
+}
+
+export async function saveExportToFile(
+  fileData: string | Buffer,
+  surveyId: string,
+  format: string,
+  saveToFile?: string,
+  suffix?: string
+): Promise<SavedExport> {
+  const fs = await import("fs/promises");
+  const path = await import("path");
+
+  const fileSizeBytes = typeof fileData === "string" ? Buffer.byteLength(fileData, "utf8") : fileData.length;
+  const fileSizeMB = (fileSizeBytes / (1024 * 1024)).toFixed(2);
+  const isLargeFile = fileSizeBytes > LARGE_FILE_BYTES;
+
+  const filePath = await resolveExportPath(surveyId, format, saveToFile, suffix);
+
   await fs.mkdir(path.dirname(filePath), { recursive: true });
-  await fs.writeFile(filePath, fileData, "utf8");
+  await fs.writeFile(filePath, fileData, typeof fileData === "string" ? "utf8" : undefined);
 
   return {
     filePath,
@@ -38,3 +136,64 @@ export async function saveExportToFile(
     wasAutoSaved: isLargeFile && !saveToFile,
   };
 }
+
+/**
+ * Streams an export download straight to disk, unzipping compressed archives on
+ * the fly (converting JSON to NDJSON and dropping rows that fail `rowFilter` when
+ * requested) while measuring size and row count as the data is written. The file
+ * is never held in memory.
+ */
+export async function streamExportToFile(
+  body: WebReadableStream<Uint8Array>,
+  surveyId: string,
+  format: string,
+  options: {
+    saveToFile?: string;
+    suffix?: string;
+    totalBytes?: number | null;
+    onProgress?: (progress: DownloadProgress) => void;
+    rowFilter?: FilterExpression;
+    resolveTag?: ExportTagResolver;
+  } = {}
+): Promise<StreamedExport> {
+  const fs = await import("fs");
+  const path = await import("path");
+  const { pipeline } = await import("stream/promises");
+
+  const filePath = await resolveExportPath(surveyId, format, options.saveToFile, options.suffix);
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+
+  let downloadedBytes = 0;
+  const tracker = new ProgressTracker(options.totalBytes ?? null, (progress) => {
+    downloadedBytes = progress.bytesDownloaded;
+    options.onProgress?.(progress);
+  });
+  const counter = new ExportStatsCounter(format);
+  const filter = options.rowFilter ? rowFilterStages(format, options.rowFilter, options.resolveTag) : null;
+
+  try {
+    await pipeline(
+      Readable.fromWeb(body),
+      tracker,
+      new ZipEntryExtractor(),
+      ...(format === "ndjson" ? [new NdjsonConverter()] : []),
+      ...(filter ? filter.stages : []),
+      counter,
+      fs.createWriteStream(filePath)
+    );
+  } catch (error) {
+    await fs.promises.rm(filePath, { force: true });
+    throw error;
+  }
+
+  const { bytes, rowCount } = counter.stats();
+  return {
+    filePath,
+    fileSizeBytes: bytes,
+    fileSizeMB: (bytes / (1024 * 1024)).toFixed(2),
+    wasAutoSaved: bytes > LARGE_FILE_BYTES && !options.saveToFile,
+    rowCount,
+    downloadedBytes,
+    ...(filter ? { filter: filter.stats() } : {}),
+  };
+}
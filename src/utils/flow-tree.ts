@@ -0,0 +1,314 @@
+import type { FlowContainer, FlowElement, SurveyFlow } from "../types/index.js";
+import { describeLogic } from "./survey-definition.js";
+
+export class FlowTreeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FlowTreeError";
+  }
+}
+
+/** A flow element before it is placed in a flow; FlowIDs are assigned on insert. */
+export type NewFlowElement = { Type: string; FlowID?: string; Flow?: NewFlowElement[]; [key: string]: unknown };
+
+/**
+ * Where to put an element: before or after an existing element, or at an index
+ * (default: the end) of a container's flow (default: the root). Elements are
+ * referred to by FlowID (FL_12) or by path, the dot-separated zero-based
+ * indexes from the root (2.0 is the first child of the third top-level element).
+ */
+export interface FlowPosition {
+  parent?: string;
+  index?: number;
+  before?: string;
+  after?: string;
+}
+
+export interface FlowLocation {
+  element: FlowElement;
+  parent: SurveyFlow | FlowContainer;
+  index: number;
+  path: string;
+}
+
+const CONTAINER_TYPES = new Set(["BlockRandomizer", "Branch", "Group", "Authenticator"]);
+const FLOW_ID_PATTERN = /^FL_(\d+)$/;
+const PATH_PATTERN = /^\d+(\.\d+)*$/;
+
+export function isFlowContainer(element: { Type: string }): element is FlowContainer {
+  return CONTAINER_TYPES.has(element.Type);
+}
+
+function parseElements(elements: unknown, path: string): FlowElement[] {
+  if (!Array.isArray(elements)) throw new FlowTreeError(`Flow at ${path || "the root"} is not a list`);
+  return elements.map((raw, index) => {
+    const at = path ? `${path}.${index}` : String(index);
+    if (!raw || typeof raw !== "object" || typeof raw.Type !== "string") {
+      throw new FlowTreeError(`Flow element ${at} has no Type`);
+    }
+    if (typeof raw.FlowID !== "string") throw new FlowTreeError(`Flow element ${at} (${raw.Type}) has no FlowID`);
+    const element = { ...raw } as FlowElement;
+    if (isFlowContainer(element) || raw.Flow !== undefined) element.Flow = parseElements(raw.Flow ?? [], at);
+    if ((element.Type === "Block" || element.Type === "Standard") && typeof element.ID !== "string") {
+      throw new FlowTreeError(`Block flow element ${at} (${element.FlowID}) has no block ID`);
+    }
+    if (element.Type === "EmbeddedData" && !Array.isArray(element.EmbeddedData)) {
+      throw new FlowTreeError(`Embedded data flow element ${at} (${element.FlowID}) has no field list`);
+    }
+    return element;
+  });
+}
+
+/** Checks the shape of a flow from the API and copies it into the typed model. */
+export function parseFlow(raw: unknown): SurveyFlow {
+  if (!raw || typeof raw !== "object") throw new FlowTreeError("Survey flow is not an object");
+  const root = raw as Record<string, any>;
+  const flow: SurveyFlow = {
+    ...root,
+    Type: "Root",
+    FlowID: typeof root.FlowID === "string" ? root.FlowID : "FL_1",
+    Flow: parseElements(root.Flow ?? [], ""),
+    Properties: { ...root.Properties, Count: Number(root.Properties?.Count) || 0 },
+  };
+  flow.Properties.Count = Math.max(flow.Properties.Count, highestFlowId(flow));
+  return flow;
+}
+
+/** The flow as the API expects it, with Properties.Count covering every FlowID in use. */
+export function serializeFlow(flow: SurveyFlow): Record<string, any> {
+  const copy = JSON.parse(JSON.stringify(flow));
+  copy.Properties.Count = Math.max(flow.Properties.Count, highestFlowId(flow));
+  return copy;
+}
+
+function walk(elements: FlowElement[], visit: (element: FlowElement) => void) {
+  for (const element of elements) {
+    visit(element);
+    if (element.Flow) walk(element.Flow as FlowElement[], visit);
+  }
+}
+
+function highestFlowId(flow: SurveyFlow): number {
+  let highest = Number(flow.FlowID.match(FLOW_ID_PATTERN)?.[1] ?? 0);
+  walk(flow.Flow, element => {
+    highest = Math.max(highest, Number(element.FlowID.match(FLOW_ID_PATTERN)?.[1] ?? 0));
+  });
+  return highest;
+}
+
+/**
+ * Hands out the next FlowID. Properties.Count is not always kept up to date by
+ * other editors, so the new ID is also past the highest FlowID in the tree.
+ */
+export function allocateFlowId(flow: SurveyFlow): string {
+  flow.Properties.Count = Math.max(flow.Properties.Count, highestFlowId(flow)) + 1;
+  return `FL_${flow.Properties.Count}`;
+}
+
+function withFlowIds(flow: SurveyFlow, element: NewFlowElement): FlowElement {
+  const placed = { ...element, FlowID: allocateFlowId(flow) } as FlowElement;
+  if (element.Flow) placed.Flow = element.Flow.map(child => withFlowIds(flow, child));
+  else if (isFlowContainer(placed)) placed.Flow = [];
+  return placed;
+}
+
+/** Finds an element by FlowID or path, or returns null. */
+export function findFlowElement(flow: SurveyFlow, ref: string): FlowLocation | null {
+  if (PATH_PATTERN.test(ref)) {
+    const indexes = ref.split(".").map(Number);
+    let parent: SurveyFlow | FlowContainer = flow;
+    for (const [depth, index] of indexes.entries()) {
+      const element: FlowElement | undefined = parent.Flow[index];
+      if (!element) return null;
+      if (depth === indexes.length - 1) return { element, parent, index, path: ref };
+      if (!element.Flow) return null;
+      parent = element as FlowContainer;
+    }
+    return null;
+  }
+
+  const search = (parent: SurveyFlow | FlowContainer, path: string): FlowLocation | null => {
+    for (const [index, element] of parent.Flow.entries()) {
+      const at = path ? `${path}.${index}` : String(index);
+      if (element.FlowID === ref) return { element, parent, index, path: at };
+      if (element.Flow) {
+        const match = search(element as FlowContainer, at);
+        if (match) return match;
+      }
+    }
+    return null;
+  };
+  return search(flow, "");
+}
+
+/** Like findFlowElement, but throws when the element does not exist. */
+export function locateFlowElement(flow: SurveyFlow, ref: string): FlowLocation {
+  const location = findFlowElement(flow, ref);
+  if (!location) throw new FlowTreeError(`No flow element ${ref}`);
+  return location;
+}
+
+function resolvePosition(flow: SurveyFlow, position: FlowPosition): { parent: SurveyFlow | FlowContainer; index: number } {
+  const anchors = [position.before, position.after, position.parent].filter(value => value !== undefined);
+  if (anchors.length > 1) throw new FlowTreeError("Give only one of before, after or parent");
+  if (position.index !== undefined && (position.before !== undefined || position.after !== undefined)) {
+    throw new FlowTreeError("index can only be combined with parent");
+  }
+
+  if (position.before !== undefined || position.after !== undefined) {
+    const anchor = locateFlowElement(flow, (position.before ?? position.after)!);
+    return { parent: anchor.parent, index: anchor.index + (position.after !== undefined ? 1 : 0) };
+  }
+
+  let parent: SurveyFlow | FlowContainer = flow;
+  if (position.parent !== undefined && position.parent !== "root" && position.parent !== flow.FlowID) {
+    const { element } = locateFlowElement(flow, position.parent);
+    if (!isFlowContainer(element)) {
+      throw new FlowTreeError(`${element.FlowID} (${element.Type}) cannot contain other elements`);
+    }
+    parent = element;
+  }
+  const index = position.index ?? parent.Flow.length;
+  if (index < 0 || index > parent.Flow.length) {
+    throw new FlowTreeError(`Index ${index} is outside ${parent.FlowID}, which has ${parent.Flow.length} element(s)`);
+  }
+  return { parent, index };
+}
+
+/** Inserts an element (and any nested elements) with fresh FlowIDs. */
+export function insertFlowElement(flow: SurveyFlow, element: NewFlowElement, position: FlowPosition = {}): FlowElement {
+  const { parent, index } = resolvePosition(flow, position);
+  const placed = withFlowIds(flow, element);
+  parent.Flow.splice(index, 0, placed);
+  return placed;
+}
+
+function contains(element: FlowElement, target: object): boolean {
+  return element === target || ((element.Flow as FlowElement[] | undefined) || []).some(child => contains(child, target));
+}
+
+/** Moves an element, with everything inside it, to a new position. */
+export function moveFlowElement(flow: SurveyFlow, ref: string, position: FlowPosition): FlowElement {
+  const source = locateFlowElement(flow, ref);
+  const target = resolvePosition(flow, position);
+  if (contains(source.element, target.parent)) {
+    throw new FlowTreeError(`Cannot move ${source.element.FlowID} inside itself`);
+  }
+
+  source.parent.Flow.splice(source.index, 1);
+  const index = target.parent === source.parent && source.index < target.index ? target.index - 1 : target.index;
+  target.parent.Flow.splice(index, 0, source.element);
+  return source.element;
+}
+
+/**
+ * Wraps sibling elements in a new group, randomizer or branch placed where the
+ * first of them was. The elements keep their order and FlowIDs.
+ */
+export function wrapFlowElements(flow: SurveyFlow, refs: string[], wrapper: NewFlowElement): FlowElement {
+  if (!isFlowContainer(wrapper)) throw new FlowTreeError(`A ${wrapper.Type} element cannot contain other elements`);
+  if (refs.length === 0) throw new FlowTreeError("Name at least one element to wrap");
+
+  const locations = refs.map(ref => locateFlowElement(flow, ref));
+  const parent = locations[0].parent;
+  if (locations.some(location => location.parent !== parent)) {
+    throw new FlowTreeError("Elements to wrap must share the same parent");
+  }
+  const indexes = [...new Set(locations.map(location => location.index))].sort((a, b) => a - b);
+  const wrapped = indexes.map(index => parent.Flow[index]);
+  for (const index of [...indexes].reverse()) parent.Flow.splice(index, 1);
+
+  const placed = withFlowIds(flow, { ...wrapper, Flow: [] }) as FlowContainer;
+  placed.Flow = wrapped;
+  parent.Flow.splice(indexes[0], 0, placed);
+  return placed;
+}
+
+/** Removes an element. With keepChildren, a container's children take its place instead of going with it. */
+export function removeFlowElement(flow: SurveyFlow, ref: string, options: { keepChildren?: boolean } = {}): FlowElement {
+  const { element, parent, index } = locateFlowElement(flow, ref);
+  const children = options.keepChildren ? ((element.Flow as FlowElement[] | undefined) || []) : [];
+  parent.Flow.splice(index, 1, ...children);
+  return element;
+}
+
+export function blockFlowElement(blockId: string): NewFlowElement {
+  return { Type: "Standard", ID: blockId, Autofill: [] };
+}
+
+export function embeddedDataFlowElement(
+  fields: Array<{ name: string; value?: string; type?: string }>
+): NewFlowElement {
+  return {
+    Type: "EmbeddedData",
+    EmbeddedData: fields.map(field => ({
+      Description: field.name,
+      Type: field.type || "Custom",
+      Field: field.name,
+      VariableType: "String",
+      DataVisibility: [],
+      AnalyzeText: false,
+      Value: field.value || "",
+    })),
+  };
+}
+
+export function webServiceFlowElement(options: {
+  url: string;
+  method?: string;
+  requestParams?: Array<{ key: string; value: string }>;
+  responseMapping: Array<{ jsonPath: string; fieldName: string }>;
+}): NewFlowElement {
+  // Qualtrics uses arrays with lowercase key/value
+  return {
+    Type: "WebService",
+    URL: options.url,
+    Method: options.method || "GET",
+    RequestParams: (options.requestParams || []).map(param => ({ key: param.key, value: param.value })),
+    ResponseMap: options.responseMapping.map(mapping => ({ key: mapping.jsonPath, value: mapping.fieldName })),
+  };
+}
+
+/** A one-line description of what a flow element does. */
+export function describeFlowElement(element: Record<string, any>, blocks?: Map<string, { Description: string }>): string {
+  switch (element.Type) {
+    case "Block":
+    case "Standard":
+      return `Block: ${blocks?.get(element.ID)?.Description ?? element.ID}`;
+    case "EmbeddedData":
+      return `Embedded data: ${(element.EmbeddedData || []).map((field: any) => (field.Value ? `${field.Field} = ${field.Value}` : field.Field)).join(", ")}`;
+    case "BlockRandomizer":
+      return `Randomizer: present ${element.SubSet ?? "?"} of ${(element.Flow || []).length}${element.EvenPresentation ? ", evenly" : ""}`;
+    case "Branch":
+      return `Branch: ${describeLogic(element.BranchLogic) ?? "(no condition)"}`;
+    case "Group":
+      return `Group: ${element.Description || ""}`;
+    case "WebService":
+      return `Web service: ${element.Method || "GET"} ${element.URL || ""}`;
+    case "EndSurvey":
+      return "End of survey";
+    default:
+      return element.Description ? `${element.Type}: ${element.Description}` : element.Type;
+  }
+}
+
+/** Every element in the flow, depth first, with its location. */
+export function flowElements(flow: SurveyFlow): FlowLocation[] {
+  const locations: FlowLocation[] = [];
+  const visit = (parent: SurveyFlow | FlowContainer, path: string) => {
+    parent.Flow.forEach((element, index) => {
+      const at = path ? `${path}.${index}` : String(index);
+      locations.push({ element, parent, index, path: at });
+      if (element.Flow) visit(element as FlowContainer, at);
+    });
+  };
+  visit(flow, "");
+  return locations;
+}
+
+/** One line per element with its path and FlowID, indented by depth. */
+export function outlineFlow(flow: SurveyFlow, blocks?: Map<string, { Description: string }>): string[] {
+  return flowElements(flow).map(({ element, path }) =>
+    `${"  ".repeat(path.split(".").length - 1)}${path} ${element.FlowID} ${describeFlowElement(element, blocks)}`
+  );
+}
@@ -0,0 +1,206 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import type { Codebook, CodebookColumn } from "./codebook.js";
+
+export type LoaderLanguage = "r" | "python";
+
+export interface LoaderOptions {
+  /** "csv" or "tsv" */
+  format: string;
+  /** The export holds choice labels rather than recode values */
+  useLabels?: boolean;
+  /** Time zone the export's dates are in (default: UTC) */
+  timeZone?: string;
+}
+
+/** CSV metadata columns holding timestamps. */
+const DATE_COLUMNS = ["StartDate", "EndDate", "RecordedDate"];
+
+interface LoaderColumn {
+  name: string;
+  label: string;
+  levels: Array<{ code: string; label: string }>;
+  ordered: boolean;
+}
+
+/**
+ * Columns that get factor/category levels: anything with two or more coded values.
+ * Multi-select breakout columns carry a single code and are left as indicators.
+ */
+function loaderColumns(codebook: Codebook, useLabels: boolean): LoaderColumn[] {
+  const columns: LoaderColumn[] = codebook.metadataColumns.map(column => ({
+    name: column.name,
+    label: column.description,
+    levels: [],
+    ordered: false,
+  }));
+  for (const question of codebook.questions) {
+    for (const column of question.columns) {
+      columns.push({
+        name: column.name,
+        label: columnLabel(question.text, column),
+        levels: column.values.length < 2
+          ? []
+          : useLabels
+            ? column.values.map(value => ({ code: value.label, label: value.label }))
+            : column.values,
+        // Matrix scale points are ordinal
+        ordered: question.type.startsWith("Matrix") && column.values.length >= 2,
+      });
+    }
+  }
+  return columns;
+}
+
+function columnLabel(questionText: string, column: CodebookColumn): string {
+  const text = column.description && column.description !== questionText
+    ? `${questionText} - ${column.description}`
+    : questionText;
+  return text.length > 200 ? `${text.slice(0, 197)}...` : text;
+}
+
+/** File-name-safe stem for `load_<survey>.R` / `.py`. */
+export function loaderScriptStem(codebook: Codebook): string {
+  const name = codebook.surveyName.replace(/[^A-Za-z0-9]+/g, "_").replace(/^_+|_+$/g, "").toLowerCase();
+  return `load_${name || codebook.surveyId}`;
+}
+
+function rString(text: string): string {
+  return `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, " ")}"`;
+}
+
+function pyString(text: string): string {
+  return JSON.stringify(text.replace(/\n/g, " "));
+}
+
+function isNumeric(code: string): boolean {
+  return code.trim() !== "" && !isNaN(Number(code));
+}
+
+function valuesNote(options: LoaderOptions): string {
+  return options.useLabels ? "Expects choice labels in the data (useLabels = true)." : "Expects recode values in the data (useLabels = false).";
+}
+
+function delimiterFor(options: LoaderOptions): string {
+  return options.format === "tsv" ? "\t" : ",";
+}
+
+export function renderRLoader(codebook: Codebook, dataFile: string, options: LoaderOptions): string {
+  const columns = loaderColumns(codebook, options.useLabels ?? false);
+  const timeZone = rString(options.timeZone || "UTC");
+  const lines = [
+    `# Load the Qualtrics export for "${codebook.surveyName.replace(/\n/g, " ")}" (${codebook.surveyId}).`,
+    `# Base R only. ${valuesNote(options)}`,
+    "",
+    `data_file <- ${rString(dataFile)}`,
+    "",
+    "# Row 1 holds column names; rows 2-3 are question text and import IDs",
+    `df <- read.delim(data_file, sep = ${rString(delimiterFor(options))}, check.names = FALSE, stringsAsFactors = FALSE,`,
+    `                 na.strings = "", fileEncoding = "UTF-8-BOM")`,
+    "df <- df[-(1:2), , drop = FALSE]",
+    "rownames(df) <- NULL",
+    "df[] <- lapply(df, type.convert, as.is = TRUE)",
+    "",
+    "# Timestamps",
+    ...DATE_COLUMNS.map(column => `if (${rString(column)} %in% names(df)) df[[${rString(column)}]] <- as.POSIXct(df[[${rString(column)}]], tz = ${timeZone})`),
+    "",
+    "# Choice labels as factor levels",
+    "set_levels <- function(df, column, levels, labels, ordered = FALSE) {",
+    "  if (column %in% names(df)) df[[column]] <- factor(df[[column]], levels = levels, labels = labels, ordered = ordered)",
+    "  df",
+    "}",
+  ];
+
+  for (const column of columns.filter(column => column.levels.length > 0)) {
+    const codes = column.levels.map(level => (isNumeric(level.code) && !options.useLabels ? level.code : rString(level.code))).join(", ");
+    const labels = column.levels.map(level => rString(level.label)).join(", ");
+    lines.push(`df <- set_levels(df, ${rString(column.name)}, c(${codes}), c(${labels})${column.ordered ? ", ordered = TRUE" : ""})`);
+  }
+
+  lines.push(
+    "",
+    "# Variable labels (shown by RStudio's viewer and the labelled/haven packages)",
+    "variable_labels <- c(",
+    columns.map(column => `  ${rString(column.name)} = ${rString(column.label)}`).join(",\n"),
+    ")",
+    "for (column in intersect(names(variable_labels), names(df))) {",
+    "  attr(df[[column]], \"label\") <- variable_labels[[column]]",
+    "}",
+    "",
+  );
+  return lines.join("\n");
+}
+
+export function renderPythonLoader(codebook: Codebook, dataFile: string, options: LoaderOptions): string {
+  const columns = loaderColumns(codebook, options.useLabels ?? false);
+  const pyCode = (code: string) => (isNumeric(code) && !options.useLabels ? String(Number(code)) : pyString(code));
+
+  const lines = [
+    `# Load the Qualtrics export for "${codebook.surveyName.replace(/\n/g, " ")}" (${codebook.surveyId}).`,
+    `# Requires pandas. ${valuesNote(options)}`,
+    "import pandas as pd",
+    "",
+    `DATA_FILE = ${pyString(dataFile)}`,
+    "",
+    "# Row 1 holds column names; rows 2-3 are question text and import IDs",
+    `df = pd.read_csv(DATA_FILE, sep=${pyString(delimiterFor(options))}, encoding="utf-8-sig", dtype=str, keep_default_na=False, na_values=[""])`,
+    "df = df.iloc[2:].reset_index(drop=True)",
+    "",
+    "",
+    "def _to_numeric(column):",
+    '    converted = pd.to_numeric(column, errors="coerce")',
+    "    return converted if converted.notna().sum() == column.notna().sum() else column",
+    "",
+    "",
+    "df = df.apply(_to_numeric)",
+    "",
+    "# Timestamps",
+    `for column in [${DATE_COLUMNS.map(pyString).join(", ")}]:`,
+    "    if column in df.columns:",
+    `        df[column] = pd.to_datetime(df[column], errors="coerce").dt.tz_localize(${pyString(options.timeZone || "UTC")})`,
+    "",
+    "# Choice labels as categories: column -> (codes to labels, ordered)",
+    "VALUE_LABELS = {",
+  ];
+
+  for (const column of columns.filter(column => column.levels.length > 0)) {
+    const mapping = column.levels.map(level => `${pyCode(level.code)}: ${pyString(level.label)}`).join(", ");
+    lines.push(`    ${pyString(column.name)}: ({${mapping}}, ${column.ordered ? "True" : "False"}),`);
+  }
+
+  lines.push(
+    "}",
+    "for column, (labels, ordered) in VALUE_LABELS.items():",
+    "    if column in df.columns:",
+    "        df[column] = pd.Categorical(df[column].map(labels), categories=list(dict.fromkeys(labels.values())), ordered=ordered)",
+    "",
+    "# Variable labels, kept in df.attrs for reference",
+    "VARIABLE_LABELS = {",
+    ...columns.map(column => `    ${pyString(column.name)}: ${pyString(column.label)},`),
+    "}",
+    'df.attrs["variable_labels"] = {name: label for name, label in VARIABLE_LABELS.items() if name in df.columns}',
+    "",
+  );
+  return lines.join("\n");
+}
+
+/** Writes loader scripts next to a saved CSV/TSV export and returns their paths. */
+export async function writeLoaderScripts(
+  codebook: Codebook,
+  dataFile: string,
+  languages: LoaderLanguage[],
+  options: LoaderOptions
+): Promise<string[]> {
+  const stem = path.join(path.dirname(dataFile), loaderScriptStem(codebook));
+  const written: string[] = [];
+
+  for (const language of languages) {
+    const filePath = `${stem}.${language === "r" ? "R" : "py"}`;
+    const script = language === "r"
+      ? renderRLoader(codebook, dataFile, options)
+      : renderPythonLoader(codebook, dataFile, options);
+    await fs.writeFile(filePath, script, "utf8");
+    written.push(filePath);
+  }
+  return written;
+}
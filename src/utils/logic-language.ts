@@ -0,0 +1,487 @@
+import type { SurveyDefinition } from "../types/index.js";
+import {
+  BUILT_IN_EMBEDDED_FIELDS,
+  ChoiceInfo,
+  QuestionInfo,
+  flowEmbeddedData,
+  stripHtml,
+  surveyBlocks,
+  surveyQuestions,
+} from "./survey-definition.js";
+
+/**
+ * A readable language for Qualtrics branch, display and skip logic:
+ *
+ *   QID3 selected 2 AND e://Field/Condition = "treatment"
+ *   (Q5 not selected "Yes" OR QID7 is empty) AND (e://Field/Score >= 10)
+ *
+ * Conditions test a question's choices (`selected`, `not selected`, by choice
+ * ID or quoted choice text), a text entry answer or an embedded data field
+ * (`=`, `!=`, `>`, `>=`, `<`, `<=`, `contains`, `not contains`, `is empty`,
+ * `is not empty`). Questions are named by QID or DataExportTag. Qualtrics
+ * groups conditions in sets joined by AND/OR; a parenthesized list is a set of
+ * its own, and conditions outside parentheses form one set.
+ */
+
+export class LogicError extends Error {
+  constructor(public issues: string[]) {
+    super(issues.length === 1 ? issues[0] : `Invalid logic:\n${issues.map(issue => `- ${issue}`).join("\n")}`);
+    this.name = "LogicError";
+  }
+}
+
+export type Conjunction = "And" | "Or";
+
+export type LogicCondition =
+  | { kind: "choice"; question: string; choice: string; byText: boolean; selected: boolean }
+  | { kind: "answer"; question: string; operator: string; value?: string }
+  | { kind: "field"; field: string; operator: string; value?: string };
+
+export interface LogicSet {
+  conjunction?: Conjunction;
+  conditions: Array<{ conjunction?: Conjunction; condition: LogicCondition }>;
+}
+
+export interface CompiledLogic {
+  logic: Record<string, any>;
+  warnings: string[];
+  /** A condition tests a question on the same page, so Qualtrics must evaluate the logic in-page */
+  inPage: boolean;
+}
+
+/** Comparison operators and the words Qualtrics uses for them in descriptions. */
+const OPERATORS: Record<string, { operator: string; words: string }> = {
+  "=": { operator: "EqualTo", words: "Is Equal to" },
+  "!=": { operator: "NotEqualTo", words: "Is Not Equal to" },
+  ">": { operator: "GreaterThan", words: "Is Greater Than" },
+  ">=": { operator: "GreaterThanOrEqual", words: "Is Greater Than or Equal to" },
+  "<": { operator: "LessThan", words: "Is Less Than" },
+  "<=": { operator: "LessThanOrEqual", words: "Is Less Than or Equal to" },
+  "contains": { operator: "Contains", words: "Contains" },
+  "not contains": { operator: "DoesNotContain", words: "Does Not Contain" },
+  "is empty": { operator: "Empty", words: "Is Empty" },
+  "is not empty": { operator: "NotEmpty", words: "Is Not Empty" },
+};
+const SYMBOLS = Object.fromEntries(Object.entries(OPERATORS).map(([symbol, { operator }]) => [operator, symbol]));
+const UNARY = new Set(["is empty", "is not empty"]);
+
+const FIELD_PATTERN = /^(?:\$\{)?e:\/\/Field\/([^}]+)\}?$/i;
+const CHOICE_LOCATOR = /^q:\/\/(QID\d+)\/SelectableChoice\/(.+)$/;
+const TEXT_LOCATOR = /^q:\/\/(QID\d+)\/ChoiceTextEntryValue$/;
+
+interface Token {
+  kind: "(" | ")" | "op" | "string" | "word";
+  text: string;
+  position: number;
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\s+|(\()|(\))|(>=|<=|!=|==|=|>|<)|"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|(\$\{[^}]*\}|[^\s()"'=!<>]+)/y;
+  let match: RegExpExecArray | null;
+  while (pattern.lastIndex < text.length) {
+    const position = pattern.lastIndex;
+    if (!(match = pattern.exec(text))) throw new LogicError([`Unexpected character '${text[position]}' at position ${position + 1}`]);
+    if (match[1]) tokens.push({ kind: "(", text: "(", position });
+    else if (match[2]) tokens.push({ kind: ")", text: ")", position });
+    else if (match[3]) tokens.push({ kind: "op", text: match[3] === "==" ? "=" : match[3], position });
+    else if (match[4] !== undefined || match[5] !== undefined) {
+      tokens.push({ kind: "string", text: (match[4] ?? match[5]).replace(/\\(.)/g, "$1"), position });
+    } else if (match[6]) tokens.push({ kind: "word", text: match[6], position });
+  }
+  return tokens;
+}
+
+/** Parses the readable form into condition sets, checking syntax only. */
+export function parseLogic(text: string): LogicSet[] {
+  const tokens = tokenize(text);
+  let index = 0;
+  const peek = () => tokens[index];
+  const keyword = (word: string) => peek()?.kind === "word" && peek().text.toLowerCase() === word;
+  const fail = (expected: string): never => {
+    const token = peek();
+    throw new LogicError([token
+      ? `Expected ${expected} at position ${token.position + 1}, found '${token.text}'`
+      : `Expected ${expected} at the end of the logic`]);
+  };
+  const value = (): string => {
+    const token = peek();
+    if (token?.kind !== "string" && token?.kind !== "word") return fail("a value");
+    index++;
+    return token.text;
+  };
+
+  const comparison = (): { operator: string; value?: string } | null => {
+    if (peek()?.kind === "op") return { operator: tokens[index++].text, value: value() };
+    if (keyword("contains")) {
+      index++;
+      return { operator: "contains", value: value() };
+    }
+    if (keyword("not") && tokens[index + 1]?.text.toLowerCase() === "contains") {
+      index += 2;
+      return { operator: "not contains", value: value() };
+    }
+    if (keyword("is")) {
+      index++;
+      const negated = keyword("not");
+      if (negated) index++;
+      if (!keyword("empty")) fail("'empty'");
+      index++;
+      return { operator: negated ? "is not empty" : "is empty" };
+    }
+    return null;
+  };
+
+  const condition = (): LogicCondition => {
+    const subject = peek();
+    if (subject?.kind !== "word" || ["and", "or", "not"].includes(subject.text.toLowerCase())) {
+      return fail("a question (QID or export tag) or e://Field/Name");
+    }
+    index++;
+    const field = subject.text.match(FIELD_PATTERN);
+    if (field) {
+      const compared = comparison();
+      return compared ? { kind: "field", field: field[1], ...compared } : fail("a comparison (=, !=, >, >=, <, <=, contains, is empty)");
+    }
+
+    const negated = keyword("not") && tokens[index + 1]?.text.toLowerCase() === "selected";
+    if (negated) index++;
+    if (keyword("selected")) {
+      index++;
+      const choice = peek();
+      if (choice?.kind !== "word" && choice?.kind !== "string") return fail("a choice ID or quoted choice text");
+      index++;
+      return { kind: "choice", question: subject.text, choice: choice.text, byText: choice.kind === "string", selected: !negated };
+    }
+    const compared = comparison();
+    return compared ? { kind: "answer", question: subject.text, ...compared } : fail("'selected', 'not selected' or a comparison");
+  };
+
+  const conjunction = (): Conjunction | null => {
+    const joined = keyword("and") ? "And" : keyword("or") ? "Or" : null;
+    if (joined) index++;
+    return joined;
+  };
+
+  const sets: LogicSet[] = [];
+  let open: LogicSet | null = null;
+  let pending: Conjunction | undefined;
+  while (true) {
+    if (peek()?.kind === "(") {
+      index++;
+      const set: LogicSet = { ...(pending ? { conjunction: pending } : {}), conditions: [{ condition: condition() }] };
+      for (let joined = conjunction(); joined; joined = conjunction()) {
+        if (peek()?.kind === "(") throw new LogicError([`Qualtrics logic allows only one level of parentheses (position ${peek().position + 1})`]);
+        set.conditions.push({ conjunction: joined, condition: condition() });
+      }
+      if (peek()?.kind !== ")") fail("AND, OR or ')'");
+      index++;
+      sets.push(set);
+      open = null;
+    } else if (open) {
+      open.conditions.push({ conjunction: pending, condition: condition() });
+    } else {
+      open = { ...(pending ? { conjunction: pending } : {}), conditions: [{ condition: condition() }] };
+      sets.push(open);
+    }
+    if (index === tokens.length) break;
+    pending = conjunction() ?? fail("AND or OR");
+  }
+  return sets;
+}
+
+/** A Qualtrics condition testing whether a choice was selected. */
+export function choiceExpression(questionId: string, choiceId: string, selected: boolean, description: string): Record<string, any> {
+  const locator = `q://${questionId}/SelectableChoice/${choiceId}`;
+  return {
+    LogicType: "Question",
+    QuestionID: questionId,
+    QuestionIsInLoop: "no",
+    ChoiceLocator: locator,
+    Operator: selected ? "Selected" : "NotSelected",
+    QuestionIDFromLocator: questionId,
+    LeftOperand: locator,
+    Type: "Expression",
+    Description: description,
+  };
+}
+
+/** A Qualtrics condition comparing an embedded data field; operator is a symbol such as "=" or "is empty". */
+export function fieldExpression(field: string, operator: string, value?: string): Record<string, any> {
+  const { operator: qualtricsOperator, words } = OPERATORS[operator];
+  return {
+    LogicType: "EmbeddedField",
+    LeftOperand: field,
+    Operator: qualtricsOperator,
+    RightOperand: value ?? "",
+    Type: "Expression",
+    Description: `If ${field} ${words}${UNARY.has(operator) ? "" : ` ${value ?? ""}`}`,
+  };
+}
+
+function answerExpression(question: QuestionInfo, operator: string, value?: string): Record<string, any> {
+  const { operator: qualtricsOperator, words } = OPERATORS[operator];
+  const locator = `q://${question.questionId}/ChoiceTextEntryValue`;
+  return {
+    LogicType: "Question",
+    QuestionID: question.questionId,
+    QuestionIsInLoop: "no",
+    ChoiceLocator: locator,
+    Operator: qualtricsOperator,
+    QuestionIDFromLocator: question.questionId,
+    LeftOperand: locator,
+    RightOperand: value ?? "",
+    Type: "Expression",
+    Description: `If ${question.exportTag} ${words}${UNARY.has(operator) ? "" : ` ${value ?? ""}`}`,
+  };
+}
+
+/** Where each placed question appears: its order in the survey and the page it is on. */
+function questionPositions(definition: SurveyDefinition): Map<string, { order: number; page: string }> {
+  const positions = new Map<string, { order: number; page: string }>();
+  for (const block of surveyBlocks(definition)) {
+    let page = 0;
+    for (const element of definition.Blocks[block.blockId].BlockElements || []) {
+      if (element.Type === "Page Break") page++;
+      if (element.Type === "Question" && element.QuestionID && !positions.has(element.QuestionID)) {
+        positions.set(element.QuestionID, { order: positions.size, page: `${block.blockId}/${page}` });
+      }
+    }
+  }
+  return positions;
+}
+
+/** Resolves names and choices against the survey, collecting what does not match. */
+class SurveyLookup {
+  readonly questions: QuestionInfo[];
+  readonly issues: string[] = [];
+
+  constructor(private definition: SurveyDefinition) {
+    this.questions = surveyQuestions(definition).filter(question => question.blockId !== undefined);
+  }
+
+  question(name: string): QuestionInfo | null {
+    const question = this.questions.find(candidate => candidate.questionId === name)
+      ?? this.questions.find(candidate => candidate.exportTag === name);
+    if (!question) {
+      this.issues.push(this.definition.Questions?.[name]
+        ? `${name} is in the trash`
+        : `Unknown question '${name}' (use a QID or DataExportTag)`);
+    }
+    return question ?? null;
+  }
+
+  choice(question: QuestionInfo, name: string, condition: Extract<LogicCondition, { kind: "choice" }>): ChoiceInfo | null {
+    const matches = condition.byText
+      ? question.choices.filter(candidate => candidate.label.toLowerCase() === condition.choice.toLowerCase())
+      : question.choices.filter(candidate => candidate.id === condition.choice);
+    if (matches.length === 1) return matches[0];
+    const available = question.choices.map(candidate => `${candidate.id} "${candidate.label}"`).join(", ");
+    this.issues.push(matches.length === 0
+      ? `${name} has no choice ${condition.byText ? `"${condition.choice}"` : condition.choice} (choices: ${available || "none"})`
+      : `More than one choice of ${name} is labelled "${condition.choice}"; use its choice ID (choices: ${available})`);
+    return null;
+  }
+}
+
+/**
+ * Compiles the readable form to a Qualtrics BooleanExpression, checking every
+ * question and choice against the survey. With `target`, the question the
+ * logic is attached to, conditions may only test questions shown before it,
+ * and `inPage` reports whether one is on the same page; a target outside every
+ * block is an error. Problems with the survey are collected and thrown
+ * together; undeclared embedded data fields are warnings.
+ */
+export function compileLogic(text: string, definition: SurveyDefinition, options: { target?: string } = {}): CompiledLogic {
+  const sets = parseLogic(text);
+  const lookup = new SurveyLookup(definition);
+  const issues = lookup.issues;
+  const declared = new Set(flowEmbeddedData(definition).map(field => field.field));
+  const positions = options.target ? questionPositions(definition) : null;
+  const target = options.target ? positions!.get(options.target) : undefined;
+  if (options.target && !target) {
+    throw new LogicError([`${options.target} is not placed in any survey block (it may be in the trash), so the questions shown before it cannot be checked`]);
+  }
+  const warnings: string[] = [];
+  let inPage = false;
+
+  const expression = (condition: LogicCondition): Record<string, any> | null => {
+    if (condition.kind === "field") {
+      if (!declared.has(condition.field) && !BUILT_IN_EMBEDDED_FIELDS.has(condition.field)) {
+        warnings.push(`Embedded data field '${condition.field}' is not declared in the survey flow`);
+      }
+      return fieldExpression(condition.field, condition.operator, condition.value);
+    }
+
+    const question = lookup.question(condition.question);
+    if (!question) return null;
+    if (target) {
+      const position = positions!.get(question.questionId)!;
+      if (question.questionId === options.target) {
+        issues.push(`${condition.question} is the question this logic belongs to; logic can only test earlier questions`);
+        return null;
+      }
+      if (position.order > target.order) {
+        issues.push(`${condition.question} comes after ${options.target} in the survey; logic can only test earlier questions`);
+        return null;
+      }
+      if (position.page === target.page) inPage = true;
+    }
+    if (question.type === "Matrix") {
+      issues.push(`${condition.question} is a matrix question; matrix conditions are not supported, edit the logic JSON instead`);
+      return null;
+    }
+    if (condition.kind === "answer") {
+      if (question.type !== "TE") {
+        issues.push(`${condition.question} is not a text entry question; test its choices with 'selected' instead`);
+        return null;
+      }
+      return answerExpression(question, condition.operator, condition.value);
+    }
+
+    const choice = lookup.choice(question, condition.question, condition);
+    if (!choice) return null;
+    const description = `If ${question.exportTag} ${choice.label} Is ${condition.selected ? "Selected" : "Not Selected"}`;
+    return choiceExpression(question.questionId, choice.id, condition.selected, description);
+  };
+
+  const logic: Record<string, any> = { Type: "BooleanExpression" };
+  sets.forEach((set, setIndex) => {
+    const group: Record<string, any> = { Type: "If" };
+    // Qualtrics spells the joining keyword "Conjuction"
+    if (setIndex > 0) group.Conjuction = set.conjunction ?? "And";
+    set.conditions.forEach(({ conjunction, condition }, conditionIndex) => {
+      const compiled = expression(condition);
+      if (compiled && conditionIndex > 0) compiled.Conjuction = conjunction ?? "And";
+      if (compiled) group[String(conditionIndex)] = compiled;
+    });
+    logic[String(setIndex)] = group;
+  });
+  if (issues.length > 0) throw new LogicError(issues);
+  return { logic, warnings, inPage };
+}
+
+export interface SkipRule {
+  /** One condition on the question's own choices, e.g. "QID4 selected 2" */
+  if: string;
+  /** "endOfBlock", "endOfSurvey", or a later question in the same block */
+  skipTo: string;
+}
+
+const SKIP_TARGETS = new Map([
+  ["endofblock", { destination: "ENDOFBLOCK", description: "End of Block" }],
+  ["endofsurvey", { destination: "ENDOFSURVEY", description: "End of Survey" }],
+]);
+
+/**
+ * Compiles skip rules for a question. Qualtrics evaluates skip logic when the
+ * question is answered, so each rule tests one of its own choices and can only
+ * jump forward within its block or out of it.
+ */
+export function compileSkipLogic(rules: SkipRule[], questionId: string, definition: SurveyDefinition): Array<Record<string, any>> {
+  const lookup = new SurveyLookup(definition);
+  const issues = lookup.issues;
+  const question = lookup.question(questionId);
+  if (!question) throw new LogicError(issues);
+  const block = definition.Blocks[question.blockId!];
+  const inBlock = (block.BlockElements || [])
+    .filter(element => element.Type === "Question" && element.QuestionID)
+    .map(element => element.QuestionID!);
+
+  const compiled = rules.map((rule, index) => {
+    const sets = parseLogic(rule.if);
+    const condition = sets.length === 1 && sets[0].conditions.length === 1 ? sets[0].conditions[0].condition : null;
+    if (!condition || condition.kind !== "choice") {
+      issues.push(`Skip rule ${index + 1}: give exactly one condition of the form '<question> selected <choice>' or '<question> not selected <choice>'`);
+      return null;
+    }
+    const tested = lookup.question(condition.question);
+    if (tested && tested.questionId !== question.questionId) {
+      issues.push(`Skip rule ${index + 1}: skip logic can only test ${questionId} itself; use display logic or a branch to test ${condition.question}`);
+      return null;
+    }
+    const choice = tested && lookup.choice(tested, condition.question, condition);
+
+    let target = SKIP_TARGETS.get(rule.skipTo.toLowerCase());
+    if (!target) {
+      const destination = lookup.question(rule.skipTo);
+      if (destination && inBlock.indexOf(destination.questionId) <= inBlock.indexOf(question.questionId)) {
+        issues.push(`Skip rule ${index + 1}: ${rule.skipTo} must be a later question in the same block as ${questionId}`);
+      } else if (destination) {
+        target = { destination: destination.questionId, description: destination.text };
+      }
+    }
+    if (!choice || !target) return null;
+
+    const locator = `q://${question.questionId}/SelectableChoice/${choice.id}`;
+    const operator = condition.selected ? "Selected" : "NotSelected";
+    return {
+      SkipLogicID: index + 1,
+      ChoiceLocator: locator,
+      Condition: operator,
+      SkipToDestination: target.destination,
+      SkipToDescription: target.description,
+      Locator: locator,
+      QuestionID: question.questionId,
+      Description: `If ${choice.label} Is ${condition.selected ? "Selected" : "Not Selected"}, Then Skip To ${target.description}`,
+    };
+  });
+  if (issues.length > 0) throw new LogicError(issues);
+  return compiled as Array<Record<string, any>>;
+}
+
+/** Skip rules in the form compileSkipLogic accepts; rules it cannot express are shown in [brackets]. */
+export function explainSkipLogic(skipLogic: unknown): SkipRule[] {
+  const rules = Array.isArray(skipLogic) ? skipLogic : skipLogic && typeof skipLogic === "object" ? Object.values(skipLogic) : [];
+  return rules.filter(rule => rule && typeof rule === "object").map((rule: Record<string, any>) => {
+    const choice = typeof rule.ChoiceLocator === "string" ? rule.ChoiceLocator.match(CHOICE_LOCATOR) : null;
+    const destination = String(rule.SkipToDestination || "");
+    const skipTo = destination === "ENDOFBLOCK" ? "endOfBlock" : destination === "ENDOFSURVEY" ? "endOfSurvey" : destination;
+    if (!choice || (rule.Condition !== "Selected" && rule.Condition !== "NotSelected")) {
+      return { if: `[${stripHtml(rule.Description) || "unknown condition"}]`, skipTo };
+    }
+    return { if: `${choice[1]} ${rule.Condition === "Selected" ? "selected" : "not selected"} ${choice[2]}`, skipTo };
+  });
+}
+
+function quote(value: unknown): string {
+  const text = String(value ?? "");
+  return /^-?\d+(\.\d+)?$/.test(text) ? text : `"${text.replace(/["\\]/g, "\\$&")}"`;
+}
+
+function explainExpression(expression: Record<string, any>): string {
+  const symbol = SYMBOLS[expression.Operator];
+  const operand = (subject: string) => (UNARY.has(symbol) ? `${subject} ${symbol}` : `${subject} ${symbol} ${quote(expression.RightOperand)}`);
+  if (expression.LogicType === "EmbeddedField" && symbol) return operand(`e://Field/${expression.LeftOperand}`);
+
+  const locator = typeof expression.LeftOperand === "string" ? expression.LeftOperand : "";
+  const choice = locator.match(CHOICE_LOCATOR);
+  if (expression.LogicType === "Question" && choice && (expression.Operator === "Selected" || expression.Operator === "NotSelected")) {
+    return `${choice[1]} ${expression.Operator === "Selected" ? "selected" : "not selected"} ${choice[2]}`;
+  }
+  const text = locator.match(TEXT_LOCATOR);
+  if (expression.LogicType === "Question" && text && symbol) return operand(text[1]);
+
+  // Conditions the language has no syntax for (matrix cells, quotas, GeoIP, ...)
+  return `[${stripHtml(expression.Description) || expression.LogicType || "unknown condition"}]`;
+}
+
+/**
+ * Renders Qualtrics branch/display/skip logic in the readable form compileLogic
+ * accepts. Conditions it cannot express are shown in [brackets].
+ */
+export function explainLogic(logic: any): string {
+  if (!logic || typeof logic !== "object") return "";
+  const numbered = (object: Record<string, any>) => Object.keys(object)
+    .filter(key => /^\d+$/.test(key) && object[key] && typeof object[key] === "object")
+    .sort((a, b) => Number(a) - Number(b))
+    .map(key => object[key]);
+
+  const sets = numbered(logic).map(group => numbered(group)
+    .map((expression, index) => (index > 0 ? `${String(expression.Conjuction || "And").toUpperCase()} ` : "") + explainExpression(expression))
+    .join(" "));
+  if (sets.length <= 1) return sets[0] ?? "";
+  return numbered(logic)
+    .map((group, index) => (index > 0 ? `${String(group.Conjuction || "Or").toUpperCase()} ` : "") + `(${sets[index]})`)
+    .join(" ");
+}
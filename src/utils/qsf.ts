@@ -0,0 +1,152 @@
+import type { SurveyBlock, SurveyDefinition, SurveyQuestion } from "../types/index.js";
+import { stripHtml } from "./survey-definition.js";
+
+/** A Qualtrics Survey Format (.qsf) document. */
+export interface QsfDocument {
+  SurveyEntry: Record<string, any>;
+  SurveyElements: QsfElement[];
+}
+
+export interface QsfElement {
+  SurveyID: string;
+  /** BL (blocks), FL (flow), SO (options), SQ (question), QC (question count) */
+  Element: string;
+  PrimaryAttribute: string;
+  SecondaryAttribute: string | null;
+  TertiaryAttribute: string | null;
+  Payload: any;
+}
+
+/** Survey content independent of whether it was read from a QSF file or a raw definition. */
+export interface PortableSurvey {
+  surveyId: string;
+  name: string;
+  language: string;
+  blocks: SurveyBlock[];
+  questions: Record<string, SurveyQuestion & Record<string, any>>;
+  flow: any;
+  options: Record<string, any> | null;
+}
+
+export function definitionToPortable(definition: SurveyDefinition): PortableSurvey {
+  return {
+    surveyId: definition.SurveyID,
+    name: definition.SurveyName,
+    language: definition.SurveyLanguage || "EN",
+    blocks: Object.entries(definition.Blocks || {}).map(([blockId, block]) => ({ ...block, ID: block.ID || blockId })),
+    questions: (definition.Questions || {}) as PortableSurvey["questions"],
+    flow: definition.SurveyFlow ?? null,
+    options: definition.SurveyOptions ?? null,
+  };
+}
+
+export function buildQsf(survey: PortableSurvey, entry: Record<string, any> = {}): QsfDocument {
+  const element = (Element: string, PrimaryAttribute: string, Payload: any, SecondaryAttribute: string | null = null): QsfElement => ({
+    SurveyID: survey.surveyId,
+    Element,
+    PrimaryAttribute,
+    SecondaryAttribute,
+    TertiaryAttribute: null,
+    Payload,
+  });
+
+  const questionIds = Object.keys(survey.questions);
+  return {
+    SurveyEntry: {
+      SurveyID: survey.surveyId,
+      SurveyName: survey.name,
+      SurveyDescription: entry.SurveyDescription ?? null,
+      SurveyOwnerID: entry.SurveyOwnerID ?? entry.ownerId ?? null,
+      SurveyLanguage: survey.language,
+      SurveyStatus: entry.SurveyStatus ?? "Inactive",
+      SurveyCreationDate: entry.SurveyCreationDate ?? entry.creationDate ?? null,
+      LastModified: entry.LastModified ?? entry.lastModified ?? null,
+    },
+    SurveyElements: [
+      element("BL", "Survey Blocks", survey.blocks),
+      element("FL", "Survey Flow", survey.flow),
+      ...(survey.options ? [element("SO", "Survey Options", survey.options)] : []),
+      element("QC", "Survey Question Count", null, String(questionIds.length)),
+      ...questionIds.map(questionId => element(
+        "SQ",
+        questionId,
+        { ...survey.questions[questionId], QuestionID: questionId },
+        stripHtml(survey.questions[questionId].QuestionText).slice(0, 100)
+      )),
+    ],
+  };
+}
+
+/** Reads a QSF document or a raw survey definition (as returned by get_survey with includeDefinition). */
+export function parseSurveyFile(content: unknown): PortableSurvey {
+  const document = content as Record<string, any>;
+  if (!document || typeof document !== "object") {
+    throw new Error("Survey file must contain a JSON object");
+  }
+
+  if (Array.isArray(document.SurveyElements)) {
+    const elements = document.SurveyElements as QsfElement[];
+    const entry = document.SurveyEntry || {};
+    const blocksPayload = elements.find(element => element.Element === "BL")?.Payload;
+    const questions: PortableSurvey["questions"] = {};
+    for (const element of elements.filter(element => element.Element === "SQ")) {
+      const questionId = element.Payload?.QuestionID || element.PrimaryAttribute;
+      questions[questionId] = element.Payload;
+    }
+    return {
+      surveyId: entry.SurveyID || "",
+      name: entry.SurveyName || "Imported survey",
+      language: entry.SurveyLanguage || "EN",
+      // QSF files store blocks either as an array or as an object keyed "0", "1", ...
+      blocks: blocksPayload ? Object.values<SurveyBlock>(blocksPayload).filter(block => block && block.ID) : [],
+      questions,
+      flow: elements.find(element => element.Element === "FL")?.Payload ?? null,
+      options: elements.find(element => element.Element === "SO")?.Payload ?? null,
+    };
+  }
+
+  const definition = document.result ?? document.definition ?? document;
+  if (definition.Questions && definition.Blocks) {
+    return definitionToPortable(definition);
+  }
+  throw new Error("Survey file is neither a QSF document (SurveyEntry/SurveyElements) nor a survey definition (Questions/Blocks)");
+}
+
+/** Question, block and flow IDs as they appear anywhere inside a string, e.g. `${q://QID12/ChoiceGroup/SelectedChoices}`. */
+const ID_PATTERN = /(?<![A-Za-z0-9_])(QID\d+|BL_[A-Za-z0-9]+|FL_\d+)(?![A-Za-z0-9])/g;
+
+/**
+ * Rewrites every mapped ID in a JSON value: object keys and string values,
+ * including piped text, logic locators and JavaScript. Unmapped IDs are kept.
+ */
+export function remapIds<T>(value: T, idMap: Map<string, string>): T {
+  const rewrite = (text: string) => text.replace(ID_PATTERN, id => idMap.get(id) ?? id);
+  const walk = (node: any): any => {
+    if (typeof node === "string") return rewrite(node);
+    if (Array.isArray(node)) return node.map(walk);
+    if (node && typeof node === "object") {
+      const result: Record<string, any> = {};
+      for (const [key, child] of Object.entries(node)) result[rewrite(key)] = walk(child);
+      return result;
+    }
+    return node;
+  };
+  return walk(value);
+}
+
+/**
+ * Assigns sequential FlowIDs (FL_2, FL_3, ...) to every element below the root
+ * in document order, so an imported flow cannot collide with existing IDs.
+ */
+export function renumberFlowIds(flow: any, idMap: Map<string, string>): number {
+  let count = 1;
+  const walk = (elements: any[] | undefined) => {
+    for (const element of elements || []) {
+      count++;
+      if (element.FlowID) idMap.set(element.FlowID, `FL_${count}`);
+      if (element.Flow) walk(element.Flow);
+    }
+  };
+  walk(flow?.Flow);
+  return count;
+}
@@ -0,0 +1,232 @@
+import type { SurveyDefinition, SurveyResponse } from "../types/index.js";
+import { jsonResponseLookup } from "./response-filter.js";
+import { selectedValues } from "./response-summary.js";
+import { surveyQuestions } from "./survey-definition.js";
+import { quantile, round, toNumber } from "./statistics.js";
+
+export interface AttentionCheck {
+  questionId: string;
+  /** Accepted answer(s), compared against the exported value (choice recode or text) */
+  expected: string | number | Array<string | number>;
+}
+
+export interface ScreeningOptions {
+  /** Flag responses faster than this percentile of durations (default: 5) */
+  speederPercentile?: number;
+  /** Also flag any response faster than this many seconds */
+  minDurationSeconds?: number;
+  /** Minimum answered matrix statements before identical answers count as straightlining (default: 3) */
+  straightlineMinItems?: number;
+  attentionChecks?: AttentionCheck[];
+  /** Flag reCAPTCHA scores below this value (default: 0.5) */
+  recaptchaThreshold?: number;
+}
+
+export type QualityFlag =
+  | "speeder"
+  | "straightlining"
+  | "failed_attention_check"
+  | "duplicate_ip"
+  | "low_recaptcha"
+  | "relevantid_duplicate"
+  | "relevantid_fraud"
+  | "gibberish_text";
+
+export interface ResponseFlags {
+  responseId: string;
+  durationSeconds: number | null;
+  flags: QualityFlag[];
+  details: string[];
+}
+
+export interface ScreeningResult {
+  totalResponses: number;
+  flaggedResponses: number;
+  flagCounts: Record<QualityFlag, number>;
+  speederThresholdSeconds: number | null;
+  /** Respondents per attention check who were never shown it, so were not judged on it */
+  attentionChecksNotReached: Record<string, number>;
+  rows: ResponseFlags[];
+}
+
+/** RelevantID scores at or above these values indicate a likely duplicate or fraudulent respondent. */
+const RELEVANTID_DUPLICATE_SCORE = 75;
+const RELEVANTID_FRAUD_SCORE = 30;
+
+const KEYBOARD_RUNS = ["qwert", "werty", "asdf", "sdfg", "dfgh", "zxcv", "hjkl", "uiop", "yuio"];
+
+/** Returns why an open-ended answer looks like gibberish, or null if it looks like real text. */
+export function gibberishReason(text: string): string | null {
+  const trimmed = text.trim().toLowerCase();
+  if (trimmed.length < 3) return null;
+  if (/^(.)\1+$/.test(trimmed)) return "repeated character";
+  if (KEYBOARD_RUNS.some(run => trimmed.includes(run))) return "keyboard mash";
+
+  if (!/\p{L}/u.test(trimmed)) return /\d/.test(trimmed) ? null : "no letters";
+  // The vowel checks only make sense for Latin-script words
+  const words = trimmed.match(/[a-z]+/g) || [];
+  const longWords = words.filter(word => word.length >= 4);
+  if (longWords.length > 0 && longWords.every(word => !/[aeiouy]/.test(word))) return "no vowels";
+  if (/[bcdfghjklmnpqrstvwxz]{6,}/.test(trimmed)) return "consonant run";
+  return null;
+}
+
+function matchesExpected(value: unknown, expected: AttentionCheck["expected"]): boolean {
+  const accepted = (Array.isArray(expected) ? expected : [expected]).map(item => String(item).trim().toLowerCase());
+  const selected = selectedValues(value, true).map(item => item.trim().toLowerCase());
+  return selected.length > 0 && selected.every(item => accepted.includes(item));
+}
+
+/**
+ * Whether the respondent was shown a question: answered it, or has it in
+ * displayedFields when the export lists them.
+ */
+function reachedQuestion(response: SurveyResponse, questionId: string, value: unknown): boolean {
+  if (value !== undefined) return true;
+  return (response.displayedFields || []).some(field => field === questionId || field.startsWith(`${questionId}_`));
+}
+
+function isTruthy(value: unknown): boolean {
+  return value === true || value === 1 || String(value).toLowerCase() === "true" || value === "1";
+}
+
+export function screenResponses(
+  definition: SurveyDefinition,
+  responses: SurveyResponse[],
+  options: ScreeningOptions = {}
+): ScreeningResult {
+  const questions = surveyQuestions(definition);
+  const matrices = questions.filter(question =>
+    question.type === "Matrix" && question.subSelector !== "MultipleAnswer" && question.choices.length >= 2
+  );
+  const textQuestions = questions.filter(question => question.type === "TE");
+  const minItems = options.straightlineMinItems ?? 3;
+  const recaptchaThreshold = options.recaptchaThreshold ?? 0.5;
+
+  const durations = responses
+    .map(response => toNumber(response.values.duration))
+    .filter((value): value is number => value !== null);
+  const speederThreshold = quantile(durations, (options.speederPercentile ?? 5) / 100);
+
+  const ipCounts = new Map<string, number>();
+  for (const response of responses) {
+    const ip = response.values.ipAddress ?? response.values.IPAddress;
+    if (ip) ipCounts.set(String(ip), (ipCounts.get(String(ip)) ?? 0) + 1);
+  }
+
+  const notReached: Record<string, number> = {};
+  const rows = responses.map(response => {
+    const values = response.values;
+    const lookup = jsonResponseLookup(response);
+    const row: ResponseFlags = {
+      responseId: response.responseId,
+      durationSeconds: toNumber(values.duration),
+      flags: [],
+      details: [],
+    };
+    const flag = (name: QualityFlag, detail: string) => {
+      if (!row.flags.includes(name)) row.flags.push(name);
+      row.details.push(detail);
+    };
+
+    const duration = row.durationSeconds;
+    if (duration !== null) {
+      if (speederThreshold !== null && duration < speederThreshold) {
+        flag("speeder", `duration ${duration}s below ${options.speederPercentile ?? 5}th percentile (${round(speederThreshold, 0)}s)`);
+      } else if (options.minDurationSeconds !== undefined && duration < options.minDurationSeconds) {
+        flag("speeder", `duration ${duration}s below ${options.minDurationSeconds}s`);
+      }
+    }
+
+    for (const matrix of matrices) {
+      const answers = matrix.choices
+        .map(choice => values[`${matrix.questionId}_${choice.id}`])
+        .filter(value => value !== undefined && value !== null && value !== "")
+        .map(String);
+      if (answers.length >= minItems && answers.every(answer => answer === answers[0])) {
+        flag("straightlining", `${matrix.exportTag}: all ${answers.length} statements answered ${answers[0]}`);
+      }
+    }
+
+    for (const check of options.attentionChecks || []) {
+      const value = lookup(check.questionId);
+      if (!reachedQuestion(response, check.questionId, value)) {
+        notReached[check.questionId] = (notReached[check.questionId] ?? 0) + 1;
+        continue;
+      }
+      if (!matchesExpected(value, check.expected)) {
+        flag("failed_attention_check", `${check.questionId}: answered ${value === undefined || value === "" ? "nothing" : JSON.stringify(value)}`);
+      }
+    }
+
+    const ip = values.ipAddress ?? values.IPAddress;
+    if (ip && (ipCounts.get(String(ip)) ?? 0) > 1) {
+      flag("duplicate_ip", `IP ${ip} shared by ${ipCounts.get(String(ip))} responses`);
+    }
+
+    const recaptcha = toNumber(lookup("Q_RecaptchaScore"));
+    if (recaptcha !== null && recaptcha < recaptchaThreshold) {
+      flag("low_recaptcha", `reCAPTCHA score ${recaptcha}`);
+    }
+
+    const duplicateScore = toNumber(lookup("Q_RelevantIDDuplicateScore"));
+    if (isTruthy(lookup("Q_RelevantIDDuplicate")) || (duplicateScore !== null && duplicateScore >= RELEVANTID_DUPLICATE_SCORE)) {
+      flag("relevantid_duplicate", `RelevantID duplicate${duplicateScore !== null ? ` (score ${duplicateScore})` : ""}`);
+    }
+    const fraudScore = toNumber(lookup("Q_RelevantIDFraudScore"));
+    if (fraudScore !== null && fraudScore >= RELEVANTID_FRAUD_SCORE) {
+      flag("relevantid_fraud", `RelevantID fraud score ${fraudScore}`);
+    }
+
+    for (const question of textQuestions) {
+      const text = values[`${question.questionId}_TEXT`] ?? values[question.questionId];
+      if (typeof text !== "string") continue;
+      const reason = gibberishReason(text);
+      if (reason) flag("gibberish_text", `${question.exportTag}: ${reason} (${JSON.stringify(text.slice(0, 40))})`);
+    }
+
+    return row;
+  });
+
+  const flagCounts = {
+    speeder: 0,
+    straightlining: 0,
+    failed_attention_check: 0,
+    duplicate_ip: 0,
+    low_recaptcha: 0,
+    relevantid_duplicate: 0,
+    relevantid_fraud: 0,
+    gibberish_text: 0,
+  } as Record<QualityFlag, number>;
+  for (const row of rows) {
+    for (const name of row.flags) flagCounts[name]++;
+  }
+
+  return {
+    totalResponses: responses.length,
+    flaggedResponses: rows.filter(row => row.flags.length > 0).length,
+    flagCounts,
+    speederThresholdSeconds: round(speederThreshold, 1),
+    attentionChecksNotReached: notReached,
+    rows,
+  };
+}
+
+function csvCell(value: string | number | null): string {
+  const text = value === null ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One row per response with a 0/1 column per flag, for joining back onto the data. */
+export function renderFlagTableCsv(result: ScreeningResult): string {
+  const flagNames = Object.keys(result.flagCounts) as QualityFlag[];
+  const header = ["responseId", "durationSeconds", "flagCount", ...flagNames, "details"];
+  const lines = result.rows.map(row => [
+    csvCell(row.responseId),
+    csvCell(row.durationSeconds),
+    csvCell(row.flags.length),
+    ...flagNames.map(name => (row.flags.includes(name) ? "1" : "0")),
+    csvCell(row.details.join("; ")),
+  ].join(","));
+  return [header.join(","), ...lines].join("\n") + "\n";
+}
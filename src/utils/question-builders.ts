@@ -0,0 +1,533 @@
+/**
+ * Question payloads behind the simplified question helpers, shared by the
+ * add_*_question tools and survey specs.
+ */
+
+export const LIKERT_PRESETS: Record<string, string[]> = {
+  agree5: ["Strongly Disagree", "Disagree", "Neither Agree nor Disagree", "Agree", "Strongly Agree"],
+  agree7: ["Strongly Disagree", "Disagree", "Somewhat Disagree", "Neither Agree nor Disagree", "Somewhat Agree", "Agree", "Strongly Agree"],
+  frequency5: ["Never", "Rarely", "Sometimes", "Often", "Always"],
+  satisfaction5: ["Very Dissatisfied", "Dissatisfied", "Neutral", "Satisfied", "Very Satisfied"],
+  likelihood5: ["Very Unlikely", "Unlikely", "Neutral", "Likely", "Very Likely"],
+};
+
+export const LIKERT_SCALES = ["agree5", "agree7", "frequency5", "satisfaction5", "likelihood5", "custom"] as const;
+
+export const TEXT_ENTRY_SELECTORS: Record<string, string> = {
+  single: "SL",
+  multi: "ML",
+  essay: "ESTB",
+};
+
+const PIPED_TEXT_PREFIXES = /\$\{(q|e|m|date|rand|lm|gr):\/\//i;
+
+export function checkQuestionJSWarning(js: string): string | null {
+  // Find ${ sequences that are NOT valid Qualtrics piped text
+  const dollarBracePattern = /\$\{/g;
+  let match;
+  let hasUnsafeDollarBrace = false;
+  while ((match = dollarBracePattern.exec(js)) !== null) {
+    const substring = js.slice(match.index);
+    if (!PIPED_TEXT_PREFIXES.test(substring)) {
+      hasUnsafeDollarBrace = true;
+      break;
+    }
+  }
+  if (hasUnsafeDollarBrace) {
+    return "WARNING: Your QuestionJS contains literal `${` which Qualtrics will interpret as piped text, corrupting your JavaScript at runtime. Replace `${` in string literals with `\\x24{` or `String.fromCharCode(36)+'{'`.";
+  }
+  return null;
+}
+
+export function forceResponseValidation(): Record<string, any> {
+  return {
+    Settings: {
+      ForceResponse: "ON",
+      ForceResponseType: "ON",
+      Type: "None",
+    },
+  };
+}
+
+/** Choices keyed "1", "2", ... in the given order, with the matching ChoiceOrder. */
+function numberedChoices(labels: string[]): { choices: Record<string, { Display: string }>; order: string[] } {
+  const choices: Record<string, { Display: string }> = {};
+  labels.forEach((label, index) => {
+    choices[String(index + 1)] = { Display: label };
+  });
+  return { choices, order: labels.map((_, i) => String(i + 1)) };
+}
+
+function withValidation(questionData: Record<string, any>, forceResponse?: boolean): Record<string, any> {
+  if (forceResponse) questionData.Validation = forceResponseValidation();
+  return questionData;
+}
+
+/** Returns the preset's labels, the custom labels, or null if a custom scale has fewer than 2 labels. */
+export function likertLabels(scale: string, customLabels?: string[]): string[] | null {
+  if (scale === "custom") {
+    return customLabels && customLabels.length >= 2 ? customLabels : null;
+  }
+  return LIKERT_PRESETS[scale] ?? null;
+}
+
+export function multipleChoicePayload(options: {
+  questionText: string;
+  choices: string[];
+  allowMultiple?: boolean;
+  forceResponse?: boolean;
+  dataExportTag: string;
+}): Record<string, any> {
+  const { choices, order } = numberedChoices(options.choices);
+  return withValidation({
+    QuestionText: options.questionText,
+    QuestionType: "MC",
+    Selector: options.allowMultiple ? "MAVR" : "SAVR",
+    SubSelector: "TX",
+    DataExportTag: options.dataExportTag,
+    Choices: choices,
+    ChoiceOrder: order,
+  }, options.forceResponse);
+}
+
+export function textEntryPayload(options: {
+  questionText: string;
+  textType: "single" | "multi" | "essay";
+  forceResponse?: boolean;
+  dataExportTag: string;
+}): Record<string, any> {
+  return withValidation({
+    QuestionText: options.questionText,
+    QuestionType: "TE",
+    Selector: TEXT_ENTRY_SELECTORS[options.textType],
+    DataExportTag: options.dataExportTag,
+  }, options.forceResponse);
+}
+
+export function descriptiveTextPayload(options: {
+  htmlContent: string;
+  dataExportTag: string;
+}): Record<string, any> {
+  return {
+    QuestionText: options.htmlContent,
+    QuestionType: "DB",
+    Selector: "TB",
+    DataExportTag: options.dataExportTag,
+  };
+}
+
+/** Single-item Likert scale as MC/SAVR. */
+export function likertPayload(options: {
+  questionText: string;
+  labels: string[];
+  forceResponse?: boolean;
+  dataExportTag: string;
+}): Record<string, any> {
+  const { choices, order } = numberedChoices(options.labels);
+  return withValidation({
+    QuestionText: options.questionText,
+    QuestionType: "MC",
+    Selector: "SAVR",
+    SubSelector: "TX",
+    DataExportTag: options.dataExportTag,
+    Choices: choices,
+    ChoiceOrder: order,
+  }, options.forceResponse);
+}
+
+export function matrixPayload(options: {
+  questionText: string;
+  statements: string[];
+  scalePoints: string[];
+  forceResponse?: boolean;
+  dataExportTag: string;
+}): Record<string, any> {
+  const rows = numberedChoices(options.statements);
+  const columns = numberedChoices(options.scalePoints);
+  return withValidation({
+    QuestionText: options.questionText,
+    QuestionType: "Matrix",
+    Selector: "Likert",
+    SubSelector: "SingleAnswer",
+    DataExportTag: options.dataExportTag,
+    Choices: rows.choices,
+    ChoiceOrder: rows.order,
+    Answers: columns.choices,
+    AnswerOrder: columns.order,
+  }, options.forceResponse);
+}
+
+export class QuestionBuilderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QuestionBuilderError";
+  }
+}
+
+export const SLIDER_DEFAULTS = { min: 0, max: 100, gridLines: 10, decimals: 0 };
+
+export function sliderPayload(options: {
+  questionText: string;
+  statements: string[];
+  min?: number;
+  max?: number;
+  gridLines?: number;
+  decimals?: number;
+  labels?: string[];
+  forceResponse?: boolean;
+  dataExportTag: string;
+}): Record<string, any> {
+  const min = options.min ?? SLIDER_DEFAULTS.min;
+  const max = options.max ?? SLIDER_DEFAULTS.max;
+  const gridLines = options.gridLines ?? SLIDER_DEFAULTS.gridLines;
+  const decimals = options.decimals ?? SLIDER_DEFAULTS.decimals;
+  if (min >= max) throw new QuestionBuilderError(`Slider minimum (${min}) must be below its maximum (${max})`);
+  if (!Number.isInteger(gridLines) || gridLines < 1) throw new QuestionBuilderError("gridLines must be a whole number of at least 1");
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > 4) throw new QuestionBuilderError("decimals must be a whole number from 0 to 4");
+
+  const { choices, order } = numberedChoices(options.statements);
+  const payload: Record<string, any> = {
+    QuestionText: options.questionText,
+    QuestionType: "Slider",
+    Selector: "HSLIDER",
+    DataExportTag: options.dataExportTag,
+    Choices: choices,
+    ChoiceOrder: order,
+    Configuration: {
+      QuestionDescriptionOption: "UseText",
+      CSSliderMin: min,
+      CSSliderMax: max,
+      GridLines: gridLines,
+      NumDecimals: String(decimals),
+      ShowValue: true,
+      CustomStart: false,
+      NotApplicable: false,
+      MobileFirst: true,
+    },
+  };
+  if (options.labels && options.labels.length > 0) payload.Labels = numberedChoices(options.labels).choices;
+  return withValidation(payload, options.forceResponse);
+}
+
+export const CONSTANT_SUM_SELECTORS: Record<string, string> = {
+  textBoxes: "VRTL",
+  sliders: "HSLIDER",
+  bars: "HBAR",
+};
+
+/** Constant sum whose items must add up to total (default 100). */
+export function constantSumPayload(options: {
+  questionText: string;
+  items: string[];
+  total?: number;
+  style?: "textBoxes" | "sliders" | "bars";
+  forceResponse?: boolean;
+  dataExportTag: string;
+}): Record<string, any> {
+  const total = options.total ?? 100;
+  if (!(total > 0)) throw new QuestionBuilderError("The constant sum total must be greater than 0");
+
+  const { choices, order } = numberedChoices(options.items);
+  return {
+    QuestionText: options.questionText,
+    QuestionType: "CS",
+    Selector: CONSTANT_SUM_SELECTORS[options.style || "textBoxes"],
+    SubSelector: "TX",
+    DataExportTag: options.dataExportTag,
+    Choices: choices,
+    ChoiceOrder: order,
+    Configuration: { QuestionDescriptionOption: "UseText", CSSliderMin: 0, CSSliderMax: total },
+    Validation: {
+      Settings: {
+        ForceResponse: options.forceResponse ? "ON" : "OFF",
+        ForceResponseType: "ON",
+        Type: "ChoicesTotal",
+        ChoiceTotal: String(total),
+      },
+    },
+  };
+}
+
+export const RANK_ORDER_SELECTORS: Record<string, string> = {
+  dragDrop: "DND",
+  radio: "RB",
+  textBox: "TB",
+};
+
+export function rankOrderPayload(options: {
+  questionText: string;
+  items: string[];
+  style?: "dragDrop" | "radio" | "textBox";
+  forceResponse?: boolean;
+  dataExportTag: string;
+}): Record<string, any> {
+  const { choices, order } = numberedChoices(options.items);
+  return withValidation({
+    QuestionText: options.questionText,
+    QuestionType: "RO",
+    Selector: RANK_ORDER_SELECTORS[options.style || "dragDrop"],
+    SubSelector: "TX",
+    DataExportTag: options.dataExportTag,
+    Choices: choices,
+    ChoiceOrder: order,
+  }, options.forceResponse);
+}
+
+export interface SideBySideColumn {
+  label: string;
+  answerType: "single" | "multiple" | "text";
+  /** Scale points; required unless answerType is text */
+  scalePoints?: string[];
+}
+
+/**
+ * Side-by-side: the shared statements form the rows, and each column is its own
+ * matrix in AdditionalQuestions, exported as <tag>#<column>_<row>.
+ */
+export function sideBySidePayload(options: {
+  questionText: string;
+  statements: string[];
+  columns: SideBySideColumn[];
+  forceResponse?: boolean;
+  dataExportTag: string;
+}): Record<string, any> {
+  const rows = numberedChoices(options.statements);
+  const additionalQuestions: Record<string, any> = {};
+  options.columns.forEach((column, index) => {
+    const key = String(index + 1);
+    const base = {
+      QuestionText: column.label,
+      QuestionType: "Matrix",
+      DataExportTag: `${options.dataExportTag}#${key}`,
+      Choices: rows.choices,
+      ChoiceOrder: rows.order,
+    };
+    if (column.answerType === "text") {
+      additionalQuestions[key] = withValidation({ ...base, Selector: "TE", SubSelector: "Short" }, options.forceResponse);
+      return;
+    }
+    if (!column.scalePoints || column.scalePoints.length < 2) {
+      throw new QuestionBuilderError(`Column '${column.label}' needs at least 2 scalePoints`);
+    }
+    const answers = numberedChoices(column.scalePoints);
+    additionalQuestions[key] = withValidation({
+      ...base,
+      Selector: "Likert",
+      SubSelector: column.answerType === "multiple" ? "MultipleAnswer" : "SingleAnswer",
+      Answers: answers.choices,
+      AnswerOrder: answers.order,
+    }, options.forceResponse);
+  });
+
+  return {
+    QuestionText: options.questionText,
+    QuestionType: "SBS",
+    Selector: "SBSMatrix",
+    DataExportTag: options.dataExportTag,
+    Choices: rows.choices,
+    ChoiceOrder: rows.order,
+    NumberOfQuestions: options.columns.length,
+    AdditionalQuestions: additionalQuestions,
+  };
+}
+
+/** Net promoter score: MC/NPS with choices 0–10, keyed by their value. */
+export function npsPayload(options: {
+  questionText: string;
+  lowLabel?: string;
+  highLabel?: string;
+  forceResponse?: boolean;
+  dataExportTag: string;
+}): Record<string, any> {
+  const values = Array.from({ length: 11 }, (_, i) => String(i));
+  const choices: Record<string, { Display: string }> = {};
+  for (const value of values) choices[value] = { Display: value };
+  return withValidation({
+    QuestionText: options.questionText,
+    QuestionType: "MC",
+    Selector: "NPS",
+    DataExportTag: options.dataExportTag,
+    Choices: choices,
+    ChoiceOrder: values,
+    ColumnLabels: [
+      { Display: options.lowLabel || "Not at all likely" },
+      { Display: options.highLabel || "Extremely likely" },
+    ],
+  }, options.forceResponse);
+}
+
+export interface DrillDownOption {
+  label: string;
+  options?: DrillDownOption[];
+}
+
+/**
+ * Drill-down: one dropdown per level, each narrowed by the answer above it.
+ * Every path through options must reach exactly the last level.
+ */
+export function drillDownPayload(options: {
+  questionText: string;
+  levels: string[];
+  options: DrillDownOption[];
+  forceResponse?: boolean;
+  dataExportTag: string;
+}): Record<string, any> {
+  const toAnswers = (entries: DrillDownOption[], depth: number, path: string[]): Record<string, any> => {
+    const answers: Record<string, any> = {};
+    entries.forEach((entry, index) => {
+      const here = [...path, entry.label];
+      const children = entry.options || [];
+      if (depth < options.levels.length - 1 && children.length === 0) {
+        throw new QuestionBuilderError(`'${here.join(" > ")}' needs options for level '${options.levels[depth + 1]}'`);
+      }
+      if (depth === options.levels.length - 1 && children.length > 0) {
+        throw new QuestionBuilderError(`'${here.join(" > ")}' has options below the last level '${options.levels[depth]}'`);
+      }
+      answers[String(index + 1)] = children.length > 0
+        ? { Display: entry.label, Answers: toAnswers(children, depth + 1, here) }
+        : { Display: entry.label };
+    });
+    return answers;
+  };
+
+  const { choices, order } = numberedChoices(options.levels);
+  return withValidation({
+    QuestionText: options.questionText,
+    QuestionType: "DD",
+    Selector: "DL",
+    DataExportTag: options.dataExportTag,
+    Choices: choices,
+    ChoiceOrder: order,
+    Answers: toAnswers(options.options, 0, []),
+  }, options.forceResponse);
+}
+
+export interface HeatMapRegion {
+  label: string;
+  /** Position and size in pixels of the image */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export function heatMapPayload(options: {
+  questionText: string;
+  imageUrl: string;
+  maxClicks?: number;
+  regions?: HeatMapRegion[];
+  forceResponse?: boolean;
+  dataExportTag: string;
+}): Record<string, any> {
+  const maxClicks = options.maxClicks ?? 1;
+  if (!Number.isInteger(maxClicks) || maxClicks < 1) throw new QuestionBuilderError("maxClicks must be a whole number of at least 1");
+
+  const payload: Record<string, any> = {
+    QuestionText: options.questionText,
+    QuestionType: "HeatMap",
+    Selector: "OnImage",
+    DataExportTag: options.dataExportTag,
+    Configuration: {
+      QuestionDescriptionOption: "UseText",
+      ImageLocation: options.imageUrl,
+      MaxSelections: maxClicks,
+    },
+  };
+  if (options.regions && options.regions.length > 0) {
+    const regions: Record<string, any> = {};
+    options.regions.forEach((region, index) => {
+      if (region.width <= 0 || region.height <= 0) {
+        throw new QuestionBuilderError(`Region '${region.label}' needs a positive width and height`);
+      }
+      regions[String(index + 1)] = {
+        Display: region.label,
+        Type: "Rectangle",
+        X: region.x,
+        Y: region.y,
+        Width: region.width,
+        Height: region.height,
+      };
+    });
+    payload.Regions = regions;
+  }
+  return withValidation(payload, options.forceResponse);
+}
+
+export function fileUploadPayload(options: {
+  questionText: string;
+  forceResponse?: boolean;
+  dataExportTag: string;
+}): Record<string, any> {
+  return withValidation({
+    QuestionText: options.questionText,
+    QuestionType: "FileUpload",
+    Selector: "FileUpload",
+    DataExportTag: options.dataExportTag,
+  }, options.forceResponse);
+}
+
+export function signaturePayload(options: {
+  questionText: string;
+  forceResponse?: boolean;
+  dataExportTag: string;
+}): Record<string, any> {
+  return withValidation({
+    QuestionText: options.questionText,
+    QuestionType: "Draw",
+    Selector: "Signature",
+    DataExportTag: options.dataExportTag,
+  }, options.forceResponse);
+}
+
+/**
+ * Page timer recording first click, last click, page submit and click count.
+ * With autoAdvanceSeconds the page submits itself after that many seconds.
+ */
+export function timingPayload(options: {
+  questionText?: string;
+  minSeconds?: number;
+  autoAdvanceSeconds?: number;
+  dataExportTag: string;
+}): Record<string, any> {
+  if (options.minSeconds !== undefined && options.minSeconds < 0) throw new QuestionBuilderError("minSeconds cannot be negative");
+  if (options.autoAdvanceSeconds !== undefined) {
+    if (options.autoAdvanceSeconds <= 0) throw new QuestionBuilderError("autoAdvanceSeconds must be greater than 0");
+    if (options.minSeconds !== undefined && options.minSeconds > options.autoAdvanceSeconds) {
+      throw new QuestionBuilderError("minSeconds cannot be more than autoAdvanceSeconds");
+    }
+  }
+
+  const { choices, order } = numberedChoices(["First Click", "Last Click", "Page Submit", "Click Count"]);
+  return {
+    QuestionText: options.questionText || "Timing",
+    QuestionType: "Timing",
+    Selector: "PageTimer",
+    DataExportTag: options.dataExportTag,
+    Choices: choices,
+    ChoiceOrder: order,
+    Configuration: {
+      MinSeconds: String(options.minSeconds ?? 0),
+      MaxSeconds: String(options.autoAdvanceSeconds ?? 0),
+    },
+  };
+}
+
+/** Form of labelled single-line text fields (TE/FORM), one choice per field. */
+export function formFieldsPayload(options: {
+  questionText: string;
+  fields: string[];
+  forceResponse?: boolean;
+  dataExportTag: string;
+}): Record<string, any> {
+  if (new Set(options.fields).size !== options.fields.length) throw new QuestionBuilderError("Form field labels must be unique");
+
+  const { choices, order } = numberedChoices(options.fields);
+  return withValidation({
+    QuestionText: options.questionText,
+    QuestionType: "TE",
+    Selector: "FORM",
+    DataExportTag: options.dataExportTag,
+    Choices: choices,
+    ChoiceOrder: order,
+  }, options.forceResponse);
+}
@@ -0,0 +1,351 @@
+/**
+ * A small predicate language for filtering exported responses locally, e.g.
+ *
+ *   Finished = 1 and Duration > 120
+ *   Condition = "treatment" or (QID3 in (1, 2) and not QID7 is empty)
+ *
+ * Field names match export columns, question IDs, embedded data fields and
+ * response metadata case-insensitively. Names containing spaces or operators
+ * can be wrapped in backticks: `Duration (in seconds)` > 120.
+ */
+
+import type { SurveyDefinition } from "../types/index.js";
+
+export type FilterValue = string | number | boolean;
+
+export type FilterExpression =
+  | { type: "and" | "or"; left: FilterExpression; right: FilterExpression }
+  | { type: "not"; operand: FilterExpression }
+  | { type: "compare"; field: string; op: "=" | "!=" | "<" | "<=" | ">" | ">="; value: FilterValue }
+  | { type: "in"; field: string; values: FilterValue[] }
+  | { type: "contains"; field: string; value: FilterValue }
+  | { type: "empty"; field: string };
+
+/** Resolves a field for one response; `undefined` means the field does not exist. */
+export type FieldLookup = (field: string) => unknown;
+
+export class FilterSyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(`${message} (at position ${position + 1})`);
+    this.name = "FilterSyntaxError";
+  }
+}
+
+interface Token {
+  /** `field` is a backtick-quoted name, which may collide with a keyword */
+  kind: "ident" | "field" | "string" | "number" | "op" | "punct" | "end";
+  text: string;
+  position: number;
+}
+
+const KEYWORDS = new Set(["and", "or", "not", "in", "contains", "is", "empty", "true", "false"]);
+const COMPARISON_OPS = ["<=", ">=", "!=", "<>", "==", "=", "<", ">"];
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'" || ch === "`") {
+      const start = i;
+      let text = "";
+      i++;
+      while (i < input.length && input[i] !== ch) {
+        if (input[i] === "\\" && i + 1 < input.length) i++;
+        text += input[i++];
+      }
+      if (i >= input.length) throw new FilterSyntaxError("Unterminated quoted text", start);
+      i++;
+      tokens.push({ kind: ch === "`" ? "field" : "string", text, position: start });
+      continue;
+    }
+
+    const op = COMPARISON_OPS.find(candidate => input.startsWith(candidate, i));
+    if (op) {
+      tokens.push({ kind: "op", text: op, position: i });
+      i += op.length;
+      continue;
+    }
+
+    if (ch === "(" || ch === ")" || ch === ",") {
+      tokens.push({ kind: "punct", text: ch, position: i });
+      i++;
+      continue;
+    }
+
+    const number = /^-?\d+(\.\d+)?/.exec(input.slice(i));
+    if (number) {
+      tokens.push({ kind: "number", text: number[0], position: i });
+      i += number[0].length;
+      continue;
+    }
+
+    const ident = /^[A-Za-z_][A-Za-z0-9_.#]*/.exec(input.slice(i));
+    if (ident) {
+      tokens.push({ kind: "ident", text: ident[0], position: i });
+      i += ident[0].length;
+      continue;
+    }
+
+    throw new FilterSyntaxError(`Unexpected character '${ch}'`, i);
+  }
+
+  tokens.push({ kind: "end", text: "", position: input.length });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): FilterExpression {
+    const expression = this.parseOr();
+    const next = this.peek();
+    if (next.kind !== "end") throw new FilterSyntaxError(`Unexpected '${next.text}'`, next.position);
+    return expression;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isKeyword(token: Token, keyword: string): boolean {
+    return token.kind === "ident" && token.text.toLowerCase() === keyword;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    if (this.isKeyword(this.peek(), keyword)) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectPunct(text: string): void {
+    const token = this.next();
+    if (token.kind !== "punct" || token.text !== text) {
+      throw new FilterSyntaxError(`Expected '${text}'`, token.position);
+    }
+  }
+
+  private parseOr(): FilterExpression {
+    let left = this.parseAnd();
+    while (this.acceptKeyword("or")) {
+      left = { type: "or", left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): FilterExpression {
+    let left = this.parseNot();
+    while (this.acceptKeyword("and")) {
+      left = { type: "and", left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): FilterExpression {
+    if (this.acceptKeyword("not")) {
+      return { type: "not", operand: this.parseNot() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FilterExpression {
+    const token = this.peek();
+    if (token.kind === "punct" && token.text === "(") {
+      this.index++;
+      const expression = this.parseOr();
+      this.expectPunct(")");
+      return expression;
+    }
+    return this.parseCondition();
+  }
+
+  private parseCondition(): FilterExpression {
+    const fieldToken = this.next();
+    const isField = fieldToken.kind === "field"
+      || (fieldToken.kind === "ident" && !KEYWORDS.has(fieldToken.text.toLowerCase()));
+    if (!isField) {
+      throw new FilterSyntaxError("Expected a field name", fieldToken.position);
+    }
+    const field = fieldToken.text;
+    const token = this.next();
+
+    if (token.kind === "op") {
+      const op = token.text === "==" ? "=" : token.text === "<>" ? "!=" : token.text;
+      return { type: "compare", field, op: op as "=" | "!=" | "<" | "<=" | ">" | ">=", value: this.parseValue() };
+    }
+    if (this.isKeyword(token, "in")) {
+      this.expectPunct("(");
+      const values = [this.parseValue()];
+      while (this.peek().kind === "punct" && this.peek().text === ",") {
+        this.index++;
+        values.push(this.parseValue());
+      }
+      this.expectPunct(")");
+      return { type: "in", field, values };
+    }
+    if (this.isKeyword(token, "contains")) {
+      return { type: "contains", field, value: this.parseValue() };
+    }
+    if (this.isKeyword(token, "is")) {
+      const negated = this.acceptKeyword("not");
+      const empty = this.next();
+      if (!this.isKeyword(empty, "empty")) throw new FilterSyntaxError("Expected 'empty'", empty.position);
+      const condition: FilterExpression = { type: "empty", field };
+      return negated ? { type: "not", operand: condition } : condition;
+    }
+
+    throw new FilterSyntaxError(`Expected an operator after '${field}'`, token.position);
+  }
+
+  private parseValue(): FilterValue {
+    const token = this.next();
+    if (token.kind === "number") return Number(token.text);
+    if (token.kind === "string") return token.text;
+    if (this.isKeyword(token, "true")) return true;
+    if (this.isKeyword(token, "false")) return false;
+    // Bare words are accepted as strings: Condition = treatment
+    if (token.kind === "ident" && !KEYWORDS.has(token.text.toLowerCase())) return token.text;
+    throw new FilterSyntaxError("Expected a value", token.position);
+  }
+}
+
+export function parseResponseFilter(expression: string): FilterExpression {
+  return new Parser(tokenize(expression)).parse();
+}
+
+/** Lists the field names an expression refers to. */
+export function filterFields(expression: FilterExpression): string[] {
+  switch (expression.type) {
+    case "and":
+    case "or":
+      return Array.from(new Set([...filterFields(expression.left), ...filterFields(expression.right)]));
+    case "not":
+      return filterFields(expression.operand);
+    default:
+      return [expression.field];
+  }
+}
+
+function isEmptyValue(value: unknown): boolean {
+  return value === undefined || value === null || value === "" || (Array.isArray(value) && value.length === 0);
+}
+
+/** Booleans compare as 1/0 and numeric strings as numbers, so `Finished = 1` works for JSON and CSV. */
+function toComparable(value: unknown): string | number {
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (typeof value === "number") return value;
+  const text = String(value).trim();
+  return text !== "" && !isNaN(Number(text)) ? Number(text) : text;
+}
+
+function compareScalar(actual: unknown, op: string, expected: FilterValue): boolean {
+  if (isEmptyValue(actual)) return op === "!=";
+  const a = toComparable(actual);
+  const b = toComparable(expected);
+
+  if (op === "=" || op === "!=") {
+    const equal = typeof a === "string" || typeof b === "string"
+      ? String(a).toLowerCase() === String(b).toLowerCase()
+      : a === b;
+    return op === "=" ? equal : !equal;
+  }
+  // Ordering only makes sense between two numbers or two strings
+  if (typeof a !== typeof b) return false;
+  switch (op) {
+    case "<": return a < b;
+    case "<=": return a <= b;
+    case ">": return a > b;
+    case ">=": return a >= b;
+    default: return false;
+  }
+}
+
+/** Multi-select answers arrive as arrays; a comparison matches if any element matches. */
+function compare(actual: unknown, op: string, expected: FilterValue): boolean {
+  if (Array.isArray(actual) && actual.length > 0) {
+    return op === "!="
+      ? actual.every(item => compareScalar(item, op, expected))
+      : actual.some(item => compareScalar(item, op, expected));
+  }
+  return compareScalar(actual, op, expected);
+}
+
+export function evaluateFilter(expression: FilterExpression, lookup: FieldLookup): boolean {
+  switch (expression.type) {
+    case "and":
+      return evaluateFilter(expression.left, lookup) && evaluateFilter(expression.right, lookup);
+    case "or":
+      return evaluateFilter(expression.left, lookup) || evaluateFilter(expression.right, lookup);
+    case "not":
+      return !evaluateFilter(expression.operand, lookup);
+    case "compare":
+      return compare(lookup(expression.field), expression.op, expression.value);
+    case "in": {
+      const actual = lookup(expression.field);
+      return expression.values.some(value => compare(actual, "=", value));
+    }
+    case "contains": {
+      const actual = lookup(expression.field);
+      if (Array.isArray(actual)) return compare(actual, "=", expression.value);
+      if (isEmptyValue(actual)) return false;
+      return String(actual).toLowerCase().includes(String(expression.value).toLowerCase());
+    }
+    case "empty":
+      return isEmptyValue(lookup(expression.field));
+  }
+}
+
+/** Maps a column named after a DataExportTag to its QID-based key, if it is one. */
+export type ExportTagResolver = (field: string) => string | undefined;
+
+/**
+ * Resolves export-tag column names (age, Q5_1, Q5_TEXT) to the QID-based keys
+ * of JSON export `values` (QID3, QID5_1, QID5_TEXT), longest tag first.
+ */
+export function exportTagResolver(definition: SurveyDefinition): ExportTagResolver {
+  const tags = Object.entries<Record<string, any>>(definition.Questions || {})
+    .filter(([questionId, question]) => typeof question.DataExportTag === "string" && question.DataExportTag && question.DataExportTag !== questionId)
+    .map(([questionId, question]) => [String(question.DataExportTag).toLowerCase(), questionId] as const)
+    .sort((a, b) => b[0].length - a[0].length);
+  return (field) => {
+    const key = field.toLowerCase();
+    const match = tags.find(([tag]) => key === tag || key.startsWith(`${tag}_`));
+    return match ? match[1] + key.slice(match[0].length) : undefined;
+  };
+}
+
+/**
+ * Builds a case-insensitive lookup over a JSON export response: `values` (question
+ * answers, embedded data and metadata such as finished/duration) first, then the
+ * top-level fields such as responseId. With resolveTag, fields not found by name
+ * are retried as export tags.
+ */
+export function jsonResponseLookup(response: Record<string, any>, resolveTag?: ExportTagResolver): FieldLookup {
+  const index = new Map<string, unknown>();
+  for (const [key, value] of Object.entries(response)) {
+    if (key !== "values" && key !== "labels") index.set(key.toLowerCase(), value);
+  }
+  for (const [key, value] of Object.entries(response.values || {})) {
+    index.set(key.toLowerCase(), value);
+  }
+  return (field) => {
+    const value = index.get(field.toLowerCase());
+    if (value !== undefined || !resolveTag) return value;
+    const key = resolveTag(field);
+    return key === undefined ? undefined : index.get(key.toLowerCase());
+  };
+}
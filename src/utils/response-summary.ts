@@ -0,0 +1,319 @@
+import type { SurveyDefinition, SurveyResponse } from "../types/index.js";
+import { ChoiceInfo, QuestionInfo, surveyBlocks, surveyQuestions } from "./survey-definition.js";
+import { median, NumericSummary, round, summarizeNumbers, toNumber } from "./statistics.js";
+
+export interface FrequencyRow {
+  value: string;
+  label: string;
+  count: number;
+  percent: number;
+}
+
+export interface ItemSummary {
+  key: string;
+  label: string;
+  answered: number;
+  frequencies?: FrequencyRow[];
+  stats?: NumericSummary;
+}
+
+export interface QuestionSummary {
+  questionId: string;
+  exportTag: string;
+  text: string;
+  type: string;
+  answered: number;
+  frequencies?: FrequencyRow[];
+  stats?: NumericSummary;
+  /** Matrix statements or slider/form fields, summarized separately */
+  items?: ItemSummary[];
+}
+
+export interface BlockSummary {
+  blockId: string;
+  description: string;
+  /**
+   * Responses that were shown or answered something in this block, or (for
+   * blocks every respondent gets) in a later one
+   */
+  reached: number;
+  reachedRate: number;
+  /** Unfinished responses whose last reached block is this one */
+  droppedOut: number;
+}
+
+export interface SurveySummary {
+  surveyId: string;
+  surveyName: string;
+  responses: {
+    total: number;
+    finished: number;
+    completionRate: number;
+    medianDurationSeconds: number | null;
+  };
+  blocks: BlockSummary[];
+  questions: QuestionSummary[];
+}
+
+/** Question types summarized as choice frequencies. */
+const CHOICE_TYPES = new Set(["MC"]);
+/** Question types whose sub-fields are summarized as separate items. */
+const ITEM_TYPES = new Set(["Matrix", "Slider", "CS", "RO"]);
+
+export function isFinished(values: Record<string, any>): boolean {
+  const finished = values.finished ?? values.Finished;
+  return finished === true || finished === 1 || String(finished).toLowerCase() === "true" || finished === "1";
+}
+
+function isAnswered(value: unknown): boolean {
+  return value !== undefined && value !== null && value !== "" && !(Array.isArray(value) && value.length === 0);
+}
+
+const answeredCache = new WeakMap<Record<string, any>, Set<string>>();
+
+/** Question IDs with any answer stored under them (QID3, QID3_1, QID3_TEXT, ...); display-order fields don't count. */
+function answeredQuestionIds(values: Record<string, any>): Set<string> {
+  let answered = answeredCache.get(values);
+  if (!answered) {
+    answered = new Set();
+    for (const [key, value] of Object.entries(values)) {
+      const match = /^(QID\d+)(?:_|$)/.exec(key);
+      if (match && !key.endsWith("_DO") && isAnswered(value)) answered.add(match[1]);
+    }
+    answeredCache.set(values, answered);
+  }
+  return answered;
+}
+
+export function answeredQuestion(values: Record<string, any>, questionId: string): boolean {
+  return answeredQuestionIds(values).has(questionId);
+}
+
+/** Selected values for a choice question; multi-select answers are arrays in JSON and comma lists in CSV. */
+export function selectedValues(value: unknown, multipleAnswer: boolean): string[] {
+  if (!isAnswered(value)) return [];
+  if (Array.isArray(value)) return value.map(String);
+  if (multipleAnswer && typeof value === "string") return value.split(",").map(part => part.trim()).filter(Boolean);
+  return [String(value)];
+}
+
+function percent(count: number, total: number): number {
+  return total > 0 ? round((count / total) * 100, 1)! : 0;
+}
+
+function frequencies(selections: string[][], choices: ChoiceInfo[], respondents: number): FrequencyRow[] {
+  const counts = new Map<string, number>();
+  for (const selected of selections) {
+    for (const value of selected) counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  const rows: FrequencyRow[] = choices.map(choice => ({
+    value: choice.recode,
+    label: choice.label,
+    count: counts.get(choice.recode) ?? 0,
+    percent: percent(counts.get(choice.recode) ?? 0, respondents),
+  }));
+  // Values not in the definition (e.g. recoded or deleted choices) are still reported
+  for (const [value, count] of counts) {
+    if (!choices.some(choice => choice.recode === value)) {
+      rows.push({ value, label: value, count, percent: percent(count, respondents) });
+    }
+  }
+  return rows;
+}
+
+function numericStats(values: unknown[]): NumericSummary | undefined {
+  const numbers = values.map(toNumber).filter((value): value is number => value !== null);
+  // Only report numeric stats when the answers are actually numeric
+  return numbers.length > 0 && numbers.length === values.length ? summarizeNumbers(numbers) : undefined;
+}
+
+function summarizeItem(key: string, label: string, raw: unknown[], scale: ChoiceInfo[]): ItemSummary {
+  const answered = raw.filter(isAnswered);
+  const stats = numericStats(answered);
+  return {
+    key,
+    label,
+    answered: answered.length,
+    ...(scale.length > 0 ? { frequencies: frequencies(answered.map(value => selectedValues(value, false)), scale, answered.length) } : {}),
+    ...(stats ? { stats } : {}),
+  };
+}
+
+export function summarizeQuestion(question: QuestionInfo, responses: SurveyResponse[]): QuestionSummary {
+  const base: QuestionSummary = {
+    questionId: question.questionId,
+    exportTag: question.exportTag,
+    text: question.text.length > 120 ? `${question.text.slice(0, 117)}...` : question.text,
+    type: question.selector ? `${question.type}/${question.selector}` : question.type,
+    answered: responses.filter(response => answeredQuestion(response.values, question.questionId)).length,
+  };
+
+  if (CHOICE_TYPES.has(question.type)) {
+    const selections = responses
+      .map(response => selectedValues(response.values[question.questionId], question.multipleAnswer))
+      .filter(selected => selected.length > 0);
+    const summary: QuestionSummary = { ...base, frequencies: frequencies(selections, question.choices, selections.length) };
+    // Single-answer items with numeric codes (Likert, NPS) also get a mean/median
+    if (!question.multipleAnswer) {
+      const stats = numericStats(selections.map(selected => selected[0]));
+      if (stats) summary.stats = stats;
+    }
+    return summary;
+  }
+
+  if (ITEM_TYPES.has(question.type) && question.choices.length > 0) {
+    return {
+      ...base,
+      items: question.choices.map(choice => {
+        const key = `${question.questionId}_${choice.id}`;
+        return summarizeItem(key, choice.label, responses.map(response => response.values[key]), question.answers);
+      }),
+    };
+  }
+
+  if (question.type === "TE") {
+    const key = responses.some(response => `${question.questionId}_TEXT` in response.values)
+      ? `${question.questionId}_TEXT`
+      : question.questionId;
+    const answers = responses.map(response => response.values[key]).filter(isAnswered);
+    const stats = numericStats(answers);
+    return stats ? { ...base, stats } : base;
+  }
+
+  const stats = numericStats(responses.map(response => response.values[question.questionId]).filter(isAnswered));
+  return stats ? { ...base, stats } : base;
+}
+
+/** Blocks under a Branch or BlockRandomizer, which only some respondents are shown. */
+function conditionalBlockIds(definition: SurveyDefinition): Set<string> {
+  const conditional = new Set<string>();
+  const walk = (elements: any[] | undefined, inside: boolean) => {
+    for (const element of elements || []) {
+      if (inside && element.ID) conditional.add(element.ID);
+      walk(element.Flow, inside || element.Type === "Branch" || element.Type === "BlockRandomizer");
+    }
+  };
+  walk(definition.SurveyFlow?.Flow, false);
+  return conditional;
+}
+
+/** QIDs in a response's displayedFields (QID3, QID4_1, QID5_TEXT, ...). */
+function displayedQuestionIds(response: SurveyResponse): Set<string> {
+  const displayed = new Set<string>();
+  for (const field of response.displayedFields || []) {
+    const match = /^(QID\d+)(?:_|$)/.exec(field);
+    if (match) displayed.add(match[1]);
+  }
+  return displayed;
+}
+
+/**
+ * A block counts as reached when the respondent was shown or answered one of
+ * its questions. Blocks every respondent gets also count as reached when a
+ * later block was, since their questions may all have been optional; blocks in
+ * branches and randomizers do not.
+ */
+export function summarizeBlocks(definition: SurveyDefinition, responses: SurveyResponse[]): BlockSummary[] {
+  const blocks = surveyBlocks(definition).filter(block => block.questionIds.length > 0);
+  const conditional = conditionalBlockIds(definition);
+  const reached = blocks.map(() => 0);
+  const droppedOut = blocks.map(() => 0);
+
+  for (const response of responses) {
+    const displayed = displayedQuestionIds(response);
+    const shown = blocks.map(block => block.questionIds.some(questionId =>
+      displayed.has(questionId) || answeredQuestion(response.values, questionId)
+    ));
+    const lastReached = shown.lastIndexOf(true);
+    blocks.forEach((block, index) => {
+      if (shown[index] || (index < lastReached && !conditional.has(block.blockId))) reached[index]++;
+    });
+    if (lastReached >= 0 && !isFinished(response.values)) droppedOut[lastReached]++;
+  }
+
+  return blocks.map((block, index) => ({
+    blockId: block.blockId,
+    description: block.description,
+    reached: reached[index],
+    reachedRate: percent(reached[index], responses.length),
+    droppedOut: droppedOut[index],
+  }));
+}
+
+export function summarizeResponses(
+  definition: SurveyDefinition,
+  responses: SurveyResponse[],
+  questionIds?: string[]
+): SurveySummary {
+  const durations = responses
+    .map(response => toNumber(response.values.duration))
+    .filter((value): value is number => value !== null);
+  const finished = responses.filter(response => isFinished(response.values)).length;
+  const questions = surveyQuestions(definition)
+    .filter(question => question.type !== "DB" && question.type !== "Timing" && question.type !== "Meta")
+    .filter(question => !questionIds || questionIds.includes(question.questionId) || questionIds.includes(question.exportTag));
+
+  return {
+    surveyId: definition.SurveyID,
+    surveyName: definition.SurveyName,
+    responses: {
+      total: responses.length,
+      finished,
+      completionRate: percent(finished, responses.length),
+      medianDurationSeconds: round(median(durations), 0),
+    },
+    blocks: summarizeBlocks(definition, responses),
+    questions: questions.map(question => summarizeQuestion(question, responses)),
+  };
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+function statsLine(stats: NumericSummary): string {
+  return `n = ${stats.n}, mean = ${stats.mean}, median = ${stats.median}, SD = ${stats.sd ?? "n/a"}, range ${stats.min}–${stats.max}`;
+}
+
+function frequencyTable(rows: FrequencyRow[]): string[] {
+  return [
+    "| Value | Label | Count | % |",
+    "|-------|-------|-------|---|",
+    ...rows.map(row => `| ${escapeCell(row.value)} | ${escapeCell(row.label)} | ${row.count} | ${row.percent} |`),
+  ];
+}
+
+export function renderSummaryMarkdown(summary: SurveySummary): string {
+  const lines: string[] = [
+    `# Response summary: ${summary.surveyName}`,
+    "",
+    `Survey ID: ${summary.surveyId}`,
+    "",
+    "## Overview",
+    "",
+    `- Responses: ${summary.responses.total}`,
+    `- Finished: ${summary.responses.finished} (${summary.responses.completionRate}%)`,
+    `- Median duration: ${summary.responses.medianDurationSeconds ?? "n/a"} seconds`,
+    "",
+    "## Blocks",
+    "",
+    "| Block | Reached | % | Dropped out here |",
+    "|-------|---------|---|------------------|",
+    ...summary.blocks.map(block => `| ${escapeCell(block.description || block.blockId)} | ${block.reached} | ${block.reachedRate} | ${block.droppedOut} |`),
+    "",
+    "## Questions",
+  ];
+
+  for (const question of summary.questions) {
+    lines.push("", `### ${question.exportTag} (${question.questionId}, ${question.type})`, "", escapeCell(question.text), "", `Answered: ${question.answered}`);
+    if (question.stats) lines.push("", statsLine(question.stats));
+    if (question.frequencies) lines.push("", ...frequencyTable(question.frequencies));
+    for (const item of question.items || []) {
+      lines.push("", `**${escapeCell(item.label)}** (${item.key}, answered ${item.answered})`);
+      if (item.stats) lines.push("", statsLine(item.stats));
+      if (item.frequencies) lines.push("", ...frequencyTable(item.frequencies));
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,304 @@
+/** Converts an exported value to a number, or null for blanks and non-numeric text. */
+export function toNumber(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (typeof value !== "string" || value.trim() === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+export function mean(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/** Linear-interpolated quantile, `q` in [0, 1]. */
+export function quantile(values: number[], q: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+export function median(values: number[]): number | null {
+  return quantile(values, 0.5);
+}
+
+/** Sample variance (n - 1 denominator). */
+export function variance(values: number[]): number | null {
+  const m = mean(values);
+  if (m === null || values.length < 2) return null;
+  return values.reduce((sum, value) => sum + (value - m) ** 2, 0) / (values.length - 1);
+}
+
+export function standardDeviation(values: number[]): number | null {
+  const v = variance(values);
+  return v === null ? null : Math.sqrt(v);
+}
+
+/** Rounds for compact output, passing nulls through. */
+export function round(value: number | null, digits = 2): number | null {
+  if (value === null || !Number.isFinite(value)) return null;
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+export interface NumericSummary {
+  n: number;
+  mean: number | null;
+  median: number | null;
+  sd: number | null;
+  min: number | null;
+  max: number | null;
+}
+
+export function summarizeNumbers(values: number[]): NumericSummary {
+  return {
+    n: values.length,
+    mean: round(mean(values)),
+    median: round(median(values)),
+    sd: round(standardDeviation(values)),
+    min: values.length > 0 ? values.reduce((a, b) => Math.min(a, b)) : null,
+    max: values.length > 0 ? values.reduce((a, b) => Math.max(a, b)) : null,
+  };
+}
+
+// --- Distribution functions (Numerical Recipes style) ---
+
+function logGamma(x: number): number {
+  const coefficients = [
+    76.18009172947146, -86.50532032941677, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5,
+  ];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let series = 1.000000000190015;
+  for (const c of coefficients) series += c / ++y;
+  return -tmp + Math.log((2.5066282746310005 * series) / x);
+}
+
+function betaContinuedFraction(a: number, b: number, x: number): number {
+  const maxIterations = 200;
+  const epsilon = 3e-14;
+  const tiny = 1e-300;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+
+  for (let m = 1; m <= maxIterations; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    h *= d * c;
+
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < epsilon) break;
+  }
+  return h;
+}
+
+/** Regularized incomplete beta function I_x(a, b). */
+function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(a, b, x)) / a
+    : 1 - (front * betaContinuedFraction(b, a, 1 - x)) / b;
+}
+
+/** Regularized upper incomplete gamma function Q(a, x). */
+function upperIncompleteGamma(a: number, x: number): number {
+  if (x <= 0) return 1;
+  const gln = logGamma(a);
+
+  if (x < a + 1) {
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < 500; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * 3e-14) break;
+    }
+    return 1 - sum * Math.exp(-x + a * Math.log(x) - gln);
+  }
+
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < 500; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 3e-14) break;
+  }
+  return Math.exp(-x + a * Math.log(x) - gln) * h;
+}
+
+/** Two-sided p-value for a t statistic. */
+export function studentTPValue(t: number, df: number): number {
+  return incompleteBeta(df / (df + t * t), df / 2, 0.5);
+}
+
+/** Upper-tail p-value for an F statistic. */
+export function fPValue(f: number, df1: number, df2: number): number {
+  if (f <= 0) return 1;
+  return incompleteBeta(df2 / (df2 + df1 * f), df2 / 2, df1 / 2);
+}
+
+/** Upper-tail p-value for a chi-square statistic. */
+export function chiSquarePValue(statistic: number, df: number): number {
+  return upperIncompleteGamma(df / 2, statistic / 2);
+}
+
+// --- Hypothesis tests ---
+
+/** Four decimals, but very small p-values keep two significant digits instead of rounding to 0. */
+function roundPValue(p: number): number {
+  return p < 0.0001 ? Number(p.toPrecision(2)) : round(p, 4)!;
+}
+
+export interface ChiSquareResult {
+  test: "chi-square";
+  statistic: number;
+  df: number;
+  pValue: number;
+  cramersV: number;
+  /** Share of cells with an expected count below 5, where the approximation is unreliable */
+  lowExpectedShare: number;
+}
+
+/** Pearson chi-square test of independence on a rows × columns table of counts. */
+export function chiSquareTest(table: number[][]): ChiSquareResult | null {
+  // Empty rows or columns carry no information and break the expected counts
+  const rows = table.filter(row => row.some(count => count > 0));
+  const columnCount = rows[0]?.length ?? 0;
+  const keep = Array.from({ length: columnCount }, (_, column) => rows.some(row => row[column] > 0));
+  const trimmed = rows.map(row => row.filter((_, column) => keep[column]));
+  const r = trimmed.length;
+  const k = trimmed[0]?.length ?? 0;
+  if (r < 2 || k < 2) return null;
+
+  const rowTotals = trimmed.map(row => row.reduce((a, b) => a + b, 0));
+  const columnTotals = trimmed[0].map((_, column) => trimmed.reduce((sum, row) => sum + row[column], 0));
+  const total = rowTotals.reduce((a, b) => a + b, 0);
+
+  let statistic = 0;
+  let lowExpected = 0;
+  trimmed.forEach((row, i) => row.forEach((observed, j) => {
+    const expected = (rowTotals[i] * columnTotals[j]) / total;
+    if (expected < 5) lowExpected++;
+    statistic += (observed - expected) ** 2 / expected;
+  }));
+
+  const df = (r - 1) * (k - 1);
+  return {
+    test: "chi-square",
+    statistic: round(statistic, 3)!,
+    df,
+    pValue: roundPValue(chiSquarePValue(statistic, df)),
+    cramersV: round(Math.sqrt(statistic / (total * Math.min(r - 1, k - 1))), 3)!,
+    lowExpectedShare: round(lowExpected / (r * k), 2)!,
+  };
+}
+
+/** Chi-square goodness-of-fit against equal expected counts, e.g. for random assignment. */
+export function equalAllocationTest(counts: number[]): { statistic: number; df: number; pValue: number } | null {
+  if (counts.length < 2) return null;
+  const total = counts.reduce((a, b) => a + b, 0);
+  if (total === 0) return null;
+  const expected = total / counts.length;
+  const statistic = counts.reduce((sum, observed) => sum + (observed - expected) ** 2 / expected, 0);
+  const df = counts.length - 1;
+  return { statistic: round(statistic, 3)!, df, pValue: roundPValue(chiSquarePValue(statistic, df)) };
+}
+
+export interface WelchTResult {
+  test: "welch-t";
+  statistic: number;
+  df: number;
+  pValue: number;
+  meanDifference: number;
+  cohensD: number | null;
+}
+
+/** Welch's unequal-variance t-test between two samples. */
+export function welchTTest(a: number[], b: number[]): WelchTResult | null {
+  const va = variance(a);
+  const vb = variance(b);
+  if (va === null || vb === null) return null;
+  const ma = mean(a)!;
+  const mb = mean(b)!;
+  const se2 = va / a.length + vb / b.length;
+  if (se2 === 0) return null;
+
+  const t = (ma - mb) / Math.sqrt(se2);
+  const df = se2 ** 2 / ((va / a.length) ** 2 / (a.length - 1) + (vb / b.length) ** 2 / (b.length - 1));
+  const pooledSd = Math.sqrt(((a.length - 1) * va + (b.length - 1) * vb) / (a.length + b.length - 2));
+  return {
+    test: "welch-t",
+    statistic: round(t, 3)!,
+    df: round(df, 2)!,
+    pValue: roundPValue(studentTPValue(t, df)),
+    meanDifference: round(ma - mb, 3)!,
+    cohensD: pooledSd > 0 ? round((ma - mb) / pooledSd, 3) : null,
+  };
+}
+
+export interface WelchAnovaResult {
+  test: "welch-anova";
+  statistic: number;
+  df1: number;
+  df2: number;
+  pValue: number;
+}
+
+/** Welch's one-way ANOVA, which does not assume equal group variances. */
+export function welchAnova(groups: number[][]): WelchAnovaResult | null {
+  const usable = groups.filter(group => group.length >= 2);
+  const k = usable.length;
+  if (k < 2) return null;
+
+  const stats = usable.map(group => ({ n: group.length, mean: mean(group)!, variance: variance(group)! }));
+  if (stats.some(group => group.variance === 0)) return null;
+
+  const weights = stats.map(group => group.n / group.variance);
+  const totalWeight = weights.reduce((a, b) => a + b, 0);
+  const weightedMean = stats.reduce((sum, group, i) => sum + weights[i] * group.mean, 0) / totalWeight;
+  const between = stats.reduce((sum, group, i) => sum + weights[i] * (group.mean - weightedMean) ** 2, 0) / (k - 1);
+  const lambda = stats.reduce((sum, group, i) => sum + (1 - weights[i] / totalWeight) ** 2 / (group.n - 1), 0);
+
+  const f = between / (1 + (2 * (k - 2) * lambda) / (k * k - 1));
+  const df1 = k - 1;
+  const df2 = (k * k - 1) / (3 * lambda);
+  return {
+    test: "welch-anova",
+    statistic: round(f, 3)!,
+    df1,
+    df2: round(df2, 2)!,
+    pValue: roundPValue(fPValue(f, df1, df2)),
+  };
+}
@@ -0,0 +1,189 @@
+import type { SurveyDefinition, SurveyQuestion } from "../types/index.js";
+
+export interface ChoiceInfo {
+  id: string;
+  /** Value written to exports: the RecodeValues entry, or the choice ID */
+  recode: string;
+  label: string;
+  /** The choice has a text entry box ("Other, please specify") */
+  textEntry: boolean;
+}
+
+export interface QuestionInfo {
+  questionId: string;
+  exportTag: string;
+  text: string;
+  type: string;
+  selector: string;
+  subSelector?: string;
+  blockId?: string;
+  /** Choices, or the statements (rows) of a matrix */
+  choices: ChoiceInfo[];
+  /** Scale points (columns) of a matrix */
+  answers: ChoiceInfo[];
+  multipleAnswer: boolean;
+}
+
+export interface BlockInfo {
+  blockId: string;
+  description: string;
+  questionIds: string[];
+}
+
+const MULTIPLE_ANSWER_SELECTORS = new Set(["MAVR", "MAHR", "MACOL", "MSB"]);
+
+export function stripHtml(text: string | undefined): string {
+  return (text || "")
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** JSON with object keys sorted, so key order does not affect comparisons. */
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, item) => (item && typeof item === "object" && !Array.isArray(item)
+    ? Object.fromEntries(Object.keys(item).sort().map(key => [key, item[key]]))
+    : item));
+}
+
+function orderedChoices(
+  choices: Record<string, { Display: string; TextEntry?: string | boolean }> | undefined,
+  order: Array<string | number> | undefined,
+  recodes: Record<string, string | number> | undefined
+): ChoiceInfo[] {
+  if (!choices) return [];
+  const ids = (order && order.length > 0 ? order.map(String) : Object.keys(choices))
+    .filter(id => choices[id] !== undefined);
+  return ids.map(id => ({
+    id,
+    recode: String(recodes?.[id] ?? id),
+    label: stripHtml(choices[id].Display),
+    textEntry: choices[id].TextEntry === true || choices[id].TextEntry === "true",
+  }));
+}
+
+/** Block IDs in the order the survey flow presents them, followed by any blocks not in the flow. */
+function flowBlockOrder(definition: SurveyDefinition): string[] {
+  const order: string[] = [];
+  function walk(elements: any[] | undefined) {
+    for (const element of elements || []) {
+      if ((element.Type === "Block" || element.Type === "Standard") && element.ID && !order.includes(element.ID)) {
+        order.push(element.ID);
+      }
+      if (element.Flow) walk(element.Flow);
+    }
+  }
+  walk(definition.SurveyFlow?.Flow);
+  for (const [blockId, block] of Object.entries(definition.Blocks || {})) {
+    if (block.Type !== "Trash" && !order.includes(blockId)) order.push(blockId);
+  }
+  return order;
+}
+
+export function surveyBlocks(definition: SurveyDefinition): BlockInfo[] {
+  const blocks = definition.Blocks || {};
+  return flowBlockOrder(definition)
+    .filter(blockId => blocks[blockId] && blocks[blockId].Type !== "Trash")
+    .map(blockId => ({
+      blockId,
+      description: blocks[blockId].Description,
+      questionIds: (blocks[blockId].BlockElements || [])
+        .filter(element => element.Type === "Question" && element.QuestionID)
+        .map(element => element.QuestionID!),
+    }));
+}
+
+export function describeQuestion(questionId: string, question: SurveyQuestion & Record<string, any>, blockId?: string): QuestionInfo {
+  const isMatrix = question.QuestionType === "Matrix";
+  return {
+    questionId,
+    exportTag: question.DataExportTag || questionId,
+    text: stripHtml(question.QuestionText),
+    type: question.QuestionType,
+    selector: question.Selector,
+    subSelector: question.SubSelector,
+    blockId,
+    choices: orderedChoices(question.Choices, question.ChoiceOrder, isMatrix ? undefined : question.RecodeValues),
+    answers: isMatrix ? orderedChoices(question.Answers, question.AnswerOrder, question.RecodeValues) : [],
+    multipleAnswer: MULTIPLE_ANSWER_SELECTORS.has(question.Selector) || MULTIPLE_ANSWER_SELECTORS.has(question.SubSelector || ""),
+  };
+}
+
+/** Every question in presentation order (by block, then position in block); unplaced questions come last. */
+export function surveyQuestions(definition: SurveyDefinition): QuestionInfo[] {
+  const questions = definition.Questions || {};
+  const seen = new Set<string>();
+  const result: QuestionInfo[] = [];
+
+  for (const block of surveyBlocks(definition)) {
+    for (const questionId of block.questionIds) {
+      if (questions[questionId] && !seen.has(questionId)) {
+        seen.add(questionId);
+        result.push(describeQuestion(questionId, questions[questionId], block.blockId));
+      }
+    }
+  }
+  for (const [questionId, question] of Object.entries(questions)) {
+    if (!seen.has(questionId)) result.push(describeQuestion(questionId, question));
+  }
+  return result;
+}
+
+export interface EmbeddedDataField {
+  field: string;
+  value: string;
+  type: string;
+}
+
+/** Fields Qualtrics fills in itself, which can be piped without declaring them in the flow. */
+export const BUILT_IN_EMBEDDED_FIELDS = new Set([
+  "ResponseID", "SID", "SurveyID", "StartDate", "EndDate", "RecordedDate", "Q_URL", "Q_Language", "Q_TotalDuration",
+  "Q_RecaptchaScore", "Q_RelevantIDDuplicate", "Q_RelevantIDFraudScore", "Q_BallotBoxStuffing",
+  "RecipientEmail", "RecipientFirstName", "RecipientLastName", "ExternalDataReference", "DistributionChannel", "UserLanguage",
+]);
+
+/** Embedded data fields declared anywhere in the survey flow, without duplicates. */
+export function flowEmbeddedData(definition: SurveyDefinition): EmbeddedDataField[] {
+  const fields: EmbeddedDataField[] = [];
+  function walk(elements: any[] | undefined) {
+    for (const element of elements || []) {
+      if (element.Type === "EmbeddedData" && element.EmbeddedData) {
+        for (const field of element.EmbeddedData) {
+          if (!fields.some(existing => existing.field === field.Field)) {
+            fields.push({ field: field.Field, value: field.Value || "", type: field.Type || "Custom" });
+          }
+        }
+      }
+      if (element.Flow) walk(element.Flow);
+    }
+  }
+  walk(definition.SurveyFlow?.Flow);
+  return fields;
+}
+
+/**
+ * Renders a DisplayLogic/SkipLogic-style condition object as readable text using
+ * the Description Qualtrics stores on each condition.
+ */
+export function describeLogic(logic: any): string | null {
+  if (!logic || typeof logic !== "object") return null;
+  const groups: string[] = [];
+  for (const [groupKey, group] of Object.entries<any>(logic)) {
+    if (!/^\d+$/.test(groupKey) || typeof group !== "object") continue;
+    let text = "";
+    for (const [conditionKey, condition] of Object.entries<any>(group)) {
+      if (!/^\d+$/.test(conditionKey) || typeof condition !== "object") continue;
+      const description = stripHtml(condition.Description) || [condition.LeftOperand, condition.Operator, condition.RightOperand].filter(Boolean).join(" ");
+      // Qualtrics spells the joining keyword "Conjuction"
+      text += text ? ` ${(condition.Conjuction || "and").toLowerCase()} ${description}` : description;
+    }
+    if (text) groups.push(groups.length > 0 ? `${(group.Conjuction || "or").toLowerCase()} (${text})` : `(${text})`);
+  }
+  return groups.length > 0 ? groups.join(" ") : null;
+}
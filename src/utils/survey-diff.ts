@@ -0,0 +1,428 @@
+import type { PortableSurvey } from "./qsf.js";
+import { remapIds } from "./qsf.js";
+import { canonicalJson, describeLogic, stripHtml } from "./survey-definition.js";
+import { describeFlowElement } from "./flow-tree.js";
+
+/**
+ * Structural comparison of two survey definitions: questions, blocks and the
+ * flow tree. Questions are matched by QID when both sides are the same survey,
+ * and by DataExportTag otherwise, since copies of a survey get new QIDs.
+ */
+
+export type MatchBy = "id" | "exportTag";
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+  /** Readable breakdown, e.g. "added 3: Maybe" or "force response turned on" */
+  details?: string[];
+}
+
+export interface QuestionRef {
+  questionId: string;
+  exportTag: string;
+  text: string;
+  block: string | null;
+}
+
+export interface ModifiedQuestion {
+  questionId: string;
+  /** The question's ID in the "before" survey, when it differs */
+  beforeQuestionId?: string;
+  exportTag: string;
+  changes: FieldChange[];
+}
+
+export interface MovedQuestion {
+  questionId: string;
+  exportTag: string;
+  fromBlock: string;
+  toBlock: string;
+}
+
+export interface BlockRef {
+  blockId: string;
+  description: string;
+}
+
+export interface ModifiedBlock extends BlockRef {
+  changes: FieldChange[];
+}
+
+export interface FlowChange {
+  change: "added" | "removed";
+  /** Nesting level in the flow tree (0 = top level) */
+  depth: number;
+  element: string;
+}
+
+type FlowLine = Omit<FlowChange, "change">;
+
+export interface SurveyDiff {
+  before: { surveyId: string; name: string };
+  after: { surveyId: string; name: string };
+  matchedBy: MatchBy;
+  identical: boolean;
+  surveyName: FieldChange | null;
+  questions: {
+    added: QuestionRef[];
+    removed: QuestionRef[];
+    modified: ModifiedQuestion[];
+    moved: MovedQuestion[];
+  };
+  blocks: {
+    added: BlockRef[];
+    removed: BlockRef[];
+    modified: ModifiedBlock[];
+  };
+  flow: {
+    changed: boolean;
+    /** Changed flow elements in tree order, like the -/+ lines of a text diff */
+    changes: FlowChange[];
+  };
+}
+
+interface Side {
+  survey: PortableSurvey;
+  /** Non-trash blocks by ID */
+  blocks: Map<string, PortableSurvey["blocks"][number]>;
+  /** Block ID of every question placed in a non-trash block */
+  placement: Map<string, string>;
+}
+
+function side(survey: PortableSurvey): Side {
+  const blocks = new Map(survey.blocks.filter(block => block.Type !== "Trash").map(block => [block.ID, block]));
+  const placement = new Map<string, string>();
+  for (const block of blocks.values()) {
+    for (const element of block.BlockElements || []) {
+      if (element.Type === "Question" && element.QuestionID && survey.questions[element.QuestionID] && !placement.has(element.QuestionID)) {
+        placement.set(element.QuestionID, block.ID);
+      }
+    }
+  }
+  return { survey, blocks, placement };
+}
+
+function exportTag(survey: PortableSurvey, questionId: string): string {
+  return survey.questions[questionId]?.DataExportTag || questionId;
+}
+
+function questionRef(current: Side, questionId: string): QuestionRef {
+  const blockId = current.placement.get(questionId);
+  return {
+    questionId,
+    exportTag: exportTag(current.survey, questionId),
+    text: stripHtml(current.survey.questions[questionId].QuestionText).slice(0, 120),
+    block: blockId ? current.blocks.get(blockId)?.Description ?? blockId : null,
+  };
+}
+
+function orderedLabels(choices: Record<string, any> | undefined, order: Array<string | number> | undefined): Array<[string, string]> {
+  if (!choices) return [];
+  const ids = order && order.length > 0 ? order.map(String) : Object.keys(choices);
+  return ids.filter(id => choices[id] !== undefined).map(id => [id, stripHtml(choices[id].Display)]);
+}
+
+/** Choice (or matrix scale) differences by choice ID: additions, removals, relabels and reordering. */
+function choiceChange(field: string, before: Array<[string, string]>, after: Array<[string, string]>): FieldChange | null {
+  if (canonicalJson(before) === canonicalJson(after)) return null;
+  const beforeLabels = new Map(before);
+  const afterLabels = new Map(after);
+  const details: string[] = [];
+  for (const [id, label] of after) {
+    if (!beforeLabels.has(id)) details.push(`added ${id}: ${label}`);
+    else if (beforeLabels.get(id) !== label) details.push(`relabeled ${id}: ${beforeLabels.get(id)} → ${label}`);
+  }
+  for (const [id, label] of before) {
+    if (!afterLabels.has(id)) details.push(`removed ${id}: ${label}`);
+  }
+  const common = (list: Array<[string, string]>, other: Map<string, string>) => list.map(([id]) => id).filter(id => other.has(id)).join(",");
+  if (common(before, afterLabels) !== common(after, beforeLabels)) details.push("reordered");
+  return {
+    field,
+    before: before.map(([id, label]) => `${id}: ${label}`),
+    after: after.map(([id, label]) => `${id}: ${label}`),
+    details,
+  };
+}
+
+function validationDetails(before: any, after: any): string[] {
+  const details: string[] = [];
+  const force = (validation: any) => validation?.Settings?.ForceResponse === "ON";
+  const request = (validation: any) => validation?.Settings?.ForceResponse === "RequestResponse";
+  const type = (validation: any) => validation?.Settings?.Type || "None";
+  if (force(before) !== force(after)) details.push(`force response turned ${force(after) ? "on" : "off"}`);
+  if (request(before) !== request(after)) details.push(`request response turned ${request(after) ? "on" : "off"}`);
+  if (type(before) !== type(after)) details.push(`validation type ${type(before)} → ${type(after)}`);
+  return details.length > 0 ? details : ["validation settings changed"];
+}
+
+function lineCount(text: string): number {
+  return text === "" ? 0 : text.split("\n").length;
+}
+
+function questionChanges(before: Record<string, any>, after: Record<string, any>, matchedBy: MatchBy): FieldChange[] {
+  const changes: FieldChange[] = [];
+  if (matchedBy === "id" && (before.DataExportTag || "") !== (after.DataExportTag || "")) {
+    changes.push({ field: "exportTag", before: before.DataExportTag ?? null, after: after.DataExportTag ?? null });
+  }
+  if (before.QuestionText !== after.QuestionText) {
+    const textBefore = stripHtml(before.QuestionText);
+    const textAfter = stripHtml(after.QuestionText);
+    changes.push(textBefore === textAfter
+      ? { field: "text", before: before.QuestionText, after: after.QuestionText, details: ["formatting only"] }
+      : { field: "text", before: textBefore, after: textAfter });
+  }
+
+  const type = (question: Record<string, any>) => [question.QuestionType, question.Selector, question.SubSelector].filter(Boolean).join("/");
+  if (type(before) !== type(after)) changes.push({ field: "type", before: type(before), after: type(after) });
+
+  const isMatrix = after.QuestionType === "Matrix" || before.QuestionType === "Matrix";
+  const choices = choiceChange(isMatrix ? "statements" : "choices", orderedLabels(before.Choices, before.ChoiceOrder), orderedLabels(after.Choices, after.ChoiceOrder));
+  if (choices) changes.push(choices);
+  const answers = choiceChange("scale", orderedLabels(before.Answers, before.AnswerOrder), orderedLabels(after.Answers, after.AnswerOrder));
+  if (answers) changes.push(answers);
+  if (canonicalJson(before.RecodeValues ?? null) !== canonicalJson(after.RecodeValues ?? null)) {
+    changes.push({ field: "recodeValues", before: before.RecodeValues ?? null, after: after.RecodeValues ?? null });
+  }
+
+  if (canonicalJson(before.Validation ?? null) !== canonicalJson(after.Validation ?? null)) {
+    changes.push({ field: "validation", before: before.Validation ?? null, after: after.Validation ?? null, details: validationDetails(before.Validation, after.Validation) });
+  }
+
+  const jsBefore = typeof before.QuestionJS === "string" ? before.QuestionJS : "";
+  const jsAfter = typeof after.QuestionJS === "string" ? after.QuestionJS : "";
+  if (jsBefore !== jsAfter) {
+    changes.push({
+      field: "javascript",
+      before: jsBefore || null,
+      after: jsAfter || null,
+      details: [!jsBefore ? `added (${lineCount(jsAfter)} lines)` : !jsAfter ? `removed (${lineCount(jsBefore)} lines)` : `changed (${lineCount(jsBefore)} → ${lineCount(jsAfter)} lines)`],
+    });
+  }
+
+  for (const [field, key] of [["displayLogic", "DisplayLogic"], ["skipLogic", "SkipLogic"]] as const) {
+    if (canonicalJson(before[key] ?? null) !== canonicalJson(after[key] ?? null)) {
+      changes.push({
+        field,
+        before: describeLogic(before[key]) ?? (before[key] ? "(set)" : null),
+        after: describeLogic(after[key]) ?? (after[key] ? "(set)" : null),
+      });
+    }
+  }
+  return changes;
+}
+
+function blockElements(current: Side, blockId: string, label: (questionId: string) => string): string[] {
+  return (current.blocks.get(blockId)?.BlockElements || []).map(element => {
+    if (element.Type !== "Question") return `(${element.Type.toLowerCase()})`;
+    return current.survey.questions[element.QuestionID || ""] ? label(element.QuestionID!) : element.QuestionID || "";
+  });
+}
+
+/** One line per flow element, indented by depth, describing what it does. */
+function flowOutline(elements: any[] | undefined, blocks: Map<string, { Description: string }>, depth = 0): FlowLine[] {
+  const lines: FlowLine[] = [];
+  for (const element of elements || []) {
+    lines.push({ depth, element: describeFlowElement(element, blocks) });
+    if (element.Flow) lines.push(...flowOutline(element.Flow, blocks, depth + 1));
+  }
+  return lines;
+}
+
+/** Removed and added lines of a longest-common-subsequence diff, in order. */
+function diffLines(before: FlowLine[], after: FlowLine[]): FlowChange[] {
+  const key = (line: FlowLine) => `${line.depth}|${line.element}`;
+  const lengths: number[][] = Array.from({ length: before.length + 1 }, () => new Array(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = key(before[i]) === key(after[j]) ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  const changes: FlowChange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && key(before[i]) === key(after[j])) {
+      i++;
+      j++;
+    } else if (j < after.length && (i === before.length || lengths[i][j + 1] > lengths[i + 1][j])) {
+      changes.push({ ...after[j++], change: "added" });
+    } else {
+      changes.push({ ...before[i++], change: "removed" });
+    }
+  }
+  return changes;
+}
+
+export function diffSurveys(beforeSurvey: PortableSurvey, afterSurvey: PortableSurvey, matchBy?: MatchBy): SurveyDiff {
+  const matchedBy: MatchBy = matchBy ?? (beforeSurvey.surveyId && beforeSurvey.surveyId === afterSurvey.surveyId ? "id" : "exportTag");
+  const before = side(beforeSurvey);
+  const after = side(afterSurvey);
+
+  // Blocks: by ID within one survey, by description across surveys
+  const blockMatch = new Map<string, string>();
+  for (const [blockId, block] of before.blocks) {
+    const match = matchedBy === "id"
+      ? (after.blocks.has(blockId) ? blockId : undefined)
+      : [...after.blocks.values()].find(candidate => candidate.Description === block.Description && ![...blockMatch.values()].includes(candidate.ID))?.ID;
+    if (match) blockMatch.set(blockId, match);
+  }
+
+  // Questions: by QID or DataExportTag
+  const questionMatch = new Map<string, string>();
+  const afterByKey = new Map<string, string>();
+  for (const questionId of after.placement.keys()) {
+    const key = matchedBy === "id" ? questionId : exportTag(afterSurvey, questionId);
+    if (!afterByKey.has(key)) afterByKey.set(key, questionId);
+  }
+  for (const questionId of before.placement.keys()) {
+    const match = afterByKey.get(matchedBy === "id" ? questionId : exportTag(beforeSurvey, questionId));
+    if (match && ![...questionMatch.values()].includes(match)) questionMatch.set(questionId, match);
+  }
+  // Before-side content is rewritten to after-side IDs so references compare equal across surveys
+  const idMap = new Map([...questionMatch, ...blockMatch]);
+  const matchedAfter = new Set(questionMatch.values());
+
+  const modified: ModifiedQuestion[] = [];
+  const moved: MovedQuestion[] = [];
+  for (const [beforeId, afterId] of questionMatch) {
+    const { QuestionID: _before, ...beforeContent } = remapIds(beforeSurvey.questions[beforeId], idMap);
+    const { QuestionID: _after, ...afterContent } = afterSurvey.questions[afterId];
+    const changes = questionChanges(beforeContent, afterContent, matchedBy);
+    if (changes.length > 0) {
+      modified.push({ questionId: afterId, ...(beforeId !== afterId ? { beforeQuestionId: beforeId } : {}), exportTag: exportTag(afterSurvey, afterId), changes });
+    }
+    const fromBlock = before.placement.get(beforeId)!;
+    const toBlock = after.placement.get(afterId)!;
+    if (blockMatch.get(fromBlock) !== toBlock) {
+      moved.push({
+        questionId: afterId,
+        exportTag: exportTag(afterSurvey, afterId),
+        fromBlock: before.blocks.get(fromBlock)?.Description ?? fromBlock,
+        toBlock: after.blocks.get(toBlock)?.Description ?? toBlock,
+      });
+    }
+  }
+
+  const matchedAfterBlocks = new Set(blockMatch.values());
+  const modifiedBlocks: ModifiedBlock[] = [];
+  for (const [beforeId, afterId] of blockMatch) {
+    const changes: FieldChange[] = [];
+    const beforeBlock = before.blocks.get(beforeId)!;
+    const afterBlock = after.blocks.get(afterId)!;
+    if (beforeBlock.Description !== afterBlock.Description) {
+      changes.push({ field: "description", before: beforeBlock.Description, after: afterBlock.Description });
+    }
+    // Matched questions are labeled by their after-side tag, so a renamed tag is not reported twice
+    const elementsBefore = blockElements(before, beforeId, questionId => {
+      const afterId = questionMatch.get(questionId);
+      return afterId ? exportTag(afterSurvey, afterId) : exportTag(beforeSurvey, questionId);
+    });
+    const elementsAfter = blockElements(after, afterId, questionId => exportTag(afterSurvey, questionId));
+    if (canonicalJson(elementsBefore) !== canonicalJson(elementsAfter)) {
+      changes.push({ field: "elements", before: elementsBefore, after: elementsAfter });
+    }
+    if (canonicalJson(remapIds(beforeBlock.Options ?? null, idMap)) !== canonicalJson(afterBlock.Options ?? null)) {
+      changes.push({ field: "options", before: beforeBlock.Options ?? null, after: afterBlock.Options ?? null });
+    }
+    if (changes.length > 0) modifiedBlocks.push({ blockId: afterId, description: afterBlock.Description, changes });
+  }
+
+  const flowChanges = diffLines(flowOutline(beforeSurvey.flow?.Flow, before.blocks), flowOutline(afterSurvey.flow?.Flow, after.blocks));
+  const surveyName = beforeSurvey.name !== afterSurvey.name ? { field: "name", before: beforeSurvey.name, after: afterSurvey.name } : null;
+
+  const diff: SurveyDiff = {
+    before: { surveyId: beforeSurvey.surveyId, name: beforeSurvey.name },
+    after: { surveyId: afterSurvey.surveyId, name: afterSurvey.name },
+    matchedBy,
+    identical: false,
+    surveyName,
+    questions: {
+      added: [...after.placement.keys()].filter(questionId => !matchedAfter.has(questionId)).map(questionId => questionRef(after, questionId)),
+      removed: [...before.placement.keys()].filter(questionId => !questionMatch.has(questionId)).map(questionId => questionRef(before, questionId)),
+      modified,
+      moved,
+    },
+    blocks: {
+      added: [...after.blocks.values()].filter(block => !matchedAfterBlocks.has(block.ID)).map(block => ({ blockId: block.ID, description: block.Description })),
+      removed: [...before.blocks.values()].filter(block => !blockMatch.has(block.ID)).map(block => ({ blockId: block.ID, description: block.Description })),
+      modified: modifiedBlocks,
+    },
+    flow: { changed: flowChanges.length > 0, changes: flowChanges },
+  };
+  diff.identical = !surveyName && !diff.flow.changed
+    && [diff.questions.added, diff.questions.removed, diff.questions.modified, diff.questions.moved, diff.blocks.added, diff.blocks.removed, diff.blocks.modified]
+      .every(list => list.length === 0);
+  return diff;
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "(none)";
+  if (Array.isArray(value)) return value.join(" | ");
+  if (typeof value === "object") return JSON.stringify(value);
+  const text = String(value).replace(/\n/g, " ");
+  return text.length > 200 ? `${text.slice(0, 200)}…` : text;
+}
+
+function formatChange(change: FieldChange): string {
+  if (change.details && change.details.length > 0 && change.field !== "text") {
+    return `  - ${change.field}: ${change.details.join("; ")}`;
+  }
+  const suffix = change.details ? ` (${change.details.join("; ")})` : "";
+  return `  - ${change.field}: ${formatValue(change.before)} → ${formatValue(change.after)}${suffix}`;
+}
+
+export function renderSurveyDiffMarkdown(diff: SurveyDiff): string {
+  const label = (survey: { surveyId: string; name: string }) => (survey.surveyId ? `${survey.name} (${survey.surveyId})` : survey.name);
+  const lines = [
+    "# Survey diff",
+    "",
+    `Before: ${label(diff.before)}`,
+    `After: ${label(diff.after)}`,
+    `Questions matched by ${diff.matchedBy === "id" ? "question ID" : "export tag"}`,
+  ];
+  if (diff.identical) {
+    lines.push("", "No differences.");
+    return lines.join("\n") + "\n";
+  }
+  if (diff.surveyName) lines.push("", `Survey renamed: ${diff.surveyName.before} → ${diff.surveyName.after}`);
+
+  const { questions, blocks } = diff;
+  if (questions.added.length + questions.removed.length + questions.modified.length + questions.moved.length > 0) {
+    lines.push("", "## Questions");
+    for (const question of questions.added) {
+      lines.push(`- Added ${question.exportTag} (${question.questionId}) in ${question.block ?? "no block"}: ${question.text}`);
+    }
+    for (const question of questions.removed) {
+      lines.push(`- Removed ${question.exportTag} (${question.questionId}) from ${question.block ?? "no block"}: ${question.text}`);
+    }
+    for (const question of questions.modified) {
+      lines.push(`- Modified ${question.exportTag} (${question.beforeQuestionId ? `${question.beforeQuestionId} → ` : ""}${question.questionId})`);
+      lines.push(...question.changes.map(formatChange));
+    }
+    for (const question of questions.moved) {
+      lines.push(`- Moved ${question.exportTag} (${question.questionId}) from ${question.fromBlock} to ${question.toBlock}`);
+    }
+  }
+
+  if (blocks.added.length + blocks.removed.length + blocks.modified.length > 0) {
+    lines.push("", "## Blocks");
+    for (const block of blocks.added) lines.push(`- Added ${block.description} (${block.blockId})`);
+    for (const block of blocks.removed) lines.push(`- Removed ${block.description} (${block.blockId})`);
+    for (const block of blocks.modified) {
+      lines.push(`- Modified ${block.description} (${block.blockId})`);
+      lines.push(...block.changes.map(formatChange));
+    }
+  }
+
+  if (diff.flow.changed) {
+    lines.push("", "## Flow", "", "```diff");
+    for (const change of diff.flow.changes) {
+      lines.push(`${change.change === "added" ? "+" : "-"} ${"  ".repeat(change.depth)}${change.element}`);
+    }
+    lines.push("```");
+  }
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,233 @@
+import type { SurveyDefinition } from "../types/index.js";
+import { checkQuestionJSWarning } from "./question-builders.js";
+import { BUILT_IN_EMBEDDED_FIELDS, flowEmbeddedData, stripHtml } from "./survey-definition.js";
+
+export type LintSeverity = "error" | "warning";
+
+export interface LintIssue {
+  severity: LintSeverity;
+  rule: string;
+  message: string;
+  questionId?: string;
+  blockId?: string;
+  flowId?: string;
+}
+
+export interface LintResult {
+  errors: number;
+  warnings: number;
+  issues: LintIssue[];
+}
+
+export interface LintOptions {
+  /** QIDs or export tags that must force a response, in addition to consent items and questions that drive branches */
+  criticalQuestions?: string[];
+}
+
+const PIPED_QUESTION = /\$\{q:\/\/(QID\d+)\//g;
+const PIPED_FIELD = /\$\{e:\/\/Field\/([^}]+)\}/g;
+const CHOICE_LOCATOR = /^q:\/\/(QID\d+)\/(?:SelectableChoice|DisplayableChoice|ChoiceTextEntryValue)\/([^/]+)/;
+
+/** Visits every string inside a JSON value. */
+function strings(value: unknown, visit: (text: string) => void) {
+  if (typeof value === "string") visit(value);
+  else if (Array.isArray(value)) value.forEach(item => strings(item, visit));
+  else if (value && typeof value === "object") Object.values(value).forEach(item => strings(item, visit));
+}
+
+/** Condition expressions of a DisplayLogic/BranchLogic object. */
+function logicExpressions(logic: any): any[] {
+  if (!logic || typeof logic !== "object") return [];
+  const expressions: any[] = [];
+  for (const [groupKey, group] of Object.entries<any>(logic)) {
+    if (!/^\d+$/.test(groupKey) || !group || typeof group !== "object") continue;
+    for (const [key, expression] of Object.entries<any>(group)) {
+      if (/^\d+$/.test(key) && expression && typeof expression === "object") expressions.push(expression);
+    }
+  }
+  return expressions;
+}
+
+function walkFlow(elements: any[] | undefined, visit: (element: any) => void) {
+  for (const element of elements || []) {
+    visit(element);
+    walkFlow(element.Flow, visit);
+  }
+}
+
+/**
+ * Checks a survey definition for mistakes that break data collection or
+ * exports: export tag collisions, unsafe JavaScript, dangling piped text and
+ * logic, unreachable blocks, and critical items without force response.
+ */
+export function lintSurvey(definition: SurveyDefinition, options: LintOptions = {}): LintResult {
+  const issues: LintIssue[] = [];
+  const add = (severity: LintSeverity, rule: string, message: string, where: Omit<LintIssue, "severity" | "rule" | "message"> = {}) => {
+    issues.push({ severity, rule, message, ...where });
+  };
+
+  const questions = (definition.Questions || {}) as Record<string, Record<string, any>>;
+  const blocks = Object.entries(definition.Blocks || {}).filter(([, block]) => block.Type !== "Trash");
+  const flow = definition.SurveyFlow;
+
+  // Questions in the trash count as deleted
+  const live = new Set<string>();
+  for (const [, block] of blocks) {
+    for (const element of block.BlockElements || []) {
+      if (element.Type === "Question" && element.QuestionID && questions[element.QuestionID]) live.add(element.QuestionID);
+    }
+  }
+  const label = (questionId: string) => {
+    const tag = questions[questionId]?.DataExportTag;
+    return tag && tag !== questionId ? `${tag} (${questionId})` : questionId;
+  };
+
+  // Export tags
+  const byTag = new Map<string, string[]>();
+  for (const questionId of live) {
+    const tag = questions[questionId].DataExportTag;
+    if (!tag) {
+      add("warning", "missing-export-tag", `${questionId} has no DataExportTag; export columns will be named after the QID`, { questionId });
+      continue;
+    }
+    byTag.set(tag, [...(byTag.get(tag) || []), questionId]);
+  }
+  for (const [tag, questionIds] of byTag) {
+    if (questionIds.length > 1) {
+      for (const questionId of questionIds) {
+        add("error", "duplicate-export-tag", `Export tag '${tag}' is used by ${questionIds.join(", ")}; their export columns collide`, { questionId });
+      }
+    }
+  }
+
+  // JavaScript
+  for (const questionId of live) {
+    const js = questions[questionId].QuestionJS;
+    const warning = typeof js === "string" && js ? checkQuestionJSWarning(js) : null;
+    if (warning) add("error", "unsafe-javascript", `${label(questionId)}: ${warning.replace(/^WARNING: /, "")}`, { questionId });
+  }
+
+  // Piped text, in questions and in flow elements (embedded data values, web service parameters)
+  const declared = new Set(flowEmbeddedData(definition).map(field => field.field));
+  walkFlow(flow?.Flow, element => {
+    for (const mapping of element.ResponseMap || []) if (mapping.value) declared.add(mapping.value);
+  });
+  const checkPipedText = (text: string, where: Omit<LintIssue, "severity" | "rule" | "message">, context: string) => {
+    for (const [, questionId] of text.matchAll(PIPED_QUESTION)) {
+      if (!live.has(questionId)) {
+        add("error", "piped-text-missing-question", `${context} pipes from ${questionId}, which ${questions[questionId] ? "is in the trash" : "does not exist"}`, where);
+      }
+    }
+    for (const [, field] of text.matchAll(PIPED_FIELD)) {
+      if (!declared.has(field) && !BUILT_IN_EMBEDDED_FIELDS.has(field)) {
+        add("warning", "piped-text-undeclared-field", `${context} pipes embedded data field '${field}', which is not declared in the survey flow`, where);
+      }
+    }
+  };
+  for (const questionId of live) {
+    const { QuestionText, Choices, Answers, QuestionJS, DefaultChoices } = questions[questionId];
+    const seen = new Set<string>();
+    strings({ QuestionText, Choices, Answers, QuestionJS, DefaultChoices }, text => {
+      if (!seen.has(text)) checkPipedText(text, { questionId }, label(questionId));
+      seen.add(text);
+    });
+  }
+  walkFlow(flow?.Flow, element => {
+    if (element.Type === "EmbeddedData" || element.Type === "WebService") {
+      strings({ EmbeddedData: element.EmbeddedData, URL: element.URL, RequestParams: element.RequestParams }, text => {
+        checkPipedText(text, { flowId: element.FlowID }, `Flow element ${element.FlowID} (${element.Type})`);
+      });
+    }
+  });
+
+  // Blocks and the flow
+  const inFlow = new Set<string>();
+  walkFlow(flow?.Flow, element => {
+    if ((element.Type === "Block" || element.Type === "Standard") && element.ID) {
+      inFlow.add(element.ID);
+      if (!definition.Blocks?.[element.ID] || definition.Blocks[element.ID].Type === "Trash") {
+        add("error", "flow-missing-block", `Flow element ${element.FlowID} shows block ${element.ID}, which does not exist`, { flowId: element.FlowID, blockId: element.ID });
+      }
+    }
+  });
+  for (const [blockId, block] of blocks) {
+    if (!(block.BlockElements || []).some(element => element.Type === "Question")) {
+      add("warning", "empty-block", `Block '${block.Description}' (${blockId}) has no questions`, { blockId });
+    }
+    if (flow && !inFlow.has(blockId)) {
+      add("warning", "block-not-in-flow", `Block '${block.Description}' (${blockId}) is not in the survey flow, so respondents never see it`, { blockId });
+    }
+  }
+
+  // Logic that points at deleted questions or choices
+  const branchQuestions = new Set<string>();
+  const checkLogic = (logic: any, where: Omit<LintIssue, "severity" | "rule" | "message">, context: string) => {
+    for (const expression of logicExpressions(logic)) {
+      const locator = typeof expression.LeftOperand === "string" ? expression.LeftOperand.match(CHOICE_LOCATOR) : null;
+      const questionId = locator?.[1] ?? expression.QuestionID;
+      if (!questionId || expression.LogicType !== "Question") continue;
+      const description = stripHtml(expression.Description) || expression.LeftOperand;
+      if (!live.has(questionId)) {
+        add("error", "logic-missing-question", `${context} tests ${questionId}, which ${questions[questionId] ? "is in the trash" : "does not exist"}: ${description}`, where);
+      } else if (locator && !questions[questionId].Choices?.[locator[2]]) {
+        add("error", "logic-missing-choice", `${context} tests choice ${locator[2]} of ${label(questionId)}, which no longer exists: ${description}`, where);
+      }
+      if (where.flowId) branchQuestions.add(questionId);
+    }
+  };
+  // Skip logic is a list of rules, each testing a choice and naming where to go
+  const checkSkipLogic = (questionId: string) => {
+    const skipLogic = questions[questionId].SkipLogic;
+    if (!skipLogic || typeof skipLogic !== "object") return;
+    for (const rule of Object.values<any>(skipLogic)) {
+      if (!rule || typeof rule !== "object") continue;
+      const context = `Skip logic of ${label(questionId)}`;
+      const description = stripHtml(rule.Description) || rule.ChoiceLocator;
+      const locator = typeof rule.ChoiceLocator === "string" ? rule.ChoiceLocator.match(CHOICE_LOCATOR) : null;
+      if (locator) {
+        if (!live.has(locator[1])) {
+          add("error", "logic-missing-question", `${context} tests ${locator[1]}, which ${questions[locator[1]] ? "is in the trash" : "does not exist"}: ${description}`, { questionId });
+        } else if (!questions[locator[1]].Choices?.[locator[2]]) {
+          add("error", "logic-missing-choice", `${context} tests choice ${locator[2]} of ${label(locator[1])}, which no longer exists: ${description}`, { questionId });
+        }
+      }
+      const destination = rule.SkipToDestination;
+      if (typeof destination === "string" && /^QID\d+$/.test(destination) && !live.has(destination)) {
+        add("error", "logic-missing-question", `${context} skips to ${destination}, which ${questions[destination] ? "is in the trash" : "does not exist"}: ${description}`, { questionId });
+      }
+    }
+  };
+  walkFlow(flow?.Flow, element => {
+    if (element.Type === "Branch") checkLogic(element.BranchLogic, { flowId: element.FlowID }, `Branch ${element.FlowID}`);
+  });
+  for (const questionId of live) {
+    checkLogic(questions[questionId].DisplayLogic, { questionId }, `Display logic of ${label(questionId)}`);
+    for (const [choiceId, choice] of Object.entries<any>(questions[questionId].Choices || {})) {
+      checkLogic(choice?.DisplayLogic, { questionId }, `Display logic of choice ${choiceId} of ${label(questionId)}`);
+    }
+    checkSkipLogic(questionId);
+  }
+
+  // Critical items: consent, questions that route respondents, and any the caller names
+  const named = new Set(options.criticalQuestions || []);
+  for (const questionId of live) {
+    const question = questions[questionId];
+    if (question.QuestionType === "DB" || question.Validation?.Settings?.ForceResponse === "ON") continue;
+    const reason = named.has(questionId) || named.has(question.DataExportTag)
+      ? "is listed as critical"
+      : branchQuestions.has(questionId)
+        ? "decides a branch in the survey flow"
+        : /consent/i.test(`${question.DataExportTag || ""} ${stripHtml(question.QuestionText)}`)
+          ? "looks like a consent item"
+          : null;
+    if (reason) {
+      add("warning", "missing-force-response", `${label(questionId)} ${reason} but does not force a response`, { questionId });
+    }
+  }
+
+  return {
+    errors: issues.filter(issue => issue.severity === "error").length,
+    warnings: issues.filter(issue => issue.severity === "warning").length,
+    issues,
+  };
+}
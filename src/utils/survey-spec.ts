@@ -0,0 +1,458 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { z } from "zod";
+import { embeddedDataFlowElement } from "./flow-tree.js";
+import { choiceExpression, fieldExpression } from "./logic-language.js";
+import { canonicalJson } from "./survey-definition.js";
+import { parseYaml } from "./yaml.js";
+import {
+  LIKERT_SCALES,
+  checkQuestionJSWarning,
+  descriptiveTextPayload,
+  likertLabels,
+  likertPayload,
+  matrixPayload,
+  multipleChoicePayload,
+  textEntryPayload,
+} from "./question-builders.js";
+
+/**
+ * Survey-as-code: a YAML or JSON document describing a survey's blocks,
+ * questions, embedded data and flow, which plan_survey_spec compares with a
+ * live survey and apply_survey_spec converges the survey to.
+ *
+ * Blocks are matched to live blocks by description and questions by
+ * DataExportTag (the spec's question id), so applying the same spec twice is a
+ * no-op.
+ */
+
+const SPEC_ID = z.string().regex(/^[A-Za-z][A-Za-z0-9_.-]*$/, "must start with a letter and contain only letters, digits, '_', '.' or '-'");
+
+const QUESTION_FIELDS = {
+  id: SPEC_ID.describe("Question ID, used as the DataExportTag"),
+  text: z.string().min(1),
+  forceResponse: z.boolean().optional(),
+  javascript: z.string().optional(),
+  javascriptFile: z.string().optional(),
+};
+
+const QuestionSpecSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("multiple_choice"),
+    ...QUESTION_FIELDS,
+    choices: z.array(z.string()).min(2),
+    allowMultiple: z.boolean().optional(),
+  }).strict(),
+  z.object({
+    type: z.literal("text_entry"),
+    ...QUESTION_FIELDS,
+    textType: z.enum(["single", "multi", "essay"]).optional(),
+  }).strict(),
+  z.object({
+    type: z.literal("descriptive"),
+    ...QUESTION_FIELDS,
+  }).strict(),
+  z.object({
+    type: z.literal("likert"),
+    ...QUESTION_FIELDS,
+    scale: z.enum(LIKERT_SCALES),
+    customLabels: z.array(z.string()).optional(),
+  }).strict(),
+  z.object({
+    type: z.literal("matrix"),
+    ...QUESTION_FIELDS,
+    statements: z.array(z.string()).min(1),
+    scalePoints: z.array(z.string()).min(2).optional(),
+    scale: z.enum(LIKERT_SCALES).optional(),
+    customLabels: z.array(z.string()).optional(),
+  }).strict(),
+  z.object({
+    type: z.literal("page_break"),
+  }).strict(),
+]);
+
+const EmbeddedDataSpecSchema = z.object({
+  name: z.string().min(1),
+  value: z.union([z.string(), z.number(), z.boolean()]).transform(String).optional(),
+  type: z.enum(["Custom", "Recipient"]).optional(),
+}).strict();
+
+const ConditionSpecSchema = z.union([
+  z.object({
+    question: z.string().min(1).describe("Spec question ID"),
+    choice: z.union([z.number().int().positive(), z.string().min(1)]).describe("Choice number (1-based) or choice label"),
+    selected: z.boolean().optional(),
+  }).strict(),
+  z.object({
+    field: z.string().min(1).describe("Embedded data field"),
+    operator: z.enum(["equals", "notEquals", "greaterThan", "lessThan", "contains", "empty", "notEmpty"]).optional(),
+    value: z.union([z.string(), z.number(), z.boolean()]).transform(String).optional(),
+  }).strict(),
+]);
+
+export type QuestionSpec = z.infer<typeof QuestionSpecSchema>;
+export type ConditionSpec = z.infer<typeof ConditionSpecSchema>;
+export type EmbeddedDataSpec = z.infer<typeof EmbeddedDataSpecSchema>;
+
+export type FlowSpec =
+  | { block: string }
+  | { embeddedData: EmbeddedDataSpec[] }
+  | { group: { description: string; flow: FlowSpec[] } }
+  | { randomizer: { choose?: number; evenPresentation?: boolean; flow: FlowSpec[] } }
+  | { branch: { if: ConditionSpec[]; conjunction?: "and" | "or"; description?: string; flow: FlowSpec[] } }
+  | { endSurvey: true };
+
+const FlowSpecSchema: z.ZodType<FlowSpec, z.ZodTypeDef, unknown> = z.lazy(() => z.union([
+  z.object({ block: z.string().min(1) }).strict(),
+  z.object({ embeddedData: z.array(EmbeddedDataSpecSchema).min(1) }).strict(),
+  z.object({
+    group: z.object({ description: z.string().min(1), flow: z.array(FlowSpecSchema) }).strict(),
+  }).strict(),
+  z.object({
+    randomizer: z.object({
+      choose: z.number().int().positive().optional(),
+      evenPresentation: z.boolean().optional(),
+      flow: z.array(FlowSpecSchema).min(1),
+    }).strict(),
+  }).strict(),
+  z.object({
+    branch: z.object({
+      if: z.array(ConditionSpecSchema).min(1),
+      conjunction: z.enum(["and", "or"]).optional(),
+      description: z.string().optional(),
+      flow: z.array(FlowSpecSchema),
+    }).strict(),
+  }).strict(),
+  z.object({ endSurvey: z.literal(true) }).strict(),
+]));
+
+const BlockSpecSchema = z.object({
+  id: SPEC_ID,
+  description: z.string().min(1).optional(),
+  questions: z.array(QuestionSpecSchema).default([]),
+}).strict();
+
+export const SurveySpecSchema = z.object({
+  name: z.string().min(1).optional(),
+  embeddedData: z.array(EmbeddedDataSpecSchema).optional(),
+  blocks: z.array(BlockSpecSchema).min(1),
+  flow: z.array(FlowSpecSchema).optional(),
+}).strict();
+
+export type BlockSpec = z.infer<typeof BlockSpecSchema>;
+export type SurveySpec = z.infer<typeof SurveySpecSchema>;
+export type ContentQuestionSpec = Exclude<QuestionSpec, { type: "page_break" }>;
+
+export class SurveySpecError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid survey spec:\n- ${issues.join("\n- ")}`);
+    this.name = "SurveySpecError";
+  }
+}
+
+export function blockDescription(block: BlockSpec): string {
+  return block.description || block.id;
+}
+
+export function specQuestions(spec: SurveySpec): ContentQuestionSpec[] {
+  return spec.blocks.flatMap(block => block.questions.filter((question): question is ContentQuestionSpec => question.type !== "page_break"));
+}
+
+/** Scale labels of a likert question or matrix, or null when the spec gives none that are usable. */
+function scaleLabels(question: { scale?: string; scalePoints?: string[]; customLabels?: string[] }): string[] | null {
+  if (question.scalePoints) return question.scalePoints;
+  return question.scale ? likertLabels(question.scale, question.customLabels) : null;
+}
+
+/** Labels a respondent selects from, for questions that branches can test. */
+function selectableChoices(question: ContentQuestionSpec): string[] | null {
+  if (question.type === "multiple_choice") return question.choices;
+  if (question.type === "likert") return scaleLabels(question);
+  return null;
+}
+
+function walkFlow(elements: FlowSpec[], visit: (element: FlowSpec) => void) {
+  for (const element of elements) {
+    visit(element);
+    if ("group" in element) walkFlow(element.group.flow, visit);
+    if ("randomizer" in element) walkFlow(element.randomizer.flow, visit);
+    if ("branch" in element) walkFlow(element.branch.flow, visit);
+  }
+}
+
+/** Checks that cannot be expressed in the schema: unique IDs, scales, and flow references. */
+function validateSpec(spec: SurveySpec): string[] {
+  const issues: string[] = [];
+  const blockIds = new Set<string>();
+  const descriptions = new Set<string>();
+  for (const block of spec.blocks) {
+    if (blockIds.has(block.id)) issues.push(`blocks: duplicate block id '${block.id}'`);
+    if (descriptions.has(blockDescription(block))) issues.push(`blocks: duplicate block description '${blockDescription(block)}' (blocks are matched by description)`);
+    blockIds.add(block.id);
+    descriptions.add(blockDescription(block));
+  }
+
+  const questions = new Map<string, ContentQuestionSpec>();
+  for (const question of specQuestions(spec)) {
+    if (questions.has(question.id)) issues.push(`questions: duplicate question id '${question.id}'`);
+    questions.set(question.id, question);
+    if (question.javascript && question.javascriptFile) {
+      issues.push(`${question.id}: give either javascript or javascriptFile, not both`);
+    }
+    if ((question.type === "likert" || question.type === "matrix") && !scaleLabels(question)) {
+      issues.push(question.type === "matrix" && !question.scale
+        ? `${question.id}: matrix questions need scalePoints or a scale preset`
+        : `${question.id}: the custom scale needs at least 2 customLabels`);
+    }
+  }
+
+  const placed = new Set<string>();
+  walkFlow(spec.flow || [], element => {
+    if ("block" in element) {
+      if (!blockIds.has(element.block)) issues.push(`flow: unknown block '${element.block}'`);
+      if (placed.has(element.block)) issues.push(`flow: block '${element.block}' appears more than once`);
+      placed.add(element.block);
+    }
+    if ("branch" in element) {
+      for (const condition of element.branch.if) {
+        if (!("question" in condition)) continue;
+        const question = questions.get(condition.question);
+        const choices = question ? selectableChoices(question) : null;
+        if (!question) {
+          issues.push(`flow: branch condition refers to unknown question '${condition.question}'`);
+        } else if (!choices) {
+          issues.push(`flow: branch condition on '${condition.question}' needs a multiple_choice or likert question`);
+        } else if (typeof condition.choice === "number" ? condition.choice > choices.length : !choices.includes(condition.choice)) {
+          issues.push(`flow: '${condition.question}' has no choice ${JSON.stringify(condition.choice)}`);
+        }
+      }
+    }
+  });
+  return issues;
+}
+
+/** Parses and validates a spec given as YAML/JSON text or an already-parsed object. */
+export function parseSurveySpec(input: unknown): SurveySpec {
+  let document = input;
+  if (typeof input === "string") {
+    try {
+      document = input.trim().startsWith("{") ? JSON.parse(input) : parseYaml(input);
+    } catch (error) {
+      throw new SurveySpecError([error instanceof Error ? error.message : String(error)]);
+    }
+  }
+
+  const parsed = SurveySpecSchema.safeParse(document);
+  if (!parsed.success) {
+    throw new SurveySpecError(parsed.error.issues.map(issue => `${issue.path.join(".") || "(root)"}: ${issue.message}`));
+  }
+  const issues = validateSpec(parsed.data);
+  if (issues.length > 0) throw new SurveySpecError(issues);
+  return parsed.data;
+}
+
+/** Inlines every javascriptFile, resolved relative to `baseDir` (the spec file's folder). */
+export async function loadSpecJavaScript(spec: SurveySpec, baseDir: string): Promise<void> {
+  for (const question of specQuestions(spec)) {
+    if (!question.javascriptFile) continue;
+    const filePath = path.resolve(baseDir, question.javascriptFile);
+    try {
+      question.javascript = await fs.readFile(filePath, "utf8");
+    } catch (error) {
+      throw new SurveySpecError([`${question.id}: could not read javascriptFile ${filePath}: ${error instanceof Error ? error.message : String(error)}`]);
+    }
+    delete question.javascriptFile;
+  }
+}
+
+/** Warnings that do not block applying the spec. */
+export function specWarnings(spec: SurveySpec): string[] {
+  const warnings: string[] = [];
+  for (const question of specQuestions(spec)) {
+    const warning = question.javascript ? checkQuestionJSWarning(question.javascript) : null;
+    if (warning) warnings.push(`${question.id}: ${warning}`);
+  }
+  if (spec.flow) {
+    const placed = new Set<string>();
+    walkFlow(spec.flow, element => {
+      if ("block" in element) placed.add(element.block);
+    });
+    for (const block of spec.blocks) {
+      if (!placed.has(block.id)) warnings.push(`Block '${block.id}' is not in the flow, so respondents will never see it`);
+    }
+  }
+  return warnings;
+}
+
+export function questionPayload(question: ContentQuestionSpec): Record<string, any> {
+  let payload: Record<string, any>;
+  switch (question.type) {
+    case "multiple_choice":
+      payload = multipleChoicePayload({ questionText: question.text, choices: question.choices, allowMultiple: question.allowMultiple, forceResponse: question.forceResponse, dataExportTag: question.id });
+      break;
+    case "text_entry":
+      payload = textEntryPayload({ questionText: question.text, textType: question.textType || "single", forceResponse: question.forceResponse, dataExportTag: question.id });
+      break;
+    case "descriptive":
+      payload = descriptiveTextPayload({ htmlContent: question.text, dataExportTag: question.id });
+      break;
+    case "likert":
+      payload = likertPayload({ questionText: question.text, labels: scaleLabels(question)!, forceResponse: question.forceResponse, dataExportTag: question.id });
+      break;
+    case "matrix":
+      payload = matrixPayload({ questionText: question.text, statements: question.statements, scalePoints: scaleLabels(question)!, forceResponse: question.forceResponse, dataExportTag: question.id });
+      break;
+  }
+  if (question.javascript) payload.QuestionJS = question.javascript;
+  return payload;
+}
+
+function displays(choices: Record<string, any> | undefined, order: Array<string | number> | undefined): string[] {
+  if (!choices) return [];
+  return (order && order.length > 0 ? order.map(String) : Object.keys(choices)).map(id => choices[id]?.Display ?? "");
+}
+
+function forcesResponse(question: Record<string, any>): boolean {
+  return question.Validation?.Settings?.ForceResponse === "ON";
+}
+
+/** Names of the settings in which a live question differs from the payload the spec produces. */
+export function questionChanges(desired: Record<string, any>, live: Record<string, any>): string[] {
+  const changes: string[] = [];
+  if (desired.QuestionText !== live.QuestionText) changes.push("text");
+  if (desired.QuestionType !== live.QuestionType || desired.Selector !== live.Selector
+    || (desired.SubSelector !== undefined && desired.SubSelector !== live.SubSelector)) {
+    changes.push("type");
+  }
+  if (JSON.stringify(displays(desired.Choices, desired.ChoiceOrder)) !== JSON.stringify(displays(live.Choices, live.ChoiceOrder))) {
+    changes.push("choices");
+  }
+  if (JSON.stringify(displays(desired.Answers, desired.AnswerOrder)) !== JSON.stringify(displays(live.Answers, live.AnswerOrder))) {
+    changes.push("scale");
+  }
+  if (forcesResponse(desired) !== forcesResponse(live)) changes.push("forceResponse");
+  if ((desired.QuestionJS || "") !== (typeof live.QuestionJS === "string" ? live.QuestionJS : "")) changes.push("javascript");
+  return changes;
+}
+
+/** Settings the spec owns; everything else on a live question (recodes, layout, logic) is preserved on update. */
+const MANAGED_QUESTION_KEYS = ["QuestionText", "QuestionType", "Selector", "SubSelector", "Choices", "ChoiceOrder", "Answers", "AnswerOrder", "QuestionJS", "DataExportTag"];
+
+export function updatedQuestion(desired: Record<string, any>, live: Record<string, any>): Record<string, any> {
+  const merged: Record<string, any> = { ...live };
+  for (const key of MANAGED_QUESTION_KEYS) delete merged[key];
+  Object.assign(merged, desired);
+  if (!desired.Validation && forcesResponse(live)) {
+    merged.Validation = { ...live.Validation, Settings: { ...live.Validation.Settings, ForceResponse: "OFF", ForceResponseType: "OFF" } };
+  }
+  return merged;
+}
+
+export interface SpecIds {
+  /** Live block ID for a spec block ID */
+  block(specId: string): string;
+  /** Live QID for a spec question ID */
+  question(specId: string): string;
+}
+
+/** Spec operator names and their symbols in the logic language */
+const EMBEDDED_DATA_OPERATORS: Record<string, string> = {
+  equals: "=",
+  notEquals: "!=",
+  greaterThan: ">",
+  lessThan: "<",
+  contains: "contains",
+  empty: "is empty",
+  notEmpty: "is not empty",
+};
+
+function branchLogic(branch: Extract<FlowSpec, { branch: unknown }>["branch"], spec: SurveySpec, ids: SpecIds): Record<string, any> {
+  const questions = new Map(specQuestions(spec).map(question => [question.id, question]));
+  const group: Record<string, any> = { Type: "If" };
+  branch.if.forEach((condition, index) => {
+    let expression: Record<string, any>;
+    if ("question" in condition) {
+      const choices = selectableChoices(questions.get(condition.question)!)!;
+      const choiceNumber = typeof condition.choice === "number" ? condition.choice : choices.indexOf(condition.choice) + 1;
+      const selected = condition.selected !== false;
+      const description = `If ${condition.question} ${choices[choiceNumber - 1]} Is ${selected ? "Selected" : "Not Selected"}`;
+      expression = choiceExpression(ids.question(condition.question), String(choiceNumber), selected, description);
+    } else {
+      expression = fieldExpression(condition.field, EMBEDDED_DATA_OPERATORS[condition.operator || "equals"], condition.value);
+    }
+    // Qualtrics spells the joining keyword "Conjuction"
+    if (index > 0) expression.Conjuction = branch.conjunction === "or" ? "Or" : "And";
+    group[String(index)] = expression;
+  });
+  return { "0": group, Type: "BooleanExpression" };
+}
+
+function flowElement(element: FlowSpec, spec: SurveySpec, ids: SpecIds): Record<string, any> {
+  if ("block" in element) return { Type: "Block", ID: ids.block(element.block), Autofill: [] };
+  if ("embeddedData" in element) return embeddedDataFlowElement(element.embeddedData);
+  if ("group" in element) {
+    return { Type: "Group", Description: element.group.description, Flow: element.group.flow.map(child => flowElement(child, spec, ids)) };
+  }
+  if ("randomizer" in element) {
+    return {
+      Type: "BlockRandomizer",
+      SubSet: element.randomizer.choose ?? element.randomizer.flow.length,
+      EvenPresentation: element.randomizer.evenPresentation ?? true,
+      Flow: element.randomizer.flow.map(child => flowElement(child, spec, ids)),
+    };
+  }
+  if ("branch" in element) {
+    return {
+      Type: "Branch",
+      ...(element.branch.description ? { Description: element.branch.description } : {}),
+      BranchLogic: branchLogic(element.branch, spec, ids),
+      Flow: element.branch.flow.map(child => flowElement(child, spec, ids)),
+    };
+  }
+  return { Type: "EndSurvey" };
+}
+
+function numberFlow(elements: Array<Record<string, any>>, next: { value: number }): Array<Record<string, any>> {
+  return elements.map(element => {
+    const numbered: Record<string, any> = { ...element, FlowID: `FL_${next.value++}` };
+    if (element.Flow) numbered.Flow = numberFlow(element.Flow, next);
+    return numbered;
+  });
+}
+
+/**
+ * The survey flow a spec describes: survey-level embedded data first, then the
+ * spec's flow (or every block in order when it has none), numbered from FL_2.
+ */
+export function specFlow(spec: SurveySpec, ids: SpecIds): Record<string, any> {
+  const elements = (spec.flow || spec.blocks.map(block => ({ block: block.id }))).map(element => flowElement(element, spec, ids));
+  if (spec.embeddedData && spec.embeddedData.length > 0) elements.unshift(embeddedDataFlowElement(spec.embeddedData));
+  const next = { value: 2 };
+  const Flow = numberFlow(elements, next);
+  return { Type: "Root", FlowID: "FL_1", Flow, Properties: { Count: next.value - 1 } };
+}
+
+/** Condition descriptions are display text derived from the logic itself. */
+function withoutDescriptions(logic: any): any {
+  if (!logic || typeof logic !== "object") return logic;
+  const { Description, ...rest } = logic;
+  return Object.fromEntries(Object.entries(rest).map(([key, value]) => [key, withoutDescriptions(value)]));
+}
+
+/** A flow with FlowIDs and bookkeeping removed, so flows that behave the same compare equal. */
+function normalizeFlow(elements: any[] | undefined): any[] {
+  return (elements || []).map(element => {
+    const { FlowID, Autofill, Properties, ...rest } = element;
+    if (rest.Type === "Standard") rest.Type = "Block";
+    if (rest.EmbeddedData) {
+      rest.EmbeddedData = rest.EmbeddedData.map((field: any) => ({ Field: field.Field, Type: field.Type || "Custom", Value: field.Value || "" }));
+    }
+    if (rest.BranchLogic) rest.BranchLogic = withoutDescriptions(rest.BranchLogic);
+    if (rest.Flow) rest.Flow = normalizeFlow(rest.Flow);
+    return rest;
+  });
+}
+
+export function flowsEqual(desired: any, live: any): boolean {
+  return canonicalJson(normalizeFlow(desired?.Flow)) === canonicalJson(normalizeFlow(live?.Flow));
+}
@@ -0,0 +1,332 @@
+/**
+ * Parser for the YAML subset used by survey specs: block mappings and sequences,
+ * flow collections on a single line ([a, b], {a: 1}), plain, single- and
+ * double-quoted scalars, literal (|) and folded (>) block scalars, and comments.
+ * Anchors, aliases, tags and multi-document streams are not supported.
+ */
+
+export class YamlSyntaxError extends Error {
+  constructor(message: string, public line: number) {
+    super(`${message} (line ${line})`);
+    this.name = "YamlSyntaxError";
+  }
+}
+
+function indentOf(line: string): number {
+  return line.match(/^ */)![0].length;
+}
+
+function isBlank(line: string): boolean {
+  const trimmed = line.trim();
+  return trimmed === "" || trimmed.startsWith("#");
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === "-" || text.startsWith("- ");
+}
+
+/** Index of the colon separating a mapping key from its value, or -1. */
+function keySeparator(text: string): number {
+  if (text.startsWith('"') || text.startsWith("'")) {
+    const end = quotedEnd(text, 0);
+    return end !== -1 && text[end + 1] === ":" && (end + 2 === text.length || text[end + 2] === " ") ? end + 1 : -1;
+  }
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === ":" && (i + 1 === text.length || text[i + 1] === " ")) return i;
+    if (text[i] === "#" && i > 0 && text[i - 1] === " ") return -1;
+  }
+  return -1;
+}
+
+/** Index of the closing quote of the quoted scalar starting at `start`, or -1. */
+function quotedEnd(text: string, start: number): number {
+  const quote = text[start];
+  for (let i = start + 1; i < text.length; i++) {
+    if (quote === '"' && text[i] === "\\") {
+      i++;
+    } else if (text[i] === quote) {
+      if (quote === "'" && text[i + 1] === "'") {
+        i++;
+      } else {
+        return i;
+      }
+    }
+  }
+  return -1;
+}
+
+function unquote(token: string, line: number): string {
+  if (token.startsWith("'")) return token.slice(1, -1).replace(/''/g, "'");
+  try {
+    return JSON.parse(token.replace(/\t/g, "\\t"));
+  } catch {
+    throw new YamlSyntaxError(`Invalid double-quoted string ${token}`, line);
+  }
+}
+
+function plainScalar(text: string): unknown {
+  if (text === "" || text === "~" || /^(null|Null|NULL)$/.test(text)) return null;
+  if (/^(true|True|TRUE)$/.test(text)) return true;
+  if (/^(false|False|FALSE)$/.test(text)) return false;
+  if (/^[-+]?\d+$/.test(text)) return Number(text);
+  if (/^[-+]?(\d+\.\d*|\.\d+|\d+)([eE][-+]?\d+)?$/.test(text)) return Number(text);
+  return text;
+}
+
+function stripComment(text: string): string {
+  const match = text.match(/(^|\s)#/);
+  return (match ? text.slice(0, match.index) : text).trim();
+}
+
+/** Recursive-descent parser for single-line flow collections and scalars. */
+class FlowParser {
+  private pos = 0;
+
+  constructor(private text: string, private line: number) {}
+
+  parseAll(): unknown {
+    const value = this.value(false);
+    this.skipSpaces();
+    const rest = this.text.slice(this.pos);
+    if (rest !== "" && !rest.startsWith("#")) {
+      throw new YamlSyntaxError(`Unexpected text after value: ${rest}`, this.line);
+    }
+    return value;
+  }
+
+  private skipSpaces() {
+    while (this.text[this.pos] === " ") this.pos++;
+  }
+
+  private value(inFlow: boolean): unknown {
+    this.skipSpaces();
+    const char = this.text[this.pos];
+    if (char === "[") return this.sequence();
+    if (char === "{") return this.mapping();
+    if (char === '"' || char === "'") {
+      const end = quotedEnd(this.text, this.pos);
+      if (end === -1) throw new YamlSyntaxError("Unterminated quoted string", this.line);
+      const token = this.text.slice(this.pos, end + 1);
+      this.pos = end + 1;
+      return unquote(token, this.line);
+    }
+    return plainScalar(this.plain(inFlow ? /[,\]}]/ : null, inFlow));
+  }
+
+  private plain(stop: RegExp | null, inFlow: boolean): string {
+    const start = this.pos;
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos];
+      if (stop && stop.test(char)) break;
+      if (inFlow && char === ":" && (this.text[this.pos + 1] === " " || /[,\]}]/.test(this.text[this.pos + 1] ?? ""))) break;
+      if (char === "#" && this.pos > start && this.text[this.pos - 1] === " ") break;
+      this.pos++;
+    }
+    return this.text.slice(start, this.pos).trim();
+  }
+
+  private expect(char: string) {
+    this.skipSpaces();
+    if (this.text[this.pos] !== char) {
+      throw new YamlSyntaxError(`Expected '${char}'${this.pos < this.text.length ? ` but found '${this.text[this.pos]}'` : " before end of line (flow collections must be on one line)"}`, this.line);
+    }
+    this.pos++;
+  }
+
+  private sequence(): unknown[] {
+    this.expect("[");
+    const items: unknown[] = [];
+    this.skipSpaces();
+    while (this.text[this.pos] !== "]") {
+      items.push(this.value(true));
+      this.skipSpaces();
+      if (this.text[this.pos] === ",") {
+        this.pos++;
+        this.skipSpaces();
+      } else {
+        break;
+      }
+    }
+    this.expect("]");
+    return items;
+  }
+
+  private mapping(): Record<string, unknown> {
+    this.expect("{");
+    const result: Record<string, unknown> = {};
+    this.skipSpaces();
+    while (this.text[this.pos] !== "}") {
+      const key = this.value(true);
+      this.expect(":");
+      result[String(key)] = this.value(true);
+      this.skipSpaces();
+      if (this.text[this.pos] === ",") {
+        this.pos++;
+        this.skipSpaces();
+      } else {
+        break;
+      }
+    }
+    this.expect("}");
+    return result;
+  }
+}
+
+class BlockParser {
+  private index = 0;
+
+  constructor(private lines: string[]) {}
+
+  parseDocument(): unknown {
+    this.skipBlank();
+    if (this.index < this.lines.length && this.lines[this.index].trim() === "---") {
+      this.index++;
+      this.skipBlank();
+    }
+    if (this.index >= this.lines.length) return null;
+
+    const value = this.node(indentOf(this.lines[this.index]));
+    this.skipBlank();
+    if (this.index < this.lines.length && this.lines[this.index].trim() !== "...") {
+      throw new YamlSyntaxError(`Unexpected '${this.lines[this.index].trim()}' at this indentation`, this.index + 1);
+    }
+    return value;
+  }
+
+  private skipBlank() {
+    while (this.index < this.lines.length && isBlank(this.lines[this.index])) this.index++;
+  }
+
+  private node(indent: number): unknown {
+    const text = this.lines[this.index].slice(indent);
+    if (isSequenceItem(text)) return this.sequence(indent);
+    if (!/^[[{]/.test(text) && keySeparator(text) !== -1) return this.mapping(indent);
+    this.index++;
+    return new FlowParser(text, this.index).parseAll();
+  }
+
+  /** Parses the value of a `key:` or `-` with nothing after it on the line. */
+  private nestedValue(parentIndent: number, allowSameIndentSequence: boolean): unknown {
+    this.skipBlank();
+    if (this.index >= this.lines.length) return null;
+    const line = this.lines[this.index];
+    const indent = indentOf(line);
+    if (indent > parentIndent) return this.node(indent);
+    if (allowSameIndentSequence && indent === parentIndent && isSequenceItem(line.slice(indent))) {
+      return this.sequence(indent);
+    }
+    return null;
+  }
+
+  private sequence(indent: number): unknown[] {
+    const items: unknown[] = [];
+    while (this.index < this.lines.length) {
+      this.skipBlank();
+      if (this.index >= this.lines.length) break;
+      const line = this.lines[this.index];
+      if (indentOf(line) !== indent || !isSequenceItem(line.slice(indent))) break;
+
+      const content = line.slice(indent + 1).trimStart();
+      if (content === "" || content.startsWith("#")) {
+        this.index++;
+        items.push(this.nestedValue(indent, false));
+      } else if (/^[|>]/.test(content)) {
+        items.push(this.blockScalar(content, indent));
+      } else {
+        // Re-read the item's content as if it started at its own column
+        const itemIndent = line.length - content.length;
+        this.lines[this.index] = " ".repeat(itemIndent) + content;
+        items.push(this.node(itemIndent));
+      }
+    }
+    return items;
+  }
+
+  private mapping(indent: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    while (this.index < this.lines.length) {
+      this.skipBlank();
+      if (this.index >= this.lines.length) break;
+      const line = this.lines[this.index];
+      const lineIndent = indentOf(line);
+      if (lineIndent < indent) break;
+      if (lineIndent > indent) throw new YamlSyntaxError("Unexpected indentation", this.index + 1);
+
+      const text = line.slice(indent);
+      if (isSequenceItem(text)) break;
+      const separator = keySeparator(text);
+      if (separator === -1) throw new YamlSyntaxError(`Expected 'key: value' but found '${text.trim()}'`, this.index + 1);
+
+      const rawKey = text.slice(0, separator).trim();
+      const key = rawKey.startsWith('"') || rawKey.startsWith("'") ? unquote(rawKey, this.index + 1) : rawKey;
+      if (Object.prototype.hasOwnProperty.call(result, key)) {
+        throw new YamlSyntaxError(`Duplicate key '${key}'`, this.index + 1);
+      }
+
+      const rest = text.slice(separator + 1).trim();
+      if (rest === "" || rest.startsWith("#")) {
+        this.index++;
+        result[key] = this.nestedValue(indent, true);
+      } else if (/^[|>]/.test(rest)) {
+        result[key] = this.blockScalar(rest, indent);
+      } else {
+        this.index++;
+        result[key] = new FlowParser(rest, this.index).parseAll();
+      }
+    }
+    return result;
+  }
+
+  /** Literal (|) or folded (>) scalar; `header` is the indicator with optional chomping (-/+). */
+  private blockScalar(header: string, parentIndent: number): string {
+    const match = stripComment(header).match(/^([|>])([-+]?)$/);
+    if (!match) throw new YamlSyntaxError(`Unsupported block scalar header '${header}'`, this.index + 1);
+    const [, style, chomping] = match;
+    this.index++;
+
+    const content: string[] = [];
+    let contentIndent = -1;
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      if (line.trim() === "") {
+        content.push("");
+        this.index++;
+        continue;
+      }
+      const indent = indentOf(line);
+      if (contentIndent === -1) {
+        if (indent <= parentIndent) break;
+        contentIndent = indent;
+      }
+      if (indent < contentIndent) break;
+      content.push(line.slice(contentIndent));
+      this.index++;
+    }
+
+    // Trailing blank lines belong to the scalar only with "keep" chomping
+    let trailing = 0;
+    while (content.length > 0 && content[content.length - 1] === "") {
+      content.pop();
+      trailing++;
+    }
+    let body: string;
+    if (style === "|") {
+      body = content.join("\n");
+    } else {
+      body = content.reduce((text, line, i) => {
+        if (i === 0) return line;
+        if (line === "") return text + "\n";
+        return text.endsWith("\n") ? text + line : `${text} ${line}`;
+      }, "");
+    }
+    if (content.length === 0) return "";
+    if (chomping === "-") return body;
+    if (chomping === "+") return body + "\n".repeat(trailing + 1);
+    return body + "\n";
+  }
+}
+
+export function parseYaml(text: string): unknown {
+  const lines = text.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n").split("\n");
+  return new BlockParser(lines).parseDocument();
+}